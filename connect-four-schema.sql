@@ -3,8 +3,12 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE TABLE players (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   ai BOOLEAN DEFAULT FALSE NOT NULL,
+  ai_difficulty TEXT
+    CHECK (ai_difficulty IN ('random', 'easy', 'medium', 'hard')),
   name TEXT NOT NULL,
   color TEXT NOT NULL,
+  password TEXT,
+  rating INTEGER DEFAULT 1500 NOT NULL,
   created_on TIMESTAMPTZ DEFAULT current_timestamp
 );
 
@@ -12,10 +16,27 @@ CREATE TABLE boards (
   id SERIAL PRIMARY KEY,
   width INTEGER,
   height INTEGER,
+  win_length INTEGER DEFAULT 4 NOT NULL
+    CHECK (win_length BETWEEN 3 AND 8),
+  topology TEXT DEFAULT 'flat' NOT NULL
+    CHECK (topology IN ('flat', 'cylinder')),
+  blocked_cells INTEGER[][] DEFAULT '{}' NOT NULL,
   full_cols INTEGER[],
   data JSONB[][]
 );
 
+-- Reusable board shapes; blocked cells are [y, x] coordinates no piece can occupy
+CREATE TABLE board_layouts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  height INTEGER NOT NULL,
+  width INTEGER NOT NULL,
+  blocked_cells INTEGER[][] DEFAULT '{}' NOT NULL,
+  created_by UUID
+    REFERENCES players ON DELETE SET NULL,
+  created_on TIMESTAMPTZ DEFAULT current_timestamp NOT NULL
+);
+
 CREATE TABLE games (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   game_state INTEGER DEFAULT 0 NOT NULL,
@@ -25,6 +46,35 @@ CREATE TABLE games (
   winning_set INTEGER[][],
   curr_player_id UUID
     REFERENCES players,
+  undo_requested_by UUID
+    REFERENCES players ON DELETE SET NULL,
+  draw_offered_by UUID
+    REFERENCES players ON DELETE SET NULL,
+  end_reason TEXT
+    CHECK (end_reason IN
+      ('connect', 'boardFull', 'timeout', 'resignation', 'drawAgreed', 'abandoned')),
+  clock_type TEXT
+    CHECK (clock_type IN ('perMove', 'fischer')),
+  clock_seconds INTEGER
+    CHECK (clock_seconds > 0),
+  clock_increment_seconds INTEGER DEFAULT 0 NOT NULL
+    CHECK (clock_increment_seconds >= 0),
+  timeout_action TEXT DEFAULT 'forfeit' NOT NULL
+    CHECK (timeout_action IN ('forfeit', 'randomMove')),
+  turn_started_on TIMESTAMPTZ,
+  owner_id UUID
+    REFERENCES players ON DELETE SET NULL,
+  is_private BOOLEAN DEFAULT FALSE NOT NULL,
+  join_code TEXT UNIQUE,
+  max_players INTEGER DEFAULT 2 NOT NULL
+    CHECK (max_players BETWEEN 2 AND 8),
+  continue_after_win BOOLEAN DEFAULT FALSE NOT NULL,
+  variant TEXT DEFAULT 'classic' NOT NULL
+    CHECK (variant IN ('classic', 'popOut', 'powerUps', 'fogOfWar')),
+  power_ups JSONB,
+  series_id UUID,
+  rematch_of UUID UNIQUE
+    REFERENCES games ON DELETE SET NULL,
   created_on TIMESTAMPTZ DEFAULT current_timestamp
 );
 
@@ -34,6 +84,9 @@ CREATE TABLE game_players (
   game_id UUID
     REFERENCES games ON DELETE CASCADE,
   play_order INTEGER,
+  time_remaining_ms INTEGER,
+  final_place INTEGER,
+  power_ups JSONB,
   PRIMARY KEY (player_id, game_id),
   UNIQUE (player_id, game_id),
   UNIQUE (game_id, play_order)
@@ -47,5 +100,59 @@ CREATE TABLE game_turns (
   game_id UUID
     REFERENCES games ON DELETE CASCADE,
   location INTEGER[] NOT NULL,
+  move_type TEXT DEFAULT 'drop' NOT NULL
+    CHECK (move_type IN ('drop', 'pop', 'anvil', 'wall', 'bomb')),
+  effect JSONB,
   created_on_epoch BIGINT DEFAULT extract(epoch from current_timestamp)
 );
+
+-- Ratings are kept when games are deleted (they were still played)
+CREATE TABLE rating_history (
+  id SERIAL PRIMARY KEY,
+  player_id UUID NOT NULL
+    REFERENCES players ON DELETE CASCADE,
+  game_id UUID
+    REFERENCES games ON DELETE SET NULL,
+  rating_before INTEGER NOT NULL,
+  rating_after INTEGER NOT NULL,
+  created_on TIMESTAMPTZ DEFAULT current_timestamp
+);
+
+-- Invitations to (private) games; accepting one adds the player to the game
+CREATE TABLE game_invitations (
+  game_id UUID
+    REFERENCES games ON DELETE CASCADE,
+  player_id UUID
+    REFERENCES players ON DELETE CASCADE,
+  invited_by UUID
+    REFERENCES players ON DELETE SET NULL,
+  status TEXT DEFAULT 'pending' NOT NULL
+    CHECK (status IN ('pending', 'accepted', 'declined')),
+  created_on TIMESTAMPTZ DEFAULT current_timestamp NOT NULL,
+  responded_on TIMESTAMPTZ,
+  PRIMARY KEY (game_id, player_id)
+);
+
+-- People watching a game (who aren't its players); last_seen_on is refreshed
+-- while they watch so only recently seen spectators are counted
+CREATE TABLE game_spectators (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  game_id UUID NOT NULL
+    REFERENCES games ON DELETE CASCADE,
+  name TEXT,
+  last_seen_on TIMESTAMPTZ DEFAULT current_timestamp NOT NULL,
+  created_on TIMESTAMPTZ DEFAULT current_timestamp NOT NULL
+);
+
+-- Players waiting for (or matched with) an opponent; game_id is set once matched
+CREATE TABLE matchmaking_queue (
+  player_id UUID PRIMARY KEY
+    REFERENCES players ON DELETE CASCADE,
+  height INTEGER NOT NULL,
+  width INTEGER NOT NULL,
+  rating_band INTEGER
+    CHECK (rating_band >= 0),
+  game_id UUID
+    REFERENCES games ON DELETE SET NULL,
+  created_on TIMESTAMPTZ DEFAULT current_timestamp NOT NULL
+);
@@ -15,18 +15,22 @@ async function createGameAddPlayers() {
   const response = await axios.post(`${endpoint}/games/`, gameRequestBody);
   let gameId = response.data.game.id;
 
-  /**
-   * ('08b9a3b4-1fa0-4d1d-bfa2-e6955a1db3e2', TRUE, 'AI Player 1', '#c3c3c3'),
-     ('6fea23b5-d9c6-4c3d-92cc-8653965c4748', FALSE, 'Human Player 2', '#c2c2c2');
-   */
-  let players = [
-    { id: '08b9a3b4-1fa0-4d1d-bfa2-e6955a1db3e2' },
-    { id: '6fea23b5-d9c6-4c3d-92cc-8653965c4748' },
-  ];
+  // create an AI player and a human player (who adds both to the game)
+  const aiResponse = await axios.post(`${endpoint}/players/`, {
+    "name": "AI Player 1", "color": "#c3c3c3", "ai": true
+  });
+  const humanResponse = await axios.post(`${endpoint}/players/`, {
+    "name": "Human Player 2", "color": "#c2c2c2", "ai": false, "password": "password"
+  });
+  const headers = { "Authorization": `Bearer ${humanResponse.data.token}` };
 
   // added players to game
-  await axios.post(`${endpoint}/games/${gameId}/players`, players[0]);
-  await axios.post(`${endpoint}/games/${gameId}/players`, players[1]);
+  await axios.post(
+    `${endpoint}/games/${gameId}/players`, [aiResponse.data.player.id], { headers }
+  );
+  await axios.post(
+    `${endpoint}/games/${gameId}/players`, [humanResponse.data.player.id], { headers }
+  );
 }
 
 createGameAddPlayers();
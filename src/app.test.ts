@@ -7,6 +7,15 @@ test("not found for site 404", async function () {
   expect(resp.statusCode).toEqual(404);
 });
 
+test("bad request for malformed JSON", async function () {
+  const resp = await request(app)
+    .post("/games")
+    .set("content-type", "application/json")
+    .send("{ not json");
+  expect(resp.statusCode).toEqual(400);
+  expect(resp.body.error.code).toEqual("BAD_REQUEST");
+});
+
 afterAll(function () {
   db.end();
 });
\ No newline at end of file
@@ -1,16 +1,29 @@
 /** Simple demo Express app. */
 import express, { Express, Request, Response, NextFunction } from "express";
-import { ExpressError, NotFoundError, BadRequestError } from "./expressError";
+import { STATUS_CODES } from "http";
+import {
+  ExpressError, NotFoundError, BadRequestError, RequestValidationError
+} from "./expressError";
+import { authenticateToken } from "./middleware/auth";
 
+import { authRouter } from "./routes/auth";
 import { gamesRouter } from "./routes/games";
+import { layoutsRouter } from "./routes/layouts";
+import { leaderboardRouter } from "./routes/leaderboard";
+import { matchmakingRouter } from "./routes/matchmaking";
 import { playersRouter } from "./routes/players";
 
 const app: Express = express();
 app.use(express.json());
+app.use(authenticateToken);
 
 /** ROUTES BELOW */
 
+app.use("/auth", authRouter);
 app.use("/games", gamesRouter);
+app.use("/layouts", layoutsRouter);
+app.use("/leaderboard", leaderboardRouter);
+app.use("/matchmaking", matchmakingRouter);
 app.use("/players", playersRouter);
 
 /** Handle 404 errors -- this matches everything */
@@ -25,10 +38,21 @@ app.use(function (err: ExpressError, req: Request, res: Response, next: NextFunc
   /* istanbul ignore next (ignore for coverage) */
   const status = err.status || 500;
   const message = err.message;
+  // only our own errors have a client-facing code (pg errors have their own);
+  // others (e.g. body-parser's 400 for malformed JSON) get one from their status
+  const code = err instanceof ExpressError ? err.code : _getStatusErrorCode(status);
+  const fields = err instanceof RequestValidationError ? err.fields : undefined;
 
   return res.status(status).json({
-    error: { message, status },
+    error: { message, status, code, fields },
   });
 });
 
+/** Returns the machine-readable code for an HTTP error status like
+ * BAD_REQUEST for 400 (INTERNAL_SERVER_ERROR for an unknown status) */
+function _getStatusErrorCode(status: number): string {
+  const reason = STATUS_CODES[status] ?? STATUS_CODES[500] as string;
+  return reason.toUpperCase().replace(/[^A-Z]+/g, "_");
+}
+
 export default app;
\ No newline at end of file
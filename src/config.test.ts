@@ -0,0 +1,32 @@
+describe("SECRET_KEY", function () {
+  const env = process.env;
+
+  afterEach(function () {
+    process.env = env;
+  });
+
+  /** Loads a fresh copy of the config w/ the specified environment */
+  function loadConfig(overrides: Record<string, string | undefined>) {
+    process.env = { ...env, ...overrides };
+    let config: typeof import("./config") | undefined;
+    jest.isolateModules(function () {
+      config = require("./config");
+    });
+    return config!;
+  }
+
+  test("uses the environment's key", function () {
+    const config = loadConfig({ NODE_ENV: "production", SECRET_KEY: "shh" });
+    expect(config.SECRET_KEY).toEqual("shh");
+  });
+
+  test("falls back to the development key outside production", function () {
+    const config = loadConfig({ NODE_ENV: "development", SECRET_KEY: undefined });
+    expect(config.SECRET_KEY).toEqual("secret-dev");
+  });
+
+  test("throws in production w/o a key", function () {
+    expect(() => loadConfig({ NODE_ENV: "production", SECRET_KEY: undefined }))
+      .toThrow("SECRET_KEY must be set in production.");
+  });
+});
@@ -0,0 +1,53 @@
+"use strict";
+/** Shared config for application; can be imported many places. */
+
+const PORT = Number(process.env.PORT || 3000);
+
+/** Database URL; uses a separate database when running tests */
+function getDatabaseUri(): string {
+  return process.env.NODE_ENV === "test"
+    ? process.env.TEST_DATABASE_URL || "postgresql:///connect_four_test"
+    : process.env.DATABASE_URL || "postgresql:///connect_four";
+}
+
+// maximum number of connections kept in the database pool
+const DB_POOL_SIZE = Number(process.env.DB_POOL_SIZE || 10);
+
+// queries running longer than this are cancelled by the database (0 disables)
+const DB_STATEMENT_TIMEOUT_MS = Number(process.env.DB_STATEMENT_TIMEOUT_MS || 10000);
+
+/** Key which signs player tokens; MUST be set in production, where the
+ * app refuses to start w/ the development key */
+function getSecretKey(): string {
+  if (process.env.SECRET_KEY) return process.env.SECRET_KEY;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SECRET_KEY must be set in production.");
+  }
+  return "secret-dev";
+}
+
+const SECRET_KEY = getSecretKey();
+
+// how long a player token is valid for (in seconds)
+const TOKEN_EXPIRATION_SECONDS = Number(process.env.TOKEN_EXPIRATION_SECONDS || 60 * 60 * 24);
+
+// how often the scheduler checks for timed out turns (in milliseconds)
+const SCHEDULER_INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS || 1000);
+
+// players waiting this long for a match are paired w/ an AI (0 disables)
+const MATCHMAKING_AI_WAIT_SECONDS = Number(process.env.MATCHMAKING_AI_WAIT_SECONDS || 30);
+
+// spectators seen within this many seconds are counted as watching a game
+const SPECTATOR_ACTIVE_SECONDS = Number(process.env.SPECTATOR_ACTIVE_SECONDS || 60);
+
+export {
+  PORT,
+  SECRET_KEY,
+  TOKEN_EXPIRATION_SECONDS,
+  getDatabaseUri,
+  DB_POOL_SIZE,
+  DB_STATEMENT_TIMEOUT_MS,
+  SCHEDULER_INTERVAL_MS,
+  MATCHMAKING_AI_WAIT_SECONDS,
+  SPECTATOR_ACTIVE_SECONDS
+};
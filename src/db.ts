@@ -1,13 +1,166 @@
-import { Client } from "pg";
+import { Pool, PoolClient, QueryResult, QueryResultRow } from "pg";
+import { AsyncLocalStorage } from "async_hooks";
+import { getDatabaseUri, DB_POOL_SIZE, DB_STATEMENT_TIMEOUT_MS } from "./config";
 
-const DB_URI = process.env.NODE_ENV === "test"
-    ? "postgresql:///connect_four_test"
-    : "postgresql:///connect_four";
+const pool = new Pool({
+  connectionString: getDatabaseUri(),
+  max: DB_POOL_SIZE,
+  statement_timeout: DB_STATEMENT_TIMEOUT_MS
+});
 
-let db = new Client({
-  connectionString: DB_URI
+// an idle client losing its connection shouldn't crash the app; the pool
+// discards the client and creates a new one when needed
+pool.on("error", function (err: Error) {
+  console.error("Unexpected error on idle database client:", err.message);
 });
 
-db.connect();
+// a transaction's client and the callbacks waiting for it to commit
+interface TransactionContextInterface {
+  client: PoolClient;
+  afterCommit: (() => void)[];
+}
+
+// the transaction (if any) the current async context is in
+const transactionContext = new AsyncLocalStorage<TransactionContextInterface>();
+
+// when set, every query runs on this client inside an open transaction
+// used by tests so that everything a test does can be rolled back
+let testClient: PoolClient | null = null;
+
+// transactions on the test client are run one at a time (see transaction())
+let testClientQueue: Promise<unknown> = Promise.resolve();
+
+let savepointCounter = 0;
+
+/**
+ * Runs a query; if called from within a transaction, it runs on the
+ * transaction's client, otherwise it runs on any available pooled client
+ * Returns the QueryResult
+ */
+function query<R extends QueryResultRow = any>(
+  text: string,
+  values?: unknown[]
+): Promise<QueryResult<R>> {
+  const client = transactionContext.getStore()?.client ?? testClient ?? pool;
+  return client.query<R>(text, values);
+}
+
+/**
+ * Runs the provided callback inside a transaction
+ * Every db.query() made while the callback runs uses the transaction's client
+ * Commits if the callback resolves and rolls back if it throws
+ * Nested calls run inside a savepoint of the outer transaction
+ * Returns whatever the callback returns
+ */
+async function transaction<T>(callback: () => Promise<T>): Promise<T> {
+  const outerContext = transactionContext.getStore();
+  if (outerContext !== undefined) {
+    return _withSavepoint(outerContext.client, outerContext, callback);
+  }
+
+  if (testClient !== null) {
+    // concurrent savepoints on a single client would interleave, so wait
+    // for any other transaction on the test client to finish first
+    const client = testClient;
+    const result = testClientQueue.then(() => _withSavepoint(client, null, callback));
+    testClientQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  const client = await pool.connect();
+  const context: TransactionContextInterface = { client, afterCommit: [] };
+  let result: T;
+  try {
+    await client.query("BEGIN");
+    result = await transactionContext.run(context, callback);
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  _runAfterCommit(context.afterCommit);
+  return result;
+}
+
+/**
+ * Runs the callback inside a savepoint of the outer transaction
+ * Callbacks registered w/ afterCommit() inside the savepoint are handed to
+ * the outer transaction once released, or run right away if there is no
+ * outer transaction (i.e. on the test client)
+ */
+async function _withSavepoint<T>(
+  client: PoolClient,
+  outerContext: TransactionContextInterface | null,
+  callback: () => Promise<T>
+): Promise<T> {
+  const savepoint = `savepoint_${++savepointCounter}`;
+  const context: TransactionContextInterface = { client, afterCommit: [] };
+  let result: T;
+  await client.query(`SAVEPOINT ${savepoint}`);
+  try {
+    result = await transactionContext.run(context, callback);
+    await client.query(`RELEASE SAVEPOINT ${savepoint}`);
+  } catch (err) {
+    await client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+    throw err;
+  }
+
+  outerContext === null
+    ? _runAfterCommit(context.afterCommit)
+    : outerContext.afterCommit.push(...context.afterCommit);
+  return result;
+}
+
+/**
+ * Runs the callback once the current transaction commits; it is discarded if
+ * the transaction rolls back. Runs it right away when not in a transaction.
+ * Used for side effects (e.g. notifying subscribers) of committed changes.
+ */
+function afterCommit(callback: () => void): void {
+  const context = transactionContext.getStore();
+  context === undefined ? callback() : context.afterCommit.push(callback);
+}
+
+function _runAfterCommit(callbacks: (() => void)[]): void {
+  for (let callback of callbacks) {
+    try {
+      callback();
+    } catch (err) {
+      console.error("Error in after commit callback:", err);
+    }
+  }
+}
+
+/** Begins a transaction which all subsequent queries run in (for tests) */
+async function beginTestTransaction(): Promise<undefined> {
+  testClient = await pool.connect();
+  await testClient.query("BEGIN");
+}
+
+/** Rolls back the transaction started by beginTestTransaction() */
+async function rollbackTestTransaction(): Promise<undefined> {
+  if (testClient === null) return;
+  const client = testClient;
+  testClient = null;
+  await client.query("ROLLBACK");
+  client.release();
+}
+
+/** Closes every pooled connection */
+async function end(): Promise<undefined> {
+  await pool.end();
+}
+
+const db = {
+  query,
+  transaction,
+  afterCommit,
+  beginTestTransaction,
+  rollbackTestTransaction,
+  end
+};
 
-export default db;
\ No newline at end of file
+export default db;
@@ -1,5 +1,5 @@
 /** ExpressError extends normal JS error so we can
- *  add a status when we make an instance of it.
+ *  add a status and a machine-readable code when we make an instance of it.
  *
  *  The error-handling middleware will return this.
  */
@@ -7,11 +7,13 @@
 class ExpressError extends Error {
   message: string;
   status: number;
+  code: string;
 
-  constructor(message: string, status: number) {
+  constructor(message: string, status: number, code: string = "ERROR") {
     super();
     this.message = message;
     this.status = status;
+    this.code = code;
   }
 }
 
@@ -19,7 +21,7 @@ class ExpressError extends Error {
 
 class NotFoundError extends ExpressError {
   constructor(message = "Not Found") {
-    super(message, 404);
+    super(message, 404, "NOT_FOUND");
   }
 }
 
@@ -27,7 +29,7 @@ class NotFoundError extends ExpressError {
 
 class UnauthorizedError extends ExpressError {
   constructor(message = "Unauthorized") {
-    super(message, 401);
+    super(message, 401, "UNAUTHORIZED");
   }
 }
 
@@ -35,7 +37,25 @@ class UnauthorizedError extends ExpressError {
 
 class BadRequestError extends ExpressError {
   constructor(message = "Bad Request") {
-    super(message, 400);
+    super(message, 400, "BAD_REQUEST");
+  }
+}
+
+/** 400 BAD REQUEST error for request data which fails schema validation.
+ *  Lists each offending field along with what is wrong with it.
+ */
+
+interface InvalidFieldInterface {
+  field: string;
+  message: string;
+}
+
+class RequestValidationError extends ExpressError {
+  fields: InvalidFieldInterface[];
+
+  constructor(fields: InvalidFieldInterface[], message = "Invalid request data") {
+    super(message, 400, "INVALID_REQUEST");
+    this.fields = fields;
   }
 }
 
@@ -43,7 +63,7 @@ class BadRequestError extends ExpressError {
 
 class ForbiddenError extends ExpressError {
   constructor(message = "Forbidden") {
-    super(message, 403);
+    super(message, 403, "FORBIDDEN");
   }
 }
 
@@ -52,5 +72,7 @@ export {
   NotFoundError,
   UnauthorizedError,
   BadRequestError,
+  RequestValidationError,
+  InvalidFieldInterface,
   ForbiddenError,
 };
@@ -0,0 +1,72 @@
+"use strict";
+/** Convenience middleware to handle common auth cases in routes. */
+
+import { Request, Response, NextFunction } from "express";
+import { UnauthorizedError, ForbiddenError } from "../expressError";
+import { verifyToken } from "../utilities/tokens";
+
+/** Middleware: Authenticate player.
+ *
+ * If a token was provided via the 'Authorization: Bearer <token>' header,
+ * verify it and, if valid, store the token payload on res.locals
+ * (res.locals.player for players, which includes the playerId field, or
+ * res.locals.spectator for spectators)
+ *
+ * It's not an error if no token was provided or if the token is not valid;
+ * routes requiring a player use ensurePlayer() below.
+ */
+function authenticateToken(req: Request, res: Response, next: NextFunction) {
+  const authHeader = req.headers?.authorization;
+  if (authHeader) {
+    const token = authHeader.replace(/^[Bb]earer /, "").trim();
+    try {
+      const payload = verifyToken(token);
+      if ("role" in payload) {
+        res.locals.spectator = payload;
+      } else {
+        res.locals.player = payload;
+      }
+    } catch (err) {
+      /* ignore invalid tokens (but don't store them!) */
+    }
+  }
+  return next();
+}
+
+/** Middleware: Requires an authenticated player.
+ *
+ * If not, raises UnauthorizedError (or ForbiddenError for spectators).
+ */
+function ensurePlayer(req: Request, res: Response, next: NextFunction) {
+  if (res.locals.spectator) throw new ForbiddenError("Spectators can't take actions.");
+  if (!res.locals.player?.playerId) throw new UnauthorizedError();
+  return next();
+}
+
+/** Middleware: Requires a spectator of the game in the ':id' URL param.
+ *
+ * If not, raises UnauthorizedError (no spectator) or ForbiddenError (other game).
+ */
+function ensureSpectator(req: Request, res: Response, next: NextFunction) {
+  if (!res.locals.spectator?.spectatorId) throw new UnauthorizedError();
+  if (res.locals.spectator.gameId !== req.params.id) throw new ForbiddenError();
+  return next();
+}
+
+/** Middleware: Requires the authenticated player to match the ':id' URL param.
+ *
+ * If not, raises UnauthorizedError (no player) or ForbiddenError (other player).
+ */
+function ensureCorrectPlayer(req: Request, res: Response, next: NextFunction) {
+  if (res.locals.spectator) throw new ForbiddenError("Spectators can't take actions.");
+  if (!res.locals.player?.playerId) throw new UnauthorizedError();
+  if (res.locals.player.playerId !== req.params.id) throw new ForbiddenError();
+  return next();
+}
+
+export {
+  authenticateToken,
+  ensurePlayer,
+  ensureCorrectPlayer,
+  ensureSpectator
+};
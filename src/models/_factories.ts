@@ -6,7 +6,9 @@ import {
   Game,
   GameInterface,
   GameUpdateInterface,
-  BoardDimensionsInterface
+  BoardDimensionsInterface,
+  BoardSettingsInterface,
+  GameSettingsInterface
 } from "./game";
 import { BoardDataType } from "./game";
 
@@ -71,13 +73,14 @@ async function createGameWithBoardData(
 
 /**
  * Factory function for creating a new game which is one play away from being won
- * Accepts a player ID to use as the about-to-win player
+ * Accepts board settings (optionally incl. a win length) and a player ID to
+ * use as the about-to-win player
  * The created game will be won if the provided player ID drops a piece in column 0
  * Also populates: Game.placedPieces, Game.gameState
  * Returns the newly created Game instance
  */
 async function createNearlyWonGame(
-  boardDimensions: BoardDimensionsInterface,
+  boardDimensions: BoardSettingsInterface,
   playerIds: string[],
   winningPlayerId: string
 ): Promise<GameInterface> {
@@ -115,20 +118,21 @@ return game;
 
 /**
  * Factory function for creating a new game which is one play away from being tied
- * Fills all slots with different randomly generated GUIDs
+ * Fills all slots with pieces of the game's players (two by default)
  * The created game will be tied if a piece is dropped in column 0
  * Also populates: Game.placedPieces, Game.gameState
  * Returns the newly created Game instance
  */
 async function createNearlyTiedGame(
   boardDimensions: BoardDimensionsInterface,
-  currPlayerId: string
+  currPlayerId: string,
+  playerCount: number = 2
 ): Promise<GameInterface> {
 
 console.log("createNearlyTiedGame factory function called");
 
-let game = await Game.create(boardDimensions);
-const players = await createPlayers(2);
+let game = await Game.create({ ...boardDimensions, maxPlayers: playerCount });
+const players = await createPlayers(playerCount);
 const playerIds = players.map(p => p.id);
 await Game.addPlayers(game.id, playerIds);
 await Game.start(game.id, false);
@@ -158,6 +162,49 @@ return game;
 
 }
 
+/**
+ * Factory function for creating and starting a game w/ new players
+ * Accepts the game's settings (see Game.create) and the number of players
+ * to add (default 2; maxPlayers defaults to the number of players)
+ * Returns { game, playerIds } w/ the started game and its player IDs in
+ * play order
+ */
+async function createStartedGame(
+  settings: GameSettingsInterface,
+  playerCount: number = 2
+): Promise<{ game: GameInterface, playerIds: string[] }> {
+
+console.log("createStartedGame factory function called");
+
+const game = await Game.create({ maxPlayers: playerCount, ...settings });
+return await startGameWithPlayers(game.id, playerCount);
+
+}
+
+/**
+ * Factory function for starting an existing game w/ new players
+ * Accepts the game's ID and the number of players to add (default 2)
+ * Returns { game, playerIds } w/ the started game and its player IDs in
+ * play order
+ */
+async function startGameWithPlayers(
+  gameId: string,
+  playerCount: number = 2
+): Promise<{ game: GameInterface, playerIds: string[] }> {
+
+console.log("startGameWithPlayers factory function called");
+
+const players = await createPlayers(playerCount);
+await Game.addPlayers(gameId, players.map(p => p.id));
+await Game.start(gameId);
+
+const playerIds = (await Game.getPlayers(gameId))
+  .sort((a, b) => (a.playOrder as number) - (b.playOrder as number))
+  .map(p => p.id);
+
+return { game: await Game.get(gameId), playerIds };
+
+}
 
 /**
  * Factory function for creating one or more random players
@@ -185,5 +232,7 @@ export {
   createGameWithBoardData,
   createPlayers,
   createNearlyWonGame,
-  createNearlyTiedGame
+  createNearlyTiedGame,
+  createStartedGame,
+  startGameWithPlayers
 }
\ No newline at end of file
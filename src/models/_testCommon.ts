@@ -30,6 +30,9 @@ async function commonBeforeAll() {
   // noinspection SqlWithoutWhere
   await db.query("DELETE FROM game_turns");
 
+  // noinspection SqlWithoutWhere
+  await db.query("DELETE FROM board_layouts");
+
   // create test players
   // await db.query(`
   //   INSERT INTO players (id, ai, name, color)
@@ -49,10 +52,11 @@ async function commonBeforeAll() {
   //     ($2, 8, 9)
   // `,[testGameIds[0], testGameIds[1]]);
 
-  const game = await Game.create();
+  // leaves room for the players tests add to it
+  const game = await Game.create({ height: 7, width: 6, maxPlayers: 4 });
 
   for (let player of players) {
-    Game.addPlayers(game.id, [player.id])
+    await Game.addPlayers(game.id, [player.id])
   }
 }
 
@@ -60,11 +64,11 @@ async function commonBeforeAll() {
  * during a test inside a DB transaction */
 
 async function commonBeforeEach() {
-  await db.query("BEGIN");
+  await db.beginTestTransaction();
 }
 
 async function commonAfterEach() {
-  await db.query("ROLLBACK");
+  await db.rollbackTestTransaction();
 }
 
 async function commonAfterAll() {
@@ -0,0 +1,130 @@
+import { AiEngine } from "./aiEngine";
+import { Board, BoardDataType, BoardTopologyType, WALL_PIECE } from "./board";
+
+const aiId = "ai-player";
+const humanId = "human-player";
+
+/** Creates a fresh 6 x 7 board (flat and w/o blocked cells unless specified
+ * otherwise) and places pieces at the provided [y, x] locations */
+function createBoardData(
+  aiPieces: number[][] = [],
+  humanPieces: number[][] = [],
+  topology: BoardTopologyType = "flat",
+  blockedCells: number[][] = []
+): BoardDataType {
+  const boardData = Board.initializeBoardData(
+    { height: 6, width: 7 }, 4, topology, blockedCells
+  );
+  for (let [y, x] of aiPieces) boardData[y][x].playerId = aiId;
+  for (let [y, x] of humanPieces) boardData[y][x].playerId = humanId;
+  return boardData;
+}
+
+describe("collect windows", function () {
+
+  test("returns each window only once", function () {
+    const windows = AiEngine.collectWindows(createBoardData());
+    // a standard 6 x 7 board has 69 ways to connect four
+    expect(windows.length).toEqual(69);
+  });
+
+  test("includes windows which wrap around a cylinder", function () {
+    const windows = AiEngine.collectWindows(createBoardData([], [], "cylinder"));
+    // every column starts a horizontal and both diagonal windows
+    expect(windows.length).toEqual(6 * 7 + 3 * 7 + 2 * 3 * 7);
+    expect(windows).toContainEqual(
+      expect.arrayContaining([[5, 5], [5, 6], [5, 0], [5, 1]])
+    );
+  });
+
+  test("skips windows through blocked cells", function () {
+    const windows = AiEngine.collectWindows(createBoardData([], [], "flat", [[5, 3]]));
+    // 4 horizontal, 1 vertical and 2 diagonal windows include the cell
+    expect(windows.length).toEqual(69 - 7);
+    expect(windows.some(w => w.some(([y, x]) => y === 5 && x === 3))).toBe(false);
+  });
+
+});
+
+describe("score board", function () {
+
+  test("walls count for no one", function () {
+    const boardData = createBoardData();
+    boardData[5][3].playerId = WALL_PIECE;
+    const pieces = Board.toPieceMatrix(boardData);
+    expect(AiEngine.scoreBoard(pieces, AiEngine.collectWindows(boardData), aiId)).toEqual(0);
+  });
+
+});
+
+describe("choose column", function () {
+
+  test("takes an immediate win", function () {
+    const boardData = createBoardData(
+      [[5, 1], [5, 2], [5, 3]],
+      [[4, 1], [4, 2], [4, 3]]
+    );
+    for (let difficulty of ["medium", "hard"] as const) {
+      // either end of the bottom row completes four in a row
+      expect([0, 4]).toContain(AiEngine.chooseColumn(boardData, aiId, humanId, difficulty));
+    }
+  });
+
+  test("takes an immediate win which wraps around a cylinder", function () {
+    const boardData = createBoardData(
+      [[5, 5], [5, 6], [5, 0]],
+      [[4, 5], [4, 6], [4, 0]],
+      "cylinder"
+    );
+    for (let difficulty of ["medium", "hard"] as const) {
+      expect([1, 4]).toContain(AiEngine.chooseColumn(boardData, aiId, humanId, difficulty));
+    }
+  });
+
+  test("blocks an opponent's immediate win", function () {
+    const boardData = createBoardData(
+      [[5, 0], [4, 0]],
+      [[5, 3], [4, 3], [3, 3]]
+    );
+    expect(AiEngine.chooseColumn(boardData, aiId, humanId, "medium")).toEqual(3);
+  });
+
+  test("takes an immediate win resting on blocked cells", function () {
+    const boardData = createBoardData(
+      [[4, 0], [4, 1], [4, 2]],
+      [[5, 5], [5, 6], [4, 6]],
+      "flat",
+      [[5, 0], [5, 1], [5, 2], [5, 3]]
+    );
+    expect(AiEngine.chooseColumn(boardData, aiId, humanId, "medium")).toEqual(3);
+  });
+
+  test("doesn't pick columns closed off by blocked cells", function () {
+    const blockedCells = [0, 1, 2, 3, 4, 5].map(y => [y, 0]);
+    const boardData = createBoardData([], [], "flat", blockedCells);
+    expect(AiEngine.getAvailColumns(Board.toPieceMatrix(boardData)))
+      .toEqual([1, 2, 3, 4, 5, 6]);
+    for (let i = 0; i < 10; i++) {
+      expect(AiEngine.chooseColumn(boardData, aiId, humanId, "random")).not.toEqual(0);
+    }
+  });
+
+  test("random difficulty only picks available columns", function () {
+    const boardData = createBoardData();
+    for (let y = 0; y < boardData.length; y++) {
+      for (let x = 0; x < 6; x++) {
+        boardData[y][x].playerId = (x + Math.floor(y / 2)) % 2 === 0 ? aiId : humanId;
+      }
+    }
+    expect(AiEngine.chooseColumn(boardData, aiId, humanId, "random")).toEqual(6);
+  });
+
+  test("throws error when the board is full", function () {
+    const boardData = createBoardData();
+    for (let row of boardData) {
+      for (let cell of row) cell.playerId = humanId;
+    }
+    expect(() => AiEngine.chooseColumn(boardData, aiId, humanId)).toThrow();
+  });
+
+});
@@ -0,0 +1,284 @@
+import { Board, BoardDataType, WALL_PIECE } from "./board";
+
+/** AI Engine
+ * Chooses columns for AI players using minimax search w/ alpha-beta pruning
+ * Board positions are scored by looking at every open window (a set of
+ * coordinates which could form a win) based on the validCoordSets of each cell
+ * Difficulty levels:
+ * - random: picks any available column
+ * - easy: shallow search which occasionally picks a random column
+ * - medium: moderate search depth
+ * - hard: deep search
+ */
+
+type AiDifficultyType = "random" | "easy" | "medium" | "hard";
+
+const AI_DIFFICULTIES: AiDifficultyType[] = ["random", "easy", "medium", "hard"];
+
+const DEFAULT_AI_DIFFICULTY: AiDifficultyType = "medium";
+
+// a matrix of the playerId (or null) occupying each cell (see
+// Board.toPieceMatrix(); blocked cells are BLOCKED_CELL)
+type PieceMatrixType = (string | null)[][];
+
+type WindowType = number[][];
+
+interface SearchSettingsInterface {
+  depth: number;
+  randomMoveChance: number;
+}
+
+const searchSettings: Record<Exclude<AiDifficultyType, "random">, SearchSettingsInterface> = {
+  easy: { depth: 2, randomMoveChance: 0.3 },
+  medium: { depth: 4, randomMoveChance: 0 },
+  hard: { depth: 6, randomMoveChance: 0 }
+};
+
+// score for a completed window; large enough to dominate any heuristic score
+const WIN_SCORE = 1000000;
+
+interface SearchContextInterface {
+  windows: WindowType[];
+  windowsByCell: Map<string, WindowType[]>;
+  playerId: string;
+  opponentId: string;
+  centerCol: number;
+}
+
+interface SearchResultInterface {
+  score: number;
+  col: number | null;
+}
+
+class AiEngine {
+
+  /**
+   * Chooses a column for the specified player to drop a piece in
+   * Accepts the current board data, the AI player's ID, the ID of the
+   * opponent who moves next and the AI player's difficulty
+   * Returns the index of the column to drop in
+   * Throws an error if there are no columns available
+   */
+  static chooseColumn(
+    boardData: BoardDataType,
+    playerId: string,
+    opponentId: string,
+    difficulty: AiDifficultyType = DEFAULT_AI_DIFFICULTY
+  ): number {
+
+    const pieces: PieceMatrixType = Board.toPieceMatrix(boardData);
+    const availCols = AiEngine.getAvailColumns(pieces);
+
+    if (availCols.length === 0) {
+      throw new Error("No columns available for AI player to drop in.");
+    }
+
+    if (difficulty === "random") return _pickRandom(availCols);
+
+    const settings = searchSettings[difficulty];
+    if (Math.random() < settings.randomMoveChance) return _pickRandom(availCols);
+
+    const windows = AiEngine.collectWindows(boardData);
+    const windowsByCell = new Map<string, WindowType[]>();
+    for (let window of windows) {
+      for (let coords of window) {
+        const key = _cellKey(coords[0], coords[1]);
+        const cellWindows = windowsByCell.get(key);
+        cellWindows === undefined
+          ? windowsByCell.set(key, [window])
+          : cellWindows.push(window);
+      }
+    }
+
+    const context: SearchContextInterface = {
+      windows,
+      windowsByCell,
+      playerId,
+      opponentId,
+      centerCol: Math.floor(pieces[0].length / 2)
+    };
+
+    const result = _minimax(
+      context, pieces, settings.depth, -Infinity, Infinity, true, null
+    );
+
+    console.log(`AiEngine.chooseColumn() scored column ${result.col} at ${result.score}`);
+
+    return result.col === null ? _pickRandom(availCols) : result.col;
+  }
+
+  /** Collects the unique set of windows (valid coordinate sets) on a board
+   * Cells store overlapping sets (e.g. left from one cell is right from
+   * another), so sets are de-duplicated based on their sorted coordinates
+   */
+  static collectWindows(boardData: BoardDataType): WindowType[] {
+    const windows = new Map<string, WindowType>();
+    for (let row of boardData) {
+      for (let cell of row) {
+        for (let coordSet of cell.validCoordSets) {
+          const key = coordSet
+            .map(c => _cellKey(c[0], c[1]))
+            .sort()
+            .join("|");
+          if (!windows.has(key)) windows.set(key, coordSet);
+        }
+      }
+    }
+    return Array.from(windows.values());
+  }
+
+  /** Returns the column indices of a piece matrix which are not full */
+  static getAvailColumns(pieces: PieceMatrixType): number[] {
+    return Board.findAvailColumns(pieces);
+  }
+
+  /** Scores a piece matrix from the perspective of the specified player
+   * Windows containing only the player's pieces (and empty cells) add to the
+   * score, windows containing only opponent pieces subtract from it
+   */
+  static scoreBoard(
+    pieces: PieceMatrixType,
+    windows: WindowType[],
+    playerId: string
+  ): number {
+    let score = 0;
+
+    // favor the center column since it participates in the most windows
+    const centerCol = Math.floor(pieces[0].length / 2);
+    for (let row of pieces) {
+      if (row[centerCol] === playerId) score += 3;
+    }
+
+    for (let window of windows) {
+      let ownCount = 0;
+      let opponentCount = 0;
+      let hasWall = false;
+      for (let coords of window) {
+        const cellPlayerId = pieces[coords[0]][coords[1]];
+        if (cellPlayerId === null) continue;
+        if (cellPlayerId === WALL_PIECE) hasWall = true;
+        cellPlayerId === playerId ? ownCount++ : opponentCount++;
+      }
+
+      // windows that both sides occupy (or w/ a wall) can never be won
+      if (hasWall || (ownCount > 0 && opponentCount > 0)) continue;
+
+      if (ownCount > 0) score += _scoreWindowCount(ownCount, window.length);
+      if (opponentCount > 0) score -= _scoreWindowCount(opponentCount, window.length) * 1.2;
+    }
+
+    return score;
+  }
+}
+
+/**
+ * Minimax search w/ alpha-beta pruning
+ * The maximizing side is the AI player and the minimizing side is the opponent
+ * lastMove is the [y, x] location of the piece placed by the previous ply
+ * Returns the best score found and the column which leads to it
+ */
+function _minimax(
+  context: SearchContextInterface,
+  pieces: PieceMatrixType,
+  depth: number,
+  alpha: number,
+  beta: number,
+  maximizing: boolean,
+  lastMove: number[] | null
+): SearchResultInterface {
+
+  // the previous ply was made by the other side; see if it won the game
+  // wins found sooner are worth more than wins found later (hence + depth)
+  if (lastMove !== null && _isWinningMove(context, pieces, lastMove)) {
+    return { score: maximizing ? -(WIN_SCORE + depth) : WIN_SCORE + depth, col: null };
+  }
+
+  const availCols = _orderColumns(AiEngine.getAvailColumns(pieces), context.centerCol);
+
+  if (availCols.length === 0) return { score: 0, col: null };
+  if (depth === 0) {
+    return {
+      score: AiEngine.scoreBoard(pieces, context.windows, context.playerId),
+      col: null
+    };
+  }
+
+  const moverId = maximizing ? context.playerId : context.opponentId;
+  let bestScore = maximizing ? -Infinity : Infinity;
+  let bestCol: number | null = null;
+
+  for (let col of availCols) {
+    const row = _findEmptyRow(pieces, col);
+    pieces[row][col] = moverId;
+    const { score } = _minimax(
+      context, pieces, depth - 1, alpha, beta, !maximizing, [row, col]
+    );
+    pieces[row][col] = null;
+
+    if (bestCol === null || (maximizing ? score > bestScore : score < bestScore)) {
+      bestScore = score;
+      bestCol = col;
+    }
+
+    if (maximizing) {
+      alpha = Math.max(alpha, bestScore);
+    } else {
+      beta = Math.min(beta, bestScore);
+    }
+    if (alpha >= beta) break;
+  }
+
+  return { score: bestScore, col: bestCol };
+}
+
+/** Checks whether the piece at the specified location completes a window */
+function _isWinningMove(
+  context: SearchContextInterface,
+  pieces: PieceMatrixType,
+  location: number[]
+): boolean {
+  const moverId = pieces[location[0]][location[1]];
+  const cellWindows = context.windowsByCell.get(_cellKey(location[0], location[1]));
+  if (moverId === null || cellWindows === undefined) return false;
+  return cellWindows.some(w => w.every(c => pieces[c[0]][c[1]] === moverId));
+}
+
+/** Scores a window holding count pieces of a single player (and empty cells) */
+function _scoreWindowCount(count: number, windowLength: number): number {
+  if (count >= windowLength) return WIN_SCORE;
+  if (count === windowLength - 1) return 50;
+  if (count === windowLength - 2) return 5;
+  return 1;
+}
+
+/** Finds the row a piece dropped in a column which is known not to be full
+ * settles in */
+function _findEmptyRow(pieces: PieceMatrixType, col: number): number {
+  return Board.findDropRow(pieces, col) as number;
+}
+
+/** Orders columns from the center outwards to improve alpha-beta pruning
+ * Columns equally distant from the center are ordered randomly so that equally
+ * scored moves don't always resolve to the same column
+ */
+function _orderColumns(cols: number[], centerCol: number): number[] {
+  return cols
+    .map(col => ({ col, sortKey: Math.abs(col - centerCol) + Math.random() * 0.5 }))
+    .sort((a, b) => a.sortKey - b.sortKey)
+    .map(c => c.col);
+}
+
+function _pickRandom(values: number[]): number {
+  return values[Math.floor(Math.random() * values.length)];
+}
+
+function _cellKey(y: number, x: number): string {
+  return `${y},${x}`;
+}
+
+export {
+  AiEngine,
+  AiDifficultyType,
+  AI_DIFFICULTIES,
+  DEFAULT_AI_DIFFICULTY
+};
@@ -3,6 +3,7 @@ import { CountResultInterface } from "../utilities/commonInterfaces";
 import { v4 as uuidv4 } from "uuid";
 
 import db from "../db";
+import { BadRequestError } from "../expressError";
 import { PlayerInterface } from "./player";
 import { QueryResult } from "pg";
 
@@ -14,9 +15,12 @@ type CoordinatesType = number[];
 type ValidCoordSetType = CoordinatesType[];
 
 // an initialized board cell has this interface
+// blocked cells (which no piece can occupy) are flagged and have no valid
+// coord sets
 export interface BoardCellFinalStateInterface {
   playerId: string | null;
   validCoordSets: ValidCoordSetType[];
+  blocked?: boolean;
 }
 
 export type BoardDataType = BoardCellFinalStateInterface[][];
@@ -27,6 +31,9 @@ export type BoardInterface = {
   data : BoardCellFinalStateInterface[][];
   width : number;
   height : number;
+  winLength : number;
+  topology : BoardTopologyType;
+  blockedCells : CoordinatesType[];
   availCols : null | number[];
 }
 
@@ -35,18 +42,56 @@ export interface BoardDimensionsInterface {
   width: number;
 }
 
+// the number of pieces in a row needed to win (e.g. 4 for Connect-4)
+export const DEFAULT_WIN_LENGTH = 4;
+export const MIN_WIN_LENGTH = 3;
+export const MAX_WIN_LENGTH = 8;
+
+// how a board's edges connect:
+// - flat: they don't (classic)
+// - cylinder: the left and right edges connect, so lines can wrap around
+//   from the last column to the first
+export type BoardTopologyType = "flat" | "cylinder";
+
+export const DEFAULT_TOPOLOGY: BoardTopologyType = "flat";
+
+// stands in for blocked cells in matrices of pieces (see toPieceMatrix())
+export const BLOCKED_CELL = "blocked";
+
+// the playerId of a wall: a neutral piece which counts for no one (see the
+// powerUps variant in Game)
+export const WALL_PIECE = "wall";
+
+export interface BoardSettingsInterface extends BoardDimensionsInterface {
+  winLength?: number;
+  topology?: BoardTopologyType;
+  blockedCells?: CoordinatesType[];
+}
+
 export class Board {
 
   /**
-   * Creates and initializes a new board with the specified dimensions
+   * Creates and initializes a new board with the specified dimensions and
+   * (optionally) win length
    * If no dimensions are provided, default dimensions are used (7 x 6)
+   * If no win length is provided, the default win length is used (4)
+   * If no topology is provided, the board is flat
+   * If no blocked cells ([y, x] coordinates) are provided, none are blocked
    * Returns the created (and initialized) board (BoardInterface)
+   * Throws BadRequestError if the win length can't fit on the board or the
+   * blocked cells are invalid
    * */
   static async create(
-    dimensions : BoardDimensionsInterface = { height: 7, width: 6 }
+    settings : BoardSettingsInterface = { height: 7, width: 6 }
   ) : Promise<BoardInterface> {
 
-    const boardData = this.initializeBoardData(dimensions);
+    const winLength = settings.winLength ?? DEFAULT_WIN_LENGTH;
+    const topology = settings.topology ?? DEFAULT_TOPOLOGY;
+    const blockedCells = settings.blockedCells ?? [];
+    Board.validateWinLength(settings, winLength);
+    Board.validateBlockedCells(settings, blockedCells);
+
+    const boardData = this.initializeBoardData(settings, winLength, topology, blockedCells);
 
     console.log("attempting to create new board");
 
@@ -54,18 +99,28 @@ export class Board {
                 INSERT INTO boards (
                   data,
                   height,
-                  width
+                  width,
+                  win_length,
+                  topology,
+                  blocked_cells
                 )
                 VALUES (
                   $1,
                   $2,
-                  $3
+                  $3,
+                  $4,
+                  $5,
+                  $6
                 )
                 RETURNING
                   id,
                   data,
                   height,
-                  width`, [boardData, dimensions.height, dimensions.width],
+                  width,
+                  win_length AS "winLength",
+                  topology,
+                  blocked_cells AS "blockedCells"`,
+                [boardData, settings.height, settings.width, winLength, topology, blockedCells],
     );
 
     const board = result.rows[0];
@@ -73,6 +128,51 @@ export class Board {
     return board;
   }
 
+  /**
+   * Validates a win length is within the supported range and that a line
+   * of that length fits on a board of the given dimensions
+   * Throws BadRequestError if not
+   */
+  static validateWinLength(
+    dimensions : BoardDimensionsInterface,
+    winLength : number
+  ) : undefined {
+    if (winLength < MIN_WIN_LENGTH || winLength > MAX_WIN_LENGTH) {
+      throw new BadRequestError(
+        `Win length must be between ${MIN_WIN_LENGTH} and ${MAX_WIN_LENGTH}.`
+      );
+    }
+    if (winLength > Math.max(dimensions.height, dimensions.width)) {
+      throw new BadRequestError(
+        `Win length of ${winLength} does not fit on a ` +
+        `${dimensions.height} x ${dimensions.width} board.`
+      );
+    }
+  }
+
+  /**
+   * Validates blocked cells are [y, x] coordinates on a board of the given
+   * dimensions and that they don't block every cell
+   * Throws BadRequestError if not
+   */
+  static validateBlockedCells(
+    dimensions : BoardDimensionsInterface,
+    blockedCells : CoordinatesType[]
+  ) : undefined {
+    for (let [y, x] of blockedCells) {
+      if (y < 0 || y >= dimensions.height || x < 0 || x >= dimensions.width) {
+        throw new BadRequestError(
+          `Blocked cell [${y}, ${x}] is not on a ` +
+          `${dimensions.height} x ${dimensions.width} board.`
+        );
+      }
+    }
+    const blockedKeys = new Set(blockedCells.map(([y, x]) => `${y},${x}`));
+    if (blockedKeys.size >= dimensions.height * dimensions.width) {
+      throw new BadRequestError("A board must have at least one cell which isn't blocked.");
+    }
+  }
+
   /**
    * Given a board ID, returns the associated board (BoardInterface)
    **/
@@ -82,7 +182,10 @@ export class Board {
           id,
           data,
           width,
-          height
+          height,
+          win_length AS "winLength",
+          topology,
+          blocked_cells AS "blockedCells"
         FROM boards
         WHERE id = $1
     `, [boardId]);
@@ -122,40 +225,69 @@ export class Board {
   static async reset(boardId: string) : Promise<undefined> {
     console.log("Board.reset() called.");
 
-    const result: QueryResult<BoardDimensionsInterface> = await db.query(`
-      SELECT
-        width,
-        height
-      FROM boards
-      WHERE id = $1
-    `,[boardId]);
-
-    const boardDimensions = {
-      height: result.rows[0].height,
-      width: result.rows[0].width
-    };
-
-    const boardData = Board.initializeBoardData(boardDimensions);
-
-    await db.query(`
-      UPDATE boards
-      SET
-        data = $2,
-        height = $3,
-        width = $4
-      WHERE id = $1
-      RETURNING *
-    `,[boardId, boardData, boardDimensions.height, boardDimensions.width]
-    );
+    await db.transaction(async () => {
+      const result: QueryResult<Required<BoardSettingsInterface>> = await db.query(`
+        SELECT
+          width,
+          height,
+          win_length AS "winLength",
+          topology,
+          blocked_cells AS "blockedCells"
+        FROM boards
+        WHERE id = $1
+        FOR UPDATE
+      `,[boardId]);
+
+      const boardDimensions = {
+        height: result.rows[0].height,
+        width: result.rows[0].width
+      };
+
+      const boardData = Board.initializeBoardData(
+        boardDimensions,
+        result.rows[0].winLength,
+        result.rows[0].topology,
+        result.rows[0].blockedCells
+      );
+
+      await db.query(`
+        UPDATE boards
+        SET
+          data = $2,
+          height = $3,
+          width = $4
+        WHERE id = $1
+        RETURNING *
+      `,[boardId, boardData, boardDimensions.height, boardDimensions.width]
+      );
+    });
   }
 
   /** Creates an initialized game board (full of cells in a final state)
-   * Accepts dimensions for the board as a BoardDimensionsInterface
+   * Accepts dimensions for the board as a BoardDimensionsInterface, the
+   * number of pieces in a row needed to win (defaults to 4), the board's
+   * topology (defaults to flat) and the [y, x] coordinates of any blocked
+   * cells (defaults to none)
    * Returns the newly initialized boards as an BoardDataType
    */
-  private static initializeBoardData(dimensions : BoardDimensionsInterface) : BoardDataType {
+  static initializeBoardData(
+    dimensions : BoardDimensionsInterface,
+    winLength : number = DEFAULT_WIN_LENGTH,
+    topology : BoardTopologyType = DEFAULT_TOPOLOGY,
+    blockedCells : CoordinatesType[] = []
+  ) : BoardDataType {
 
     const newBoardState: BoardCellInitialStateType[][] = [];
+    const blockedKeys = new Set(blockedCells.map(([y, x]) => `${y},${x}`));
+
+    // the [y, x] step taken in each direction a valid coord set can run
+    const directions = {
+      up: [-1, 0],
+      upLeft: [-1, -1],
+      upRight: [-1, 1],
+      left: [0, -1],
+      right: [0, 1]
+    };
 
     _initializeMatrix();
     _populateBoardSpaces();
@@ -180,6 +312,10 @@ export class Board {
       for (let y = 0; y < dimensions.height; y++) {
         for (let x = 0; x < dimensions.width; x++) {
           // console.log("attempting to set game board for xy:", y, x);
+          if (_isBlocked(y, x)) {
+            newBoardState[y][x] = { playerId: null, validCoordSets: [], blocked: true };
+            continue;
+          }
           newBoardState[y][x] = {
             playerId: null,
             validCoordSets: _populateValidCoordSets(y, x)
@@ -193,81 +329,114 @@ export class Board {
       function _populateValidCoordSets(y: number, x: number) {
         // console.log("_populateValidCoordSets called with yx:", y, x);
         const vcs: number[][][] = [];
-        let coordSet: number[][] = [];
 
         /**
          * check each direction to see if a valid set of coords exist.
+         * a set is valid if the cell winLength - 1 steps away is on the board;
          * since we can't lookup column values for rows which are undefined,
          * we will check if the row exists before checking anything else
+         * on a cylinder, columns wrap around instead, as long as a set
+         * doesn't need to wrap onto its own columns (board narrower than
+         * the win length)
+         * sets running through a blocked cell are never valid
         */
-
-        // does a row existing 4 rows above?
-        if (newBoardState[y - 3] !== undefined) {
-          // check up and diagonals
-
-          // check up
-          if (newBoardState[y - 3][x] !== undefined) {
-            coordSet = [];
-            coordSet.push([y, x]);
-            coordSet.push([y - 1, x]);
-            coordSet.push([y - 2, x]);
-            coordSet.push([y - 3, x]);
-            vcs.push(coordSet);
-          }
-
-          // check upLeft
-          if (newBoardState[y - 3][x - 3] !== undefined) {
-            coordSet = [];
-            coordSet.push([y, x]);
-            coordSet.push([y - 1, x - 1]);
-            coordSet.push([y - 2, x - 2]);
-            coordSet.push([y - 3, x - 3]);
-            vcs.push(coordSet);
+        for (let [dy, dx] of Object.values(directions)) {
+          const endRow = newBoardState[y + dy * (winLength - 1)];
+          if (endRow === undefined) continue;
+          if (topology === "cylinder") {
+            if (dx !== 0 && winLength > dimensions.width) continue;
+          } else if (endRow[x + dx * (winLength - 1)] === undefined) {
+            continue;
           }
 
-          // check upRight
-          if (newBoardState[y - 3][x + 3] !== undefined) {
-            coordSet = [];
-            coordSet.push([y, x]);
-            coordSet.push([y - 1, x + 1]);
-            coordSet.push([y - 2, x + 2]);
-            coordSet.push([y - 3, x + 3]);
-            vcs.push(coordSet);
+          const coordSet: number[][] = [];
+          for (let step = 0; step < winLength; step++) {
+            coordSet.push([y + dy * step, _wrapColumn(x + dx * step)]);
           }
-        }
-
-        // check left and right
-
-        // check left
-        if (newBoardState[y][x - 3] !== undefined) {
-          coordSet = [];
-          coordSet.push([y, x]);
-          coordSet.push([y, x - 1]);
-          coordSet.push([y, x - 2]);
-          coordSet.push([y, x - 3]);
-          vcs.push(coordSet);
-        }
-
-        // check right
-        if (newBoardState[y][x + 3] !== undefined) {
-          coordSet = [];
-          coordSet.push([y, x]);
-          coordSet.push([y, x + 1]);
-          coordSet.push([y, x + 2]);
-          coordSet.push([y, x + 3]);
+          if (coordSet.some(([cy, cx]) => _isBlocked(cy, cx))) continue;
           vcs.push(coordSet);
         }
 
         // console.log("Valid coord sets populated:", vcs)
         return vcs;
       }
+
+      /** Wraps a column around to the other edge of a cylinder; columns of
+       * flat boards are left as is */
+      function _wrapColumn(x: number) {
+        if (topology === "flat") return x;
+        return (x % dimensions.width + dimensions.width) % dimensions.width;
+      }
+    }
+
+    /** Returns whether the cell at the given coordinates is blocked */
+    function _isBlocked(y: number, x: number) {
+      return blockedKeys.has(`${y},${x}`);
     }
   }
 
+  /** Converts a BoardDataType into a matrix of the playerId (or null)
+   * occupying each cell; blocked cells are BLOCKED_CELL */
+  static toPieceMatrix(boardData : BoardDataType) : (string | null)[][] {
+    return boardData.map(r => r.map(c => c.blocked ? BLOCKED_CELL : c.playerId));
+  }
+
+  /** Finds the row a piece dropped in a column of a piece matrix (see
+   * toPieceMatrix()) settles in: the lowest empty cell before the first
+   * piece or blocked cell below the column's top open cell
+   * Blocked cells at the top of a column are outside the board's shape
+   * Returns the row, or null if the column is full (or entirely blocked)
+   */
+  static findDropRow(pieces : (string | null)[][], col : number) : number | null {
+    let row = 0;
+    while (row < pieces.length && pieces[row][col] === BLOCKED_CELL) row++;
+    if (row === pieces.length || pieces[row][col] !== null) return null;
+
+    while (row + 1 < pieces.length && pieces[row + 1][col] === null) row++;
+    return row;
+  }
+
+  /** Returns the column indices of a piece matrix (see toPieceMatrix())
+   * which pieces can still be dropped in */
+  static findAvailColumns(pieces : (string | null)[][]) : number[] {
+    const availCols: number[] = [];
+    for (let x = 0; x < pieces[0].length; x++) {
+      if (Board.findDropRow(pieces, x) !== null) availCols.push(x);
+    }
+    return availCols;
+  }
+
+  /** Pops the piece out of the bottom row of a column of the provided
+   * BoardDataType (see the PopOut variant), moving the pieces above it down
+   * a row; the column's top cell is left empty
+   * Returns the ID of the player whose piece was popped (null if none)
+   */
+  static popPiece(boardData : BoardDataType, col : number) : string | null {
+    return Board.removePiece(boardData, [boardData.length - 1, col]);
+  }
+
+  /** Removes the piece at the [y, x] location of the provided BoardDataType,
+   * moving the pieces above it in its column down a row; the column's top
+   * cell is left empty
+   * Returns the ID of the player whose piece was removed (null if none)
+   */
+  static removePiece(boardData : BoardDataType, location : number[]) : string | null {
+    const [row, col] = location;
+    const removedPlayerId = boardData[row][col].playerId;
+
+    for (let y = row; y > 0; y--) {
+      boardData[y][col].playerId = boardData[y - 1][col].playerId;
+    }
+    boardData[0][col].playerId = null;
+
+    return removedPlayerId;
+  }
+
   /**
  * Updates the provided BoardDataType to have pieces played by the provided
- * player ID at the bottom row in columns 1, 2, and 3 so that a piece can be
- * placed in column 0 and trigger a win. Should only be provided a fresh board.
+ * player ID at the bottom row in columns 1 through the win length - 1 (e.g.
+ * 1, 2, and 3) so that a piece can be placed in column 0 and trigger a win.
+ * Should only be provided a fresh board.
  */
   static async setBoardDataNearlyWon(
     boardId : string,
@@ -276,17 +445,19 @@ export class Board {
 
     const board = await Board.get(boardId);
     const boardData = board.data;
-    boardData[boardData.length - 1][1].playerId = winningPlayerId;
-    boardData[boardData.length - 1][2].playerId = winningPlayerId;
-    boardData[boardData.length - 1][3].playerId = winningPlayerId;
+    for (let x = 1; x < board.winLength; x++) {
+      boardData[boardData.length - 1][x].playerId = winningPlayerId;
+    }
     await Board.update(boardId, boardData);
   }
 
   /**
    * Updates the provided BoardDataType to have only one empty slot available
-   * to drop a piece at the top of column 0. Uses a random GUID to represent
-   * player IDs associated with every other played piece to avoid a potential
-   * win.
+   * to drop a piece at the top of column 0. Alternates the specified players'
+   * pieces in a pattern which avoids a potential win.
+   * W/ more than two players, each of the two players' pieces in the pattern
+   * is shared between every other player (splitting up pieces can't create
+   * a win)
    */
   static async setBoardDataNearlyTied(
     boardId : string,
@@ -295,22 +466,14 @@ export class Board {
     const board = await Board.get(boardId);
     const boardData = board.data;
 
-    let playerIndex : number;
-    let counter = 0;
     for (let y = 0; y < boardData.length; y++) {
-      playerIndex = 0;
-      if (counter > 1) {
-        playerIndex = 1;
-        if (counter > 3) {
-          playerIndex = 0;
-          counter = 0;
-        }
-      }
-      for (let col of boardData[y]) {
-        playerIndex = playerIndex === 0 ? 1 : 0;
-        col.playerId = playerIds[playerIndex];
+      for (let x = 0; x < boardData[y].length; x++) {
+        // which of the two players in the pattern the piece belongs to
+        const pairIndex = (Math.floor(y / 2) + x + 1) % 2;
+        const shareCount = Math.ceil((playerIds.length - pairIndex) / 2);
+        const playerIndex = pairIndex + 2 * ((x + y) % shareCount);
+        boardData[y][x].playerId = playerIds[playerIndex];
       }
-      counter++;
     }
 
     boardData[0][0].playerId = null;
@@ -318,23 +481,20 @@ export class Board {
   }
 
   /** Retrieves the matrix of playerIds representing played pieces for a given
-   *  board ID in the format (playerId | null)[][] */
+   *  board ID in the format (playerId | null)[][] (blocked cells are
+   *  BLOCKED_CELL) */
   static async getGamePieces(boardId: string) : Promise<(string | null)[][]> {
     const board = await Board.get(boardId);
-    const boardPieces = board.data.map(r => r.map(c => c.playerId));
+    const boardPieces = Board.toPieceMatrix(board.data);
     return boardPieces;
   }
 
-  /** Accepts a BoardDataType and returns an array of the column indices
-   * that are not full (where the top row in each column has a null playerId value)
+  /** Accepts a board ID and returns an array of the column indices that are
+   * not full (where a dropped piece has an empty cell to settle in)
    */
   static async getAvailColumns(boardId: string) : Promise<number[]> {
     const board = await Board.get(boardId);
-    let availCols: number[] = [];
-    for (let i = 0; i < board.data[0].length; i++) {
-      if (board.data[0][i].playerId === null) { availCols.push(i); }
-    }
-    return availCols;
+    return Board.findAvailColumns(Board.toPieceMatrix(board.data));
   }
 }
 
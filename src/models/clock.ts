@@ -0,0 +1,217 @@
+import { QueryResult } from "pg";
+
+import db from "../db";
+
+/** Turn clocks for games
+ * A game can be created w/ a clock which limits how long each turn can take:
+ * - perMove: every turn gets the same number of seconds
+ * - fischer: every player starts w/ a bank of seconds which their turns
+ *   are charged against; each completed move adds an increment to the bank
+ * When the current player runs out of time, the game's timeout action is
+ * applied (see Game.handleTimeout): forfeit or randomMove
+ * Clock times are based on the database's clock
+ */
+
+type ClockType = "perMove" | "fischer";
+
+type TimeoutActionType = "forfeit" | "randomMove";
+
+const CLOCK_TYPES: ClockType[] = ["perMove", "fischer"];
+const TIMEOUT_ACTIONS: TimeoutActionType[] = ["forfeit", "randomMove"];
+const DEFAULT_TIMEOUT_ACTION: TimeoutActionType = "forfeit";
+
+interface ClockSettingsInterface {
+  type: ClockType;
+  seconds: number;
+  incrementSeconds?: number;
+  timeoutAction?: TimeoutActionType;
+}
+
+interface ClockInterface {
+  type: ClockType;
+  seconds: number;
+  incrementSeconds: number;
+  timeoutAction: TimeoutActionType;
+  turnStartedOn: Date | null;
+  turnDeadline: Date | null;
+  timeRemainingMs: Record<string, number> | null;
+}
+
+// the clock columns as selected by Game.get()
+interface ClockColumnsInterface {
+  clockType: ClockType | null;
+  clockSeconds: number | null;
+  clockIncrementSeconds: number;
+  timeoutAction: TimeoutActionType;
+  turnStartedOn: Date | null;
+  timeRemainingMs: Record<string, number | null> | null;
+}
+
+interface ExpiredTurnInterface {
+  gameId: string;
+  playerId: string;
+}
+
+// a turn's deadline: when it started plus the time per move or the
+// current player's remaining bank
+const TURN_DEADLINE_SQL = `
+  games.turn_started_on + CASE games.clock_type
+    WHEN 'perMove' THEN make_interval(secs => games.clock_seconds)
+    ELSE make_interval(secs => game_players.time_remaining_ms / 1000.0)
+  END`;
+
+class Clock {
+
+  /**
+   * Stores the clock settings for a (new) game
+   * Returns undefined
+   */
+  static async create(gameId: string, settings: ClockSettingsInterface): Promise<undefined> {
+    await db.query(`
+        UPDATE games
+        SET clock_type = $1,
+            clock_seconds = $2,
+            clock_increment_seconds = $3,
+            timeout_action = $4
+        WHERE id = $5`, [
+      settings.type,
+      settings.seconds,
+      settings.incrementSeconds ?? 0,
+      settings.timeoutAction ?? DEFAULT_TIMEOUT_ACTION,
+      gameId
+    ]);
+  }
+
+  /**
+   * Resets every player's bank of time for a game w/ a fischer clock
+   * (used when the game starts); does nothing for other games
+   * Returns undefined
+   */
+  static async reset(gameId: string): Promise<undefined> {
+    await db.query(`
+        UPDATE game_players
+        SET time_remaining_ms = games.clock_seconds * 1000
+        FROM games
+        WHERE games.id = game_players.game_id
+          AND games.id = $1
+          AND games.clock_type = 'fischer'`, [gameId]);
+  }
+
+  /**
+   * Starts timing the current turn of a game w/ a clock
+   * Does nothing for games w/o a clock
+   * Returns undefined
+   */
+  static async startTurn(gameId: string): Promise<undefined> {
+    await db.query(`
+        UPDATE games
+        SET turn_started_on = clock_timestamp()
+        WHERE id = $1
+          AND clock_type IS NOT NULL`, [gameId]);
+  }
+
+  /**
+   * Charges the time a player's turn took to their bank and adds the
+   * increment (for games w/ a fischer clock; does nothing for other games)
+   * Returns undefined
+   */
+  static async endTurn(gameId: string, playerId: string): Promise<undefined> {
+    await db.query(`
+        UPDATE game_players
+        SET time_remaining_ms = GREATEST(0,
+              game_players.time_remaining_ms
+              - (extract(epoch FROM clock_timestamp() - games.turn_started_on) * 1000)::int)
+            + games.clock_increment_seconds * 1000
+        FROM games
+        WHERE games.id = game_players.game_id
+          AND games.id = $1
+          AND game_players.player_id = $2
+          AND games.clock_type = 'fischer'
+          AND games.turn_started_on IS NOT NULL`, [gameId, playerId]);
+  }
+
+  /**
+   * Stops timing turns for a game (e.g. once it has ended)
+   * Returns undefined
+   */
+  static async stop(gameId: string): Promise<undefined> {
+    await db.query(`
+        UPDATE games
+        SET turn_started_on = NULL
+        WHERE id = $1`, [gameId]);
+  }
+
+  /**
+   * Finds started games whose current player has run out of time
+   * Optionally limited to a single game
+   * Returns [{ gameId, playerId }, ...] where playerId timed out
+   */
+  static async getExpired(gameId?: string): Promise<ExpiredTurnInterface[]> {
+    const result: QueryResult<ExpiredTurnInterface> = await db.query(`
+        SELECT games.id AS "gameId",
+               games.curr_player_id AS "playerId"
+        FROM games
+        INNER JOIN game_players
+          ON game_players.game_id = games.id
+          AND game_players.player_id = games.curr_player_id
+        WHERE games.game_state = 1
+          AND games.turn_started_on IS NOT NULL
+          AND ($1::uuid IS NULL OR games.id = $1)
+          AND ${TURN_DEADLINE_SQL} <= clock_timestamp()
+        ORDER BY games.turn_started_on`, [gameId ?? null]);
+    return result.rows;
+  }
+
+  /**
+   * Builds a game's clock from its clock columns and current player
+   * Returns the clock like { type, seconds, incrementSeconds, timeoutAction,
+   * turnStartedOn, turnDeadline, timeRemainingMs } or null if it has none
+   * timeRemainingMs (by player ID) is only tracked for fischer clocks and
+   * doesn't include the time the current turn has taken so far
+   */
+  static build(
+    columns: ClockColumnsInterface,
+    currPlayerId: string | null
+  ): ClockInterface | null {
+    if (columns.clockType === null || columns.clockSeconds === null) return null;
+
+    let timeRemainingMs: Record<string, number> | null = null;
+    if (columns.clockType === "fischer" && columns.timeRemainingMs !== null) {
+      timeRemainingMs = {};
+      for (let [playerId, ms] of Object.entries(columns.timeRemainingMs)) {
+        timeRemainingMs[playerId] = ms ?? columns.clockSeconds * 1000;
+      }
+    }
+
+    let turnDeadline: Date | null = null;
+    if (columns.turnStartedOn !== null) {
+      const turnMs = columns.clockType === "perMove"
+        ? columns.clockSeconds * 1000
+        : timeRemainingMs?.[currPlayerId ?? ""] ?? 0;
+      turnDeadline = new Date(new Date(columns.turnStartedOn).getTime() + turnMs);
+    }
+
+    return {
+      type: columns.clockType,
+      seconds: columns.clockSeconds,
+      incrementSeconds: columns.clockIncrementSeconds,
+      timeoutAction: columns.timeoutAction,
+      turnStartedOn: columns.turnStartedOn,
+      turnDeadline,
+      timeRemainingMs
+    };
+  }
+}
+
+export {
+  Clock,
+  ClockType,
+  TimeoutActionType,
+  ClockSettingsInterface,
+  ClockInterface,
+  ClockColumnsInterface,
+  ExpiredTurnInterface,
+  CLOCK_TYPES,
+  TIMEOUT_ACTIONS,
+  DEFAULT_TIMEOUT_ACTION
+};
@@ -0,0 +1,144 @@
+import { FogOfWar } from "./fogOfWar";
+import { Board, BoardDataType, BoardTopologyType } from "./board";
+import { GameInterface } from "./game";
+import { TurnInterface } from "./turns";
+import { GameEventInterface } from "../utilities/gameEvents";
+
+const p1Id = "player-one";
+const p2Id = "player-two";
+
+/** Creates a fresh 6 x 7 board (flat unless specified otherwise) and places
+ * pieces at the provided [y, x] locations */
+function createBoardData(
+  p1Pieces: number[][] = [],
+  p2Pieces: number[][] = [],
+  topology: BoardTopologyType = "flat"
+): BoardDataType {
+  const boardData = Board.initializeBoardData({ height: 6, width: 7 }, 4, topology);
+  for (let [y, x] of p1Pieces) boardData[y][x].playerId = p1Id;
+  for (let [y, x] of p2Pieces) boardData[y][x].playerId = p2Id;
+  return boardData;
+}
+
+/** Creates a started fogOfWar game (only the fields projections use) w/
+ * the provided board and placed pieces */
+function createGame(
+  boardData: BoardDataType,
+  placedPieces: number[][],
+  overrides: Partial<GameInterface> = {}
+): GameInterface {
+  return {
+    id: "fog-game",
+    variant: "fogOfWar",
+    gameState: 1,
+    topology: "flat",
+    boardData,
+    placedPieces,
+    winningSet: null,
+    ...overrides
+  } as GameInterface;
+}
+
+/** Creates a drop turn for a player at a [y, x] location */
+function createTurn(playerId: string, location: number[]): TurnInterface {
+  return {
+    turnId: 1,
+    gameId: "fog-game",
+    playerId,
+    location,
+    moveType: "drop",
+    effect: null,
+    createdOnEpoch: 0
+  };
+}
+
+describe("getVisibleCells", function () {
+
+  test("viewers who aren't playing only see the bottom row", function () {
+    const visible = FogOfWar.getVisibleCells(createBoardData([[5, 0], [4, 0]]), null);
+    expect(visible[5].every(v => v)).toBe(true);
+    expect(visible.slice(0, 5).flat().some(v => v)).toBe(false);
+  });
+
+  test("players also see the cells holding or next to their pieces", function () {
+    const visible = FogOfWar.getVisibleCells(createBoardData([[3, 3]]), p1Id);
+    for (let y = 2; y <= 4; y++) {
+      for (let x = 2; x <= 4; x++) expect(visible[y][x]).toBe(true);
+    }
+    expect(visible[1][3]).toBe(false);
+    expect(visible[3][5]).toBe(false);
+  });
+
+  test("sees around the side edges of cylinders", function () {
+    const boardData = createBoardData([[2, 0]], [], "cylinder");
+    expect(FogOfWar.getVisibleCells(boardData, p1Id, "cylinder")[2][6]).toBe(true);
+    expect(FogOfWar.getVisibleCells(boardData, p1Id, "flat")[2][6]).toBe(false);
+  });
+});
+
+describe("projectGame", function () {
+
+  test("hides opponent pieces the viewer can't see", function () {
+    const boardData = createBoardData([[5, 0]], [[5, 6], [4, 6], [4, 0]]);
+    const game = createGame(boardData, [[5, 0], [5, 6], [4, 0], [4, 6]]);
+
+    const projected = FogOfWar.projectGame(game, p1Id);
+    expect(projected.boardData[5][6].playerId).toEqual(p2Id);
+    expect(projected.boardData[4][0].playerId).toEqual(p2Id);
+    expect(projected.boardData[4][6].playerId).toBeNull();
+    expect(projected.placedPieces).toEqual([[5, 0], [5, 6], [4, 0]]);
+
+    // the stored game is left alone
+    expect(game.boardData[4][6].playerId).toEqual(p2Id);
+  });
+
+  test("shows everything once the game has ended", function () {
+    const boardData = createBoardData([[5, 0]], [[4, 6]]);
+    const game = createGame(boardData, [[5, 0], [4, 6]], { gameState: 2 });
+    expect(FogOfWar.projectGame(game, null)).toBe(game);
+  });
+
+  test("shows everything in other variants", function () {
+    const boardData = createBoardData([[5, 0]], [[4, 6]]);
+    const game = createGame(boardData, [[5, 0], [4, 6]], { variant: "classic" });
+    expect(FogOfWar.projectGame(game, null)).toBe(game);
+  });
+});
+
+describe("projectTurns", function () {
+
+  test("hides the locations of pieces the viewer can't see", function () {
+    const boardData = createBoardData([[5, 0], [4, 0]], [[5, 6], [4, 6]]);
+    const game = createGame(boardData, [[5, 0], [5, 6], [4, 0], [4, 6]]);
+    const turns = [
+      createTurn(p1Id, [5, 0]),
+      createTurn(p2Id, [5, 6]),
+      createTurn(p1Id, [4, 0]),
+      createTurn(p2Id, [4, 6])
+    ];
+
+    expect(FogOfWar.projectTurns(game, turns, p1Id).map(t => t.location))
+      .toEqual([[5, 0], [5, 6], [4, 0], null]);
+    expect(FogOfWar.projectTurns(game, turns, null).map(t => t.location))
+      .toEqual([[5, 0], [5, 6], null, null]);
+  });
+});
+
+describe("projectEvent", function () {
+
+  test("hides where an opponent's hidden piece landed", function () {
+    const boardData = createBoardData([[5, 0]], [[5, 6], [4, 6]]);
+    const game = createGame(boardData, [[5, 0], [5, 6], [4, 6]]);
+    const event: GameEventInterface = {
+      type: "pieceDropped",
+      gameId: game.id,
+      data: { playerId: p2Id, location: [4, 6] },
+      createdOn: new Date()
+    };
+
+    expect(FogOfWar.projectEvent(game, event, p1Id).data)
+      .toEqual({ playerId: p2Id, location: null });
+    expect(FogOfWar.projectEvent(game, event, p2Id).data)
+      .toEqual({ playerId: p2Id, location: [4, 6] });
+  });
+});
@@ -0,0 +1,198 @@
+import { GameEventInterface } from "../utilities/gameEvents";
+import { BoardDataType, BoardTopologyType, DEFAULT_TOPOLOGY } from "./board";
+import { GameInterface, GameReplayInterface } from "./game";
+import { TurnInterface } from "./turns";
+
+/** Fog of war
+ * In fogOfWar games a player only sees their own pieces, plus opponent
+ * pieces in the bottom row or next to (incl. diagonally) one of their own
+ * pieces; viewers who aren't playing only see the bottom row.
+ * Games, turns, replays and events are projected per viewer before they're
+ * sent (the stored game is never changed); cells a viewer can't see look
+ * empty. Once a game ends, everyone sees everything.
+ * NOTE: moves are still checked against the real board, so dropping into a
+ * column which looks open but is full fails w/ InvalidPiecePlacement, and
+ * a piece landing on a hidden piece reveals it. AI players see the whole
+ * board.
+ */
+
+// a turn as seen by a viewer: the location of a hidden piece is null
+interface ProjectedTurnInterface extends Omit<TurnInterface, "location"> {
+  location: number[] | null;
+}
+
+interface ProjectedReplayInterface extends Omit<GameReplayInterface, "lastTurn"> {
+  lastTurn: ProjectedTurnInterface | null;
+}
+
+class FogOfWar {
+
+  /** Whether a game's pieces are hidden from its viewers: fogOfWar games
+   * which haven't ended */
+  static isActive(game: Pick<GameInterface, "variant" | "gameState">): boolean {
+    return game.variant === "fogOfWar" && game.gameState <= 1;
+  }
+
+  /**
+   * Determines which cells of a board a viewer (player ID, or null for a
+   * viewer who isn't playing) can see: the bottom row and, for players, the
+   * cells holding or next to their pieces (wrapping around on cylinders)
+   * Returns a matrix of booleans w/ the board's dimensions
+   */
+  static getVisibleCells(
+    boardData: BoardDataType,
+    viewerId: string | null,
+    topology: BoardTopologyType = DEFAULT_TOPOLOGY
+  ): boolean[][] {
+    const height = boardData.length;
+    const visible = boardData.map((row, y) => row.map(() => y === height - 1));
+    if (viewerId === null) return visible;
+
+    for (let y = 0; y < height; y++) {
+      const width = boardData[y].length;
+      for (let x = 0; x < width; x++) {
+        if (boardData[y][x].playerId !== viewerId) continue;
+
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nearY = y + dy;
+            const nearX = topology === "cylinder" ? (x + dx + width) % width : x + dx;
+            if (nearY >= 0 && nearY < height && nearX >= 0 && nearX < width) {
+              visible[nearY][nearX] = true;
+            }
+          }
+        }
+      }
+    }
+
+    return visible;
+  }
+
+  /**
+   * Projects a game for a viewer (player ID or null)
+   * Returns a copy of the game whose boardData, placedPieces and winningSet
+   * only include what the viewer can see; returns the game as is unless
+   * its pieces are hidden
+   */
+  static projectGame(game: GameInterface, viewerId: string | null): GameInterface {
+    if (!FogOfWar.isActive(game)) return game;
+
+    const visible = FogOfWar.getVisibleCells(game.boardData, viewerId, game.topology);
+    return {
+      ...game,
+      boardData: _hideCells(game.boardData, visible),
+      placedPieces: game.placedPieces === null
+        ? null
+        : _filterVisible(game.placedPieces, visible),
+      winningSet: game.winningSet === null
+        ? null
+        : _filterVisible(game.winningSet, visible)
+    };
+  }
+
+  /**
+   * Projects a game's turns for a viewer (player ID or null); the location
+   * of a turn is null unless it's the viewer's or its piece is visible
+   * Returns the turns as is unless the game's pieces are hidden
+   */
+  static projectTurns(
+    game: GameInterface,
+    turns: TurnInterface[],
+    viewerId: string | null
+  ): ProjectedTurnInterface[] {
+    if (!FogOfWar.isActive(game)) return turns;
+
+    const visible = FogOfWar.getVisibleCells(game.boardData, viewerId, game.topology);
+    return turns.map(turn => _projectTurn(turn, visible, viewerId));
+  }
+
+  /**
+   * Projects a replay of a game for a viewer (player ID or null) based on
+   * what they could see at that point in the game
+   * Returns the replay as is unless the game's pieces are hidden
+   */
+  static projectReplay(
+    game: GameInterface,
+    replay: GameReplayInterface,
+    viewerId: string | null
+  ): ProjectedReplayInterface {
+    if (!FogOfWar.isActive(game)) return replay;
+
+    const visible = FogOfWar.getVisibleCells(replay.boardData, viewerId, game.topology);
+    return {
+      ...replay,
+      boardData: _hideCells(replay.boardData, visible),
+      placedPieces: _filterVisible(replay.placedPieces, visible),
+      winningSet: replay.winningSet === null
+        ? null
+        : _filterVisible(replay.winningSet, visible),
+      lastTurn: replay.lastTurn === null
+        ? null
+        : _projectTurn(replay.lastTurn, visible, viewerId)
+    };
+  }
+
+  /**
+   * Projects a game event for a viewer (player ID or null) against the
+   * game's current board: the location of someone else's move is null
+   * unless it's visible, and removed locations and winning sets only
+   * include visible cells
+   * Returns the event as is unless the game's pieces are hidden
+   */
+  static projectEvent(
+    game: GameInterface,
+    event: GameEventInterface,
+    viewerId: string | null
+  ): GameEventInterface {
+    if (!FogOfWar.isActive(game)) return event;
+
+    const visible = FogOfWar.getVisibleCells(game.boardData, viewerId, game.topology);
+    const data = { ...event.data };
+    const isViewers = viewerId !== null &&
+      (data.playerId === viewerId || data.requestedBy === viewerId);
+
+    if (!isViewers && Array.isArray(data.location)) {
+      const [y, x] = data.location as number[];
+      if (!visible[y]?.[x]) data.location = null;
+    }
+    if (!isViewers && Array.isArray(data.removedLocations)) {
+      data.removedLocations = _filterVisible(data.removedLocations as number[][], visible);
+    }
+    if (Array.isArray(data.winningSet)) {
+      data.winningSet = _filterVisible(data.winningSet as number[][], visible);
+    }
+
+    return { ...event, data };
+  }
+}
+
+/** Returns a copy of a board where the pieces in hidden cells are removed */
+function _hideCells(boardData: BoardDataType, visible: boolean[][]): BoardDataType {
+  return boardData.map((row, y) => row.map((cell, x) => (
+    visible[y][x] ? cell : { ...cell, playerId: null }
+  )));
+}
+
+/** Returns the [y, x] coordinates which are visible */
+function _filterVisible(coords: number[][], visible: boolean[][]): number[][] {
+  return coords.filter(([y, x]) => visible[y]?.[x] === true);
+}
+
+/** Returns a copy of a turn w/o its location unless it's the viewer's or
+ * its location is visible */
+function _projectTurn(
+  turn: TurnInterface,
+  visible: boolean[][],
+  viewerId: string | null
+): ProjectedTurnInterface {
+  if (viewerId !== null && turn.playerId === viewerId) return turn;
+
+  const [y, x] = turn.location;
+  return { ...turn, location: visible[y]?.[x] === true ? turn.location : null };
+}
+
+export {
+  FogOfWar,
+  ProjectedTurnInterface,
+  ProjectedReplayInterface
+};
@@ -1,22 +1,36 @@
 import db from "../db";
-import { BadRequestError, NotFoundError } from "../expressError";
+import { BadRequestError, ForbiddenError, NotFoundError } from "../expressError";
 import {
   Game,
   GameInterface,
+  GameSettingsInterface,
   BoardDimensionsInterface
 } from "./game";
+import { Clock } from "./clock";
 import {
   Player,
   NewPlayerInterface,
   PlayerInterface
 } from "./player";
-import { createNearlyWonGame, createNearlyTiedGame, createPlayers } from "./_factories";
-import { Board, BoardDataType } from "./board";
 import {
-  TooFewPlayers, PlayerAlreadyExists,
-  InvalidGameState, InvalidPiecePlacement, NotCurrentPlayer
+  createNearlyWonGame,
+  createNearlyTiedGame,
+  createPlayers,
+  createStartedGame,
+  startGameWithPlayers
+} from "./_factories";
+import { Board, BoardDataType, WALL_PIECE } from "./board";
+import { Layout } from "./layout";
+import { Turn } from "./turns";
+import { Invitation } from "./invitation";
+import {
+  TooFewPlayers, PlayerAlreadyExists, InvalidGameState,
+  InvalidPiecePlacement, NotCurrentPlayer, MoveConflict, UndoNotAllowed,
+  DrawNotAllowed, GameFull, PowerUpUnavailable
 } from "../utilities/gameErrors";
 import { QueryResult } from "pg";
+import { GameEvents, GameEventInterface } from "../utilities/gameEvents";
+import { encodeCursor } from "../utilities/pagination";
 
 import {
   commonBeforeAll,
@@ -60,19 +74,197 @@ describe("create a new game", function () {
   });
 });
 
+describe("create a game with a win length", function () {
+
+  test("creates valid coord sets of the win length", async function () {
+    const game = await Game.create({ height: 3, width: 3, winLength: 3 });
+    expect(game.winLength).toEqual(3);
+    // the bottom left cell can win upward, up and to the right, and to the right
+    expect(game.boardData[2][0].validCoordSets).toEqual([
+      [[2, 0], [1, 0], [0, 0]],
+      [[2, 0], [1, 1], [0, 2]],
+      [[2, 0], [2, 1], [2, 2]]
+    ]);
+  });
+
+  test("defaults to four in a row", async function () {
+    const game = await Game.create(boardDimensions);
+    expect(game.winLength).toEqual(4);
+  });
+
+  test("throws error if the win length doesn't fit on the board", async function () {
+    try {
+      await Game.create({ height: 4, width: 5, winLength: 6 });
+      throw new Error("fail test, you shouldn't get here");
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(BadRequestError);
+    }
+  });
+
+  test("detects a win of the win length", async function () {
+    const players = await createPlayers(2);
+    const playerIds = [players[0].id, players[1].id];
+    let game = await createNearlyWonGame(
+      { height: 6, width: 6, winLength: 5 }, playerIds, playerIds[0]
+    );
+
+    game = await Game.dropPiece(game.id, playerIds[0], 0);
+    expect(game.gameState).toBe(2);
+    expect(game.winningSet?.length).toBe(5);
+  });
+
+});
+
 describe("get all games", function () {
 
   test("returns default games", async function () {
-    const existingGames = await Game.getAll();
+    const existingGames = (await Game.getAll()).games;
     expect(existingGames.length).toEqual(1);
   });
 
   test("returns all games including newly created ones", async function () {
     await Game.create(boardDimensions);
     await Game.create(boardDimensions);
-    const existingGames = await Game.getAll();
+    const existingGames = (await Game.getAll()).games;
     expect(existingGames.length).toEqual(3);
   });
+
+  test("filters by player, state and board size", async function () {
+    const { game, playerIds } = await createStartedGame({ height: 7, width: 8 });
+    await Game.create({ height: 7, width: 8 });
+
+    const byPlayer = await Game.getAll({ playerId: playerIds[0] });
+    expect(byPlayer.games.map(g => g.id)).toEqual([game.id]);
+    expect(byPlayer.games[0].totalPlayers).toEqual(2);
+
+    const byState = await Game.getAll({ gameState: 1 });
+    expect(byState.games.map(g => g.id)).toEqual([game.id]);
+
+    const bySize = await Game.getAll({ height: 7, width: 8 });
+    expect(bySize.games.length).toEqual(2);
+    expect(bySize.games[0]).toEqual(expect.objectContaining({
+      boardHeight: 7,
+      boardWidth: 8
+    }));
+  });
+
+  test("filters by created on date range", async function () {
+    const game = await Game.create(boardDimensions);
+    await db.query(`
+        UPDATE games
+        SET created_on = '2020-01-15T12:00:00Z'
+        WHERE id = $1`, [game.id]);
+
+    const inRange = await Game.getAll({
+      createdAfter: "2020-01-01",
+      createdBefore: "2020-02-01"
+    });
+    expect(inRange.games.map(g => g.id)).toEqual([game.id]);
+
+    const after = await Game.getAll({ createdAfter: "2020-02-01" });
+    expect(after.games.map(g => g.id)).not.toContain(game.id);
+  });
+
+  test("pages through games with a cursor", async function () {
+    await Game.create(boardDimensions);
+    await Game.create(boardDimensions);
+    const allGames = (await Game.getAll()).games;
+
+    const firstPage = await Game.getAll({ limit: 2 });
+    expect(firstPage.games).toEqual(allGames.slice(0, 2));
+    expect(firstPage.nextCursor).not.toBeNull();
+
+    const lastPage = await Game.getAll({
+      limit: 2,
+      cursor: firstPage.nextCursor as string
+    });
+    expect(lastPage.games).toEqual(allGames.slice(2));
+    expect(lastPage.nextCursor).toBeNull();
+  });
+
+  test("sorts games in descending order", async function () {
+    await Game.create(boardDimensions);
+    const ascending = (await Game.getAll()).games;
+    const descending = (await Game.getAll({ order: "desc" })).games;
+    expect(descending).toEqual([...ascending].reverse());
+  });
+
+  test("throws BadRequestError for an invalid cursor", async function () {
+    await expect(Game.getAll({ cursor: "not-a-cursor" }))
+      .rejects.toThrow(BadRequestError);
+  });
+
+  test("throws BadRequestError for a cursor which doesn't match the sort", async function () {
+    const nonUuidCursor = encodeCursor({ value: "2024-01-31 12:00:00+00", id: "1" });
+    await expect(Game.getAll({ cursor: nonUuidCursor }))
+      .rejects.toThrow(BadRequestError);
+
+    const textCursor = encodeCursor({ value: "started", id: randomUUID() });
+    await expect(Game.getAll({ sortBy: "gameState", cursor: textCursor }))
+      .rejects.toThrow(BadRequestError);
+
+    const badDateCursor = encodeCursor({ value: "2024-02-31 12:00:00+00", id: randomUUID() });
+    await expect(Game.getAll({ cursor: badDateCursor }))
+      .rejects.toThrow(BadRequestError);
+  });
+});
+
+describe("private games", function () {
+
+  test("gets a join code which players can join with", async function () {
+    const players = await createPlayers(2);
+    const game = await Game.create({ ...boardDimensions, isPrivate: true }, players[0].id);
+    expect(game.ownerId).toEqual(players[0].id);
+    expect(game.isPrivate).toEqual(true);
+
+    const joinCode = await Game.getJoinCode(game.id) as string;
+    expect(joinCode).toMatch(/^[A-Z2-9]{6}$/);
+
+    const result = await Game.joinWithCode(joinCode, players[1].id);
+    expect(result).toEqual({ gameId: game.id, playerCount: 1 });
+    await expect(Game.joinWithCode(joinCode, players[1].id))
+      .rejects.toThrow(PlayerAlreadyExists);
+  });
+
+  test("public games have no join code", async function () {
+    const game = await Game.create(boardDimensions);
+    expect(game.isPrivate).toEqual(false);
+    expect(await Game.getJoinCode(game.id)).toBeNull();
+  });
+
+  test("throws NotFoundError for an unknown join code", async function () {
+    const players = await createPlayers(1);
+    await expect(Game.joinWithCode("NOCODE", players[0].id)).rejects.toThrow(NotFoundError);
+  });
+
+  test("only lists private games to their owner and players", async function () {
+    const players = await createPlayers(2);
+    const game = await Game.create({ ...boardDimensions, isPrivate: true }, players[0].id);
+
+    const publicIds = (await Game.getAll({ visibleTo: null })).games.map(g => g.id);
+    expect(publicIds).not.toContain(game.id);
+    const otherIds = (await Game.getAll({ visibleTo: players[1].id })).games.map(g => g.id);
+    expect(otherIds).not.toContain(game.id);
+    const ownerIds = (await Game.getAll({ visibleTo: players[0].id })).games.map(g => g.id);
+    expect(ownerIds).toContain(game.id);
+  });
+
+  test("only private games' owner, players and invitees can see them", async function () {
+    const [owner, player, invitee, other] = await createPlayers(4);
+    const game = await Game.create({ ...boardDimensions, isPrivate: true }, owner.id);
+    await Game.addPlayers(game.id, [player.id]);
+    await Invitation.create(game.id, invitee.id, owner.id);
+
+    for (let viewer of [owner, player, invitee]) {
+      expect(await Game.isVisibleTo(game.id, viewer.id)).toEqual(true);
+    }
+    expect(await Game.isVisibleTo(game.id, other.id)).toEqual(false);
+    expect(await Game.isVisibleTo(game.id, null)).toEqual(false);
+
+    const publicGame = await Game.create(boardDimensions);
+    expect(await Game.isVisibleTo(publicGame.id, null)).toEqual(true);
+    await expect(Game.isVisibleTo(randomUUID(), null)).rejects.toThrow(NotFoundError);
+  });
 });
 
 describe("get game details", function () {
@@ -87,10 +279,10 @@ describe("get game details", function () {
 describe("delete game", function () {
 
   test("deletes default game", async function () {
-    let existingGames = await Game.getAll();
+    let existingGames = (await Game.getAll()).games;
     const gameToDeleteId = existingGames[0].id;
     Game.delete(gameToDeleteId);
-    existingGames = await Game.getAll();
+    existingGames = (await Game.getAll()).games;
     expect(existingGames.length).toEqual(0);
   });
 
@@ -101,7 +293,7 @@ describe("add player to game", function () {
   test("successfully adds a player", async function () {
 
     const players = await createPlayers(1);
-    const existingGames = await Game.getAll();
+    const existingGames = (await Game.getAll()).games;
     const existingPlayerCount = existingGames[0].totalPlayers;
 
     // confirm addPlayers() returns expected count
@@ -116,7 +308,7 @@ describe("add player to game", function () {
   test("throws exception adding existing player", async function () {
 
     const players = await createPlayers(1);
-    const existingGames = await Game.getAll();
+    const existingGames = (await Game.getAll()).games;
 
     await Game.addPlayers(existingGames[0].id, [players[0].id]);
 
@@ -134,7 +326,7 @@ describe("remove player from game", function () {
   test("successfully remove a player", async function () {
 
     const players = await createPlayers(1);
-    const existingGames = await Game.getAll();
+    const existingGames = (await Game.getAll()).games;
     const existingPlayerCount = existingGames[0].totalPlayers;
 
     let playerCount = await Game.addPlayers(existingGames[0].id, [players[0].id]);
@@ -147,7 +339,7 @@ describe("remove player from game", function () {
 
   test("throws exception removing non-existing player", async function () {
 
-    const existingGames = await Game.getAll();
+    const existingGames = (await Game.getAll()).games;
 
     try {
       await Game.removePlayer(randomUUID(), existingGames[0].id);
@@ -163,7 +355,7 @@ describe("get list of players in game", function () {
   test("successfully get list of players", async function () {
 
     const players = await createPlayers(2);
-    const existingGames = await Game.getAll();
+    const existingGames = (await Game.getAll()).games;
     const existingPlayerCount = existingGames[0].totalPlayers;
 
     await Game.addPlayers(existingGames[0].id, [players[0].id]);
@@ -181,7 +373,7 @@ describe("start a game", function () {
   test("successfully updates game state", async function () {
 
     const players = await createPlayers(2);
-    const existingGames = await Game.getAll();
+    const existingGames = (await Game.getAll()).games;
     const gameToStart = existingGames[0];
 
     expect(gameToStart.gameState).toEqual(0);
@@ -207,7 +399,7 @@ describe("start a game", function () {
   test("throws error if too few players", async function () {
 
     const players = await createPlayers(1);
-    const existingGames = await Game.getAll();
+    const existingGames = (await Game.getAll()).games;
     const gameToStart = existingGames[0];
 
     expect(gameToStart.gameState).toEqual(0);
@@ -224,7 +416,7 @@ describe("start a game", function () {
   test("does not call nextTurn() when instructed not to", async function () {
 
     const players = await createPlayers(2);
-    const existingGames = await Game.getAll();
+    const existingGames = (await Game.getAll()).games;
     const gameToStart = existingGames[0];
 
     expect(gameToStart.gameState).toEqual(0);
@@ -240,7 +432,7 @@ describe("start a game", function () {
   test("calls nextTurn() by default", async function () {
 
     const players = await createPlayers(2);
-    const existingGames = await Game.getAll();
+    const existingGames = (await Game.getAll()).games;
     const gameToStart = existingGames[0];
 
     expect(gameToStart.gameState).toEqual(0);
@@ -262,8 +454,8 @@ describe("drops piece", function () {
 
     // setup a game and start it
     const players = await createPlayers(2);
-    const games = await Game.getAll();
-    let game = games[0];
+    const games = (await Game.getAll()).games;
+    let game = await Game.get(games[0].id);
 
     await Game.addPlayers(game.id, [players[0].id]);
     await Game.addPlayers(game.id, [players[1].id]);
@@ -285,6 +477,34 @@ describe("drops piece", function () {
     expect(placedPieces[0]).toEqual([gameBoard.length - 1, 0]);
   });
 
+  test("serializes concurrent drops and rejects the later one", async function () {
+
+    const players = await createPlayers(2);
+    const games = (await Game.getAll()).games;
+    let game = await Game.get(games[0].id);
+
+    await Game.addPlayers(game.id, [players[0].id]);
+    await Game.addPlayers(game.id, [players[1].id]);
+    await Game.start(game.id);
+
+    game = await Game.get(game.id);
+    const currPlayerId = game.currPlayerId as string;
+
+    const results = await Promise.all([
+      Game.dropPiece(game.id, currPlayerId, 0).catch(err => err),
+      Game.dropPiece(game.id, currPlayerId, 1).catch(err => err)
+    ]);
+
+    const errors = results.filter(r => r instanceof Error);
+    expect(errors.length).toEqual(1);
+    expect(errors[0]).toBeInstanceOf(MoveConflict);
+
+    // only the winning move was recorded
+    game = await Game.get(game.id);
+    expect(game.placedPieces?.length).toEqual(1);
+    expect((await Game.getTurns(game.id)).length).toEqual(1);
+  });
+
   test("successfully detects a won game", async function () {
     const players = await createPlayers(2);
     const playerIds = [
@@ -320,8 +540,8 @@ describe("game turns retrieval", function () {
 
   test("successfully returns no turns when none have transpired", async function () {
 
-    const games = await Game.getAll();
-    let game = games[0];
+    const games = (await Game.getAll()).games;
+    let game = await Game.get(games[0].id);
     expect(await Game.getTurns(game.id)).toEqual([]);
   });
 
@@ -329,8 +549,8 @@ describe("game turns retrieval", function () {
 
     // setup a game, start it and take a turn
     const players = await createPlayers(2);
-    const games = await Game.getAll();
-    let game = games[0];
+    const games = (await Game.getAll()).games;
+    let game = await Game.get(games[0].id);
 
     await Game.addPlayers(game.id, [players[0].id]);
     await Game.addPlayers(game.id, [players[1].id]);
@@ -345,4 +565,1086 @@ describe("game turns retrieval", function () {
     expect(gameTurns.length).toBe(1);
   });
 
-});
\ No newline at end of file
+});
+
+describe("game replay", function () {
+
+  test("rebuilds the board after a given turn", async function () {
+
+    const games = (await Game.getAll()).games;
+    const { game, playerIds: [firstPlayerId, secondPlayerId] } =
+      await startGameWithPlayers(games[0].id);
+
+    await Game.dropPiece(game.id, firstPlayerId, 0);
+    await Game.dropPiece(game.id, secondPlayerId, 0);
+
+    const bottomRow = game.boardHeight - 1;
+
+    const replay = await Game.replay(game.id, 1);
+    expect(replay.turnNumber).toEqual(1);
+    expect(replay.totalTurns).toEqual(2);
+    expect(replay.boardData[bottomRow][0].playerId).toEqual(firstPlayerId);
+    expect(replay.boardData[bottomRow - 1][0].playerId).toBeNull();
+    expect(replay.lastTurn?.playerId).toEqual(firstPlayerId);
+
+    const emptyReplay = await Game.replay(game.id, 0);
+    expect(emptyReplay.placedPieces).toEqual([]);
+    expect(emptyReplay.lastTurn).toBeNull();
+  });
+
+  test("replays a won game through its winning turn", async function () {
+    const players = await createPlayers(2);
+    const playerIds = [players[0].id, players[1].id];
+    let game = await createNearlyWonGame(boardDimensions, playerIds, playerIds[0]);
+
+    // the nearly won board is set up without turns, so seed them
+    const bottomRow = boardDimensions.height - 1;
+    for (let x = 1; x <= 3; x++) {
+      await Turn.create(game.id, playerIds[0], [bottomRow, x]);
+    }
+    await Game.dropPiece(game.id, playerIds[0], 0);
+
+    const replay = await Game.replay(game.id);
+    expect(replay.gameState).toEqual(2);
+    expect(replay.winningSet).not.toBeNull();
+  });
+
+  test("throws error for a turn past the end of the game", async function () {
+    const games = (await Game.getAll()).games;
+    try {
+      await Game.replay(games[0].id, 1);
+      throw new Error("fail test, you shouldn't get here");
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(BadRequestError);
+    }
+  });
+
+});
+
+describe("undo last move", function () {
+
+  /** Starts a new game with two new players and makes two moves
+   * Returns the game and the IDs of the first and second player to move
+   */
+  async function createGameWithTwoMoves() {
+    const { game, playerIds: [firstPlayerId, secondPlayerId] } =
+      await createStartedGame(boardDimensions);
+    await Game.dropPiece(game.id, firstPlayerId, 0);
+    await Game.dropPiece(game.id, secondPlayerId, 1);
+
+    return { game, firstPlayerId, secondPlayerId };
+  }
+
+  test("rolls back to the requesting player's last move once accepted", async function () {
+    const { game, firstPlayerId, secondPlayerId } = await createGameWithTwoMoves();
+
+    let updatedGame = await Game.requestUndo(game.id, firstPlayerId);
+    expect(updatedGame.undoRequestedBy).toEqual(firstPlayerId);
+    expect(updatedGame.placedPieces?.length).toEqual(2);
+
+    updatedGame = await Game.respondToUndo(game.id, secondPlayerId, true);
+    expect(updatedGame.undoRequestedBy).toBeNull();
+    expect(updatedGame.placedPieces).toBeNull();
+    expect(updatedGame.currPlayerId).toEqual(firstPlayerId);
+    expect(updatedGame.boardData.flat().every(c => c.playerId === null)).toBe(true);
+    expect(await Game.getTurns(game.id)).toEqual([]);
+  });
+
+  test("leaves the game unchanged once declined", async function () {
+    const { game, firstPlayerId, secondPlayerId } = await createGameWithTwoMoves();
+
+    await Game.requestUndo(game.id, secondPlayerId);
+    const updatedGame = await Game.respondToUndo(game.id, firstPlayerId, false);
+    expect(updatedGame.undoRequestedBy).toBeNull();
+    expect(updatedGame.placedPieces?.length).toEqual(2);
+    expect(updatedGame.currPlayerId).toEqual(firstPlayerId);
+  });
+
+  test("throws error responding to your own request", async function () {
+    const { game, firstPlayerId } = await createGameWithTwoMoves();
+
+    await Game.requestUndo(game.id, firstPlayerId);
+    try {
+      await Game.respondToUndo(game.id, firstPlayerId, true);
+      throw new Error("fail test, you shouldn't get here");
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(ForbiddenError);
+    }
+  });
+
+  test("throws error when no undo is pending", async function () {
+    const { game, secondPlayerId } = await createGameWithTwoMoves();
+
+    try {
+      await Game.respondToUndo(game.id, secondPlayerId, true);
+      throw new Error("fail test, you shouldn't get here");
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(UndoNotAllowed);
+    }
+  });
+
+  test("applies right away and skips AI moves against an AI opponent", async function () {
+    const humans = await createPlayers(1);
+    const ai = await Player.create({ name: "AI", color: "#000000", ai: true });
+    let game = await Game.create(boardDimensions);
+
+    await Game.addPlayers(game.id, [humans[0].id, ai.id]);
+    await Game.start(game.id);
+
+    // the AI moves right after the human (and first, if it goes first)
+    await Game.dropPiece(game.id, humans[0].id, 0);
+    game = await Game.get(game.id);
+    const piecesBeforeHumanMove = (game.placedPieces?.length as number) - 2;
+
+    game = await Game.requestUndo(game.id, humans[0].id);
+    expect(game.undoRequestedBy).toBeNull();
+    expect(game.currPlayerId).toEqual(humans[0].id);
+    expect(game.placedPieces?.length ?? 0).toEqual(piecesBeforeHumanMove);
+    expect(await Game.getTurns(game.id, humans[0].id)).toEqual([]);
+  });
+
+});
+
+describe("turn clocks", function () {
+
+  /** Creates and starts a game with two new players and the specified clock
+   * Returns the started game
+   */
+  async function createStartedGameWithClock(clock: GameSettingsInterface["clock"]) {
+    const { game } = await createStartedGame({ ...boardDimensions, clock });
+    return game;
+  }
+
+  /** Moves the start of a game's current turn into the past */
+  async function rewindTurn(gameId: string, seconds: number) {
+    await db.query(`
+      UPDATE games
+      SET turn_started_on = turn_started_on - make_interval(secs => $2)
+      WHERE id = $1
+    `, [gameId, seconds]);
+  }
+
+  test("games have no clock by default", async function () {
+    const game = await Game.create(boardDimensions);
+    expect(game.clock).toBeNull();
+  });
+
+  test("times the current turn once started", async function () {
+    const game = await createStartedGameWithClock({ type: "perMove", seconds: 30 });
+    expect(game.clock).toEqual({
+      type: "perMove",
+      seconds: 30,
+      incrementSeconds: 0,
+      timeoutAction: "forfeit",
+      turnStartedOn: expect.any(Date),
+      turnDeadline: expect.any(Date),
+      timeRemainingMs: null
+    });
+    expect(game.clock!.turnDeadline!.getTime() - game.clock!.turnStartedOn!.getTime())
+      .toEqual(30000);
+  });
+
+  test("charges fischer moves to the player's bank plus the increment", async function () {
+    let game = await createStartedGameWithClock(
+      { type: "fischer", seconds: 60, incrementSeconds: 5 }
+    );
+    const playerId = game.currPlayerId as string;
+    expect(game.clock!.timeRemainingMs![playerId]).toEqual(60000);
+
+    await rewindTurn(game.id, 10);
+    game = await Game.dropPiece(game.id, playerId, 0);
+
+    // ~10 seconds used, 5 seconds added back
+    const remainingMs = game.clock!.timeRemainingMs![playerId];
+    expect(remainingMs).toBeLessThanOrEqual(55000);
+    expect(remainingMs).toBeGreaterThan(54000);
+  });
+
+  test("does nothing for a turn which hasn't timed out", async function () {
+    const game = await createStartedGameWithClock({ type: "perMove", seconds: 30 });
+    expect(await Game.handleTimeout(game.id)).toBeNull();
+    expect(await Clock.getExpired(game.id)).toEqual([]);
+  });
+
+  test("forfeits the game to the opponent when time runs out", async function () {
+    let game = await createStartedGameWithClock({ type: "perMove", seconds: 30 });
+    const timedOutPlayerId = game.currPlayerId as string;
+    const gamePlayers = await Game.getPlayers(game.id);
+    const opponentId = gamePlayers.find(p => p.id !== timedOutPlayerId)!.id;
+
+    await rewindTurn(game.id, 31);
+    expect(await Clock.getExpired(game.id)).toEqual(
+      [{ gameId: game.id, playerId: timedOutPlayerId }]
+    );
+
+    game = (await Game.handleTimeout(game.id))!;
+    expect(game.gameState).toEqual(4);
+    expect(game.currPlayerId).toEqual(opponentId);
+    expect(game.clock!.turnStartedOn).toBeNull();
+
+    await expect(Game.dropPiece(game.id, opponentId, 0)).rejects.toThrow(InvalidGameState);
+  });
+
+  test("forfeits for the player but play continues w/ more players left", async function () {
+    const { game, playerIds } = await createStartedGame(
+      { ...boardDimensions, clock: { type: "perMove", seconds: 30 } }, 3
+    );
+
+    await rewindTurn(game.id, 31);
+    let updatedGame = (await Game.handleTimeout(game.id))!;
+    expect(updatedGame.gameState).toEqual(1);
+    expect(updatedGame.currPlayerId).toEqual(playerIds[1]);
+    expect(await Clock.getExpired(game.id)).toEqual([]);
+
+    // the game is won on time once one player is left, who wins it
+    await rewindTurn(game.id, 31);
+    updatedGame = (await Game.handleTimeout(game.id))!;
+    expect(updatedGame.gameState).toEqual(4);
+    expect(updatedGame.endReason).toEqual("timeout");
+    expect(updatedGame.currPlayerId).toEqual(playerIds[2]);
+
+    const places = Object.fromEntries(
+      (await Game.getPlayers(game.id)).map(p => [p.id, p.finalPlace])
+    );
+    expect(places).toEqual({
+      [playerIds[0]]: 3,
+      [playerIds[1]]: 2,
+      [playerIds[2]]: 1
+    });
+  });
+
+  test("makes a random move when time runs out", async function () {
+    let game = await createStartedGameWithClock(
+      { type: "perMove", seconds: 30, timeoutAction: "randomMove" }
+    );
+    const timedOutPlayerId = game.currPlayerId as string;
+
+    await rewindTurn(game.id, 31);
+    game = (await Game.handleTimeout(game.id))!;
+
+    expect(game.gameState).toEqual(1);
+    expect(game.currPlayerId).not.toEqual(timedOutPlayerId);
+    const turns = await Game.getTurns(game.id);
+    expect(turns.map(t => t.playerId)).toEqual([timedOutPlayerId]);
+  });
+
+});
+
+describe("resign, draws and abandonment", function () {
+
+  /** Creates and starts a game with two new (human) players
+   * Returns the game and the IDs of the current and other player
+   */
+  async function createTwoPlayerGame() {
+    const { game, playerIds: [currPlayerId, otherPlayerId] } =
+      await createStartedGame(boardDimensions);
+    return { game, currPlayerId, otherPlayerId };
+  }
+
+  test("resigning wins the game for the opponent", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createTwoPlayerGame();
+
+    const resigned = await Game.resign(game.id, currPlayerId);
+    expect(resigned.gameState).toEqual(2);
+    expect(resigned.endReason).toEqual("resignation");
+    expect(resigned.currPlayerId).toEqual(otherPlayerId);
+    expect((await Player.get(otherPlayerId)).rating).toBeGreaterThan(1500);
+
+    await expect(Game.resign(game.id, otherPlayerId)).rejects.toThrow(InvalidGameState);
+  });
+
+  test("a game is won by connecting pieces", async function () {
+    const players = await createPlayers(2);
+    const playerIds = players.map(p => p.id);
+    let game = await createNearlyWonGame(boardDimensions, playerIds, playerIds[0]);
+
+    game = await Game.dropPiece(game.id, playerIds[0], 0);
+    expect(game.endReason).toEqual("connect");
+  });
+
+  test("an accepted draw ties the game", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createTwoPlayerGame();
+
+    let updatedGame = await Game.offerDraw(game.id, currPlayerId);
+    expect(updatedGame.drawOfferedBy).toEqual(currPlayerId);
+    await expect(Game.offerDraw(game.id, otherPlayerId)).rejects.toThrow(DrawNotAllowed);
+    await expect(Game.respondToDraw(game.id, currPlayerId, true))
+      .rejects.toThrow(ForbiddenError);
+
+    updatedGame = await Game.respondToDraw(game.id, otherPlayerId, true);
+    expect(updatedGame.gameState).toEqual(3);
+    expect(updatedGame.endReason).toEqual("drawAgreed");
+    expect(updatedGame.drawOfferedBy).toBeNull();
+  });
+
+  test("a declined draw continues the game", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createTwoPlayerGame();
+
+    await Game.offerDraw(game.id, currPlayerId);
+    const updatedGame = await Game.respondToDraw(game.id, otherPlayerId, false);
+    expect(updatedGame.gameState).toEqual(1);
+    expect(updatedGame.drawOfferedBy).toBeNull();
+
+    await expect(Game.respondToDraw(game.id, otherPlayerId, true))
+      .rejects.toThrow(DrawNotAllowed);
+  });
+
+  test("the opponent moving declines a draw offer", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createTwoPlayerGame();
+
+    await Game.dropPiece(game.id, currPlayerId, 0);
+    await Game.offerDraw(game.id, currPlayerId);
+    const updatedGame = await Game.dropPiece(game.id, otherPlayerId, 0);
+    expect(updatedGame.drawOfferedBy).toBeNull();
+  });
+
+  test("removing a player from a started game abandons it", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createTwoPlayerGame();
+
+    const playerCount = await Game.removePlayer(game.id, currPlayerId);
+    expect(playerCount).toEqual(2);
+
+    const abandoned = await Game.get(game.id);
+    expect(abandoned.gameState).toEqual(2);
+    expect(abandoned.endReason).toEqual("abandoned");
+    expect(abandoned.currPlayerId).toEqual(otherPlayerId);
+
+    // abandoned games aren't rated
+    expect((await Player.get(otherPlayerId)).rating).toEqual(1500);
+  });
+
+});
+
+describe("game events", function () {
+
+  test("publishes events for starting a game and dropping a piece", async function () {
+
+    const players = await createPlayers(2);
+    let game = await Game.create(boardDimensions);
+
+    const events: GameEventInterface[] = [];
+    const unsubscribe = GameEvents.subscribe(game.id, e => events.push(e));
+
+    await Game.addPlayers(game.id, [players[0].id, players[1].id]);
+    await Game.start(game.id);
+
+    game = await Game.get(game.id);
+    const currPlayerId = game.currPlayerId as string;
+    await Game.dropPiece(game.id, currPlayerId, 0);
+
+    // a failed drop is rolled back and publishes nothing
+    await Game.dropPiece(game.id, currPlayerId, 0).catch(() => undefined);
+
+    unsubscribe();
+
+    expect(events.map(e => e.type)).toEqual([
+      "playerJoined",
+      "gameStarted",
+      "currentPlayerChanged",
+      "pieceDropped",
+      "currentPlayerChanged"
+    ]);
+    expect(events[3].data).toEqual({
+      playerId: currPlayerId,
+      location: [boardDimensions.height - 1, 0]
+    });
+  });
+
+});
+
+describe("cylinder boards", function () {
+
+  /** Creates and starts a game w/ two new players on a board w/ the
+   * specified topology; the players drop pieces so that the first player
+   * has three in the bottom row wrapping around columns 4, 5 and 0
+   * Returns the game and its player IDs in play order
+   */
+  async function createWrappingGame(topology: "flat" | "cylinder") {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, topology });
+
+    for (let [playerIndex, col] of [[0, 4], [1, 2], [0, 5], [1, 2], [0, 0], [1, 2]]) {
+      await Game.dropPiece(game.id, playerIds[playerIndex], col);
+    }
+    return { game, playerIds };
+  }
+
+  test("lines can wrap from the last column to the first", async function () {
+    const { game, playerIds } = await createWrappingGame("cylinder");
+    expect(game.topology).toEqual("cylinder");
+
+    const wonGame = await Game.dropPiece(game.id, playerIds[0], 1);
+    const bottomRow = boardDimensions.height - 1;
+    expect(wonGame.gameState).toEqual(2);
+    expect(wonGame.currPlayerId).toEqual(playerIds[0]);
+    expect(wonGame.winningSet).toEqual(expect.arrayContaining([
+      [bottomRow, 4], [bottomRow, 5], [bottomRow, 0], [bottomRow, 1]
+    ]));
+  });
+
+  test("lines don't wrap on a flat board", async function () {
+    const { game, playerIds } = await createWrappingGame("flat");
+    expect(game.topology).toEqual("flat");
+
+    const updatedGame = await Game.dropPiece(game.id, playerIds[0], 1);
+    expect(updatedGame.gameState).toEqual(1);
+  });
+
+});
+
+describe("PopOut games", function () {
+
+  const bottomRow = boardDimensions.height - 1;
+
+  test("popping a piece moves the column down", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, variant: "popOut" });
+    expect(game.variant).toEqual("popOut");
+
+    await Game.dropPiece(game.id, playerIds[0], 0);
+    await Game.dropPiece(game.id, playerIds[1], 0);
+    const popped = await Game.popPiece(game.id, playerIds[0], 0);
+
+    expect(popped.boardData[bottomRow][0].playerId).toEqual(playerIds[1]);
+    expect(popped.boardData[bottomRow - 1][0].playerId).toBeNull();
+    expect(popped.placedPieces).toEqual([[bottomRow, 0]]);
+    expect(popped.currPlayerId).toEqual(playerIds[1]);
+
+    const turns = await Game.getTurns(game.id);
+    expect(turns.map(t => t.moveType)).toEqual(["drop", "drop", "pop"]);
+    expect(turns[2].location).toEqual([bottomRow, 0]);
+  });
+
+  test("throws InvalidPiecePlacement for invalid pops", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, variant: "popOut" });
+    await Game.dropPiece(game.id, playerIds[0], 0);
+
+    // another player's piece
+    await expect(Game.popPiece(game.id, playerIds[1], 0))
+      .rejects.toThrow(InvalidPiecePlacement);
+    // an empty column
+    await expect(Game.popPiece(game.id, playerIds[1], 1))
+      .rejects.toThrow(InvalidPiecePlacement);
+
+    const { game: classicGame, playerIds: classicIds } = await createStartedGame({ ...boardDimensions, variant: "classic" });
+    await Game.dropPiece(classicGame.id, classicIds[0], 0);
+    await Game.dropPiece(classicGame.id, classicIds[1], 1);
+    await expect(Game.popPiece(classicGame.id, classicIds[0], 0))
+      .rejects.toThrow(InvalidPiecePlacement);
+  });
+
+  test("throws BadRequestError for PopOut games which continue after a win", async function () {
+    await expect(Game.create({ ...boardDimensions, variant: "popOut", continueAfterWin: true }))
+      .rejects.toThrow(BadRequestError);
+  });
+
+  test("a pop can win the game for another player", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, variant: "popOut" });
+    const [first, second] = playerIds;
+
+    for (let [playerId, col] of [
+      [first, 0], [second, 0], [first, 5], [second, 1],
+      [first, 5], [second, 2], [first, 4], [second, 3]
+    ] as [string, number][]) {
+      await Game.dropPiece(game.id, playerId, col);
+    }
+
+    // popping the first player's piece drops the second player's into a row
+    const endedGame = await Game.popPiece(game.id, first, 0);
+    expect(endedGame.gameState).toEqual(2);
+    expect(endedGame.endReason).toEqual("connect");
+    expect(endedGame.currPlayerId).toEqual(second);
+    expect(endedGame.winningSet).toContainEqual([bottomRow, 0]);
+  });
+
+  test("a pop on a full board can win the game for another player", async function () {
+    const { game, playerIds: [first, second] } =
+      await createStartedGame({ ...boardDimensions, variant: "popOut" });
+
+    // a full board w/o a line where popping the first player's piece out of
+    // column 0 connects the second player's bottom row
+    const rows = ["BBAABA", "AAABAB", "ABABAB", "AABAAA", "BBABBB", "ABBBAB"];
+    const boardData = game.boardData;
+    const placedPieces: number[][] = [];
+    rows.forEach((row, y) => [...row].forEach((piece, x) => {
+      boardData[y][x].playerId = piece === "A" ? first : second;
+      placedPieces.push([y, x]);
+    }));
+    await Board.update(game.boardId, boardData);
+    await Game.update(game.id, { placedPieces });
+
+    const endedGame = await Game.popPiece(game.id, first, 0);
+    expect(endedGame.gameState).toEqual(2);
+    expect(endedGame.endReason).toEqual("connect");
+    expect(endedGame.currPlayerId).toEqual(second);
+  });
+
+  test("a full board isn't a tie while the next player can pop", async function () {
+    const players = await createPlayers(1);
+    let game = await createNearlyTiedGame(boardDimensions, players[0].id);
+    await db.query(`UPDATE games SET variant = 'popOut' WHERE id = $1`, [game.id]);
+    const currPlayerId = (await Game.getPlayers(game.id)).find(p => p.playOrder === 0)!.id;
+    await Game.update(game.id, { currPlayerId });
+
+    game = await Game.dropPiece(game.id, currPlayerId, 0);
+    expect(game.gameState).toEqual(1);
+    expect(game.currPlayerId).not.toEqual(currPlayerId);
+  });
+
+  test("undoing a pop restores the column", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, variant: "popOut" });
+
+    await Game.dropPiece(game.id, playerIds[0], 0);
+    await Game.dropPiece(game.id, playerIds[1], 0);
+    await Game.popPiece(game.id, playerIds[0], 0);
+    await Game.requestUndo(game.id, playerIds[0]);
+    const undone = await Game.respondToUndo(game.id, playerIds[1], true);
+
+    expect(undone.boardData[bottomRow][0].playerId).toEqual(playerIds[0]);
+    expect(undone.boardData[bottomRow - 1][0].playerId).toEqual(playerIds[1]);
+    expect(undone.placedPieces).toEqual([[bottomRow, 0], [bottomRow - 1, 0]]);
+    expect(undone.currPlayerId).toEqual(playerIds[0]);
+  });
+
+  test("replays pops", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, variant: "popOut" });
+
+    await Game.dropPiece(game.id, playerIds[0], 0);
+    await Game.dropPiece(game.id, playerIds[1], 0);
+    await Game.popPiece(game.id, playerIds[0], 0);
+
+    const beforePop = await Game.replay(game.id, 2);
+    expect(beforePop.boardData[bottomRow - 1][0].playerId).toEqual(playerIds[1]);
+
+    const afterPop = await Game.replay(game.id);
+    expect(afterPop.boardData[bottomRow][0].playerId).toEqual(playerIds[1]);
+    expect(afterPop.boardData[bottomRow - 1][0].playerId).toBeNull();
+    expect(afterPop.placedPieces).toEqual([[bottomRow, 0]]);
+  });
+
+});
+
+describe("power-ups", function () {
+
+  const bottomRow = boardDimensions.height - 1;
+
+  test("gives each player the game's power-ups when it starts", async function () {
+    let { game } = await createStartedGame({ ...boardDimensions, variant: "powerUps" });
+    expect(game.powerUps).toEqual({ anvil: 1, wall: 1, bomb: 1 });
+    for (let player of await Game.getPlayers(game.id)) {
+      expect(player.powerUps).toEqual({ anvil: 1, wall: 1, bomb: 1 });
+    }
+
+    ({ game } = await createStartedGame({
+      ...boardDimensions, variant: "powerUps", powerUps: { anvil: 2 }
+    }));
+    for (let player of await Game.getPlayers(game.id)) {
+      expect(player.powerUps).toEqual({ anvil: 2, wall: 0, bomb: 0 });
+    }
+  });
+
+  test("an anvil clears its column and lands on the bottom", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, variant: "powerUps" });
+    await Game.dropPiece(game.id, playerIds[0], 0);
+    await Game.dropPiece(game.id, playerIds[1], 0);
+
+    const updatedGame = await Game.usePowerUp(game.id, playerIds[0], 0, "anvil");
+    expect(updatedGame.boardData[bottomRow][0].playerId).toEqual(playerIds[0]);
+    expect(updatedGame.boardData[bottomRow - 1][0].playerId).toBeNull();
+    expect(updatedGame.placedPieces).toEqual([[bottomRow, 0]]);
+    expect(updatedGame.currPlayerId).toEqual(playerIds[1]);
+
+    const turns = await Game.getTurns(game.id);
+    expect(turns[turns.length - 1]).toEqual(expect.objectContaining({
+      location: [bottomRow, 0],
+      moveType: "anvil",
+      effect: { removed: [[bottomRow - 1, 0], [bottomRow, 0]] }
+    }));
+    const player = (await Game.getPlayers(game.id)).find(p => p.id === playerIds[0]);
+    expect(player?.powerUps).toEqual({ anvil: 0, wall: 1, bomb: 1 });
+  });
+
+  test("a wall is a piece which counts for no one", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, variant: "powerUps" });
+    // the first player's pieces in columns 0, 1 and 2 are walled off
+    for (let [playerIndex, col] of [[0, 0], [1, 5], [0, 1], [1, 5], [0, 2]]) {
+      await Game.dropPiece(game.id, playerIds[playerIndex], col);
+    }
+
+    let updatedGame = await Game.usePowerUp(game.id, playerIds[1], 3, "wall");
+    expect(updatedGame.boardData[bottomRow][3].playerId).toEqual(WALL_PIECE);
+    expect(updatedGame.placedPieces).toContainEqual([bottomRow, 3]);
+
+    updatedGame = await Game.dropPiece(game.id, playerIds[0], 3);
+    expect(updatedGame.boardData[bottomRow - 1][3].playerId).toEqual(playerIds[0]);
+    expect(updatedGame.gameState).toEqual(1);
+  });
+
+  test("a bomb removes a neighboring opponent piece", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, variant: "powerUps" });
+    for (let [playerIndex, col] of [[0, 1], [1, 1], [0, 1]]) {
+      await Game.dropPiece(game.id, playerIds[playerIndex], col);
+    }
+
+    // the bomb lands at the bottom of column 0; the pieces above its target fall
+    const updatedGame = await Game.usePowerUp(
+      game.id, playerIds[1], 0, "bomb", [bottomRow, 1]
+    );
+    expect(updatedGame.boardData[bottomRow][0].playerId).toBeNull();
+    expect(updatedGame.boardData[bottomRow][1].playerId).toEqual(playerIds[1]);
+    expect(updatedGame.boardData[bottomRow - 1][1].playerId).toEqual(playerIds[0]);
+    expect(updatedGame.boardData[bottomRow - 2][1].playerId).toBeNull();
+    expect(updatedGame.placedPieces).toEqual([[bottomRow, 1], [bottomRow - 1, 1]]);
+
+    const replay = await Game.replay(game.id);
+    expect(replay.boardData).toEqual(updatedGame.boardData);
+    expect(replay.placedPieces).toEqual(updatedGame.placedPieces);
+  });
+
+  test("throws InvalidPiecePlacement for invalid bomb targets", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, variant: "powerUps" });
+    await Game.dropPiece(game.id, playerIds[0], 2);
+    await Game.dropPiece(game.id, playerIds[1], 3);
+
+    // the player's own piece
+    await expect(Game.usePowerUp(game.id, playerIds[0], 1, "bomb", [bottomRow, 2]))
+      .rejects.toThrow(InvalidPiecePlacement);
+    // not next to where the bomb lands
+    await expect(Game.usePowerUp(game.id, playerIds[0], 5, "bomb", [bottomRow, 3]))
+      .rejects.toThrow(InvalidPiecePlacement);
+    // no target
+    await expect(Game.usePowerUp(game.id, playerIds[0], 4, "bomb"))
+      .rejects.toThrow(InvalidPiecePlacement);
+  });
+
+  test("throws PowerUpUnavailable once a power-up is used up", async function () {
+    const { game, playerIds } = await createStartedGame({
+      ...boardDimensions, variant: "powerUps", powerUps: { wall: 1 }
+    });
+    await Game.usePowerUp(game.id, playerIds[0], 0, "wall");
+    await Game.dropPiece(game.id, playerIds[1], 0);
+
+    await expect(Game.usePowerUp(game.id, playerIds[0], 1, "wall"))
+      .rejects.toThrow(PowerUpUnavailable);
+    await expect(Game.usePowerUp(game.id, playerIds[0], 1, "anvil"))
+      .rejects.toThrow(PowerUpUnavailable);
+  });
+
+  test("undoing a power-up restores the board and the power-up", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, variant: "powerUps" });
+    await Game.dropPiece(game.id, playerIds[0], 0);
+    await Game.usePowerUp(game.id, playerIds[1], 0, "anvil");
+
+    await Game.requestUndo(game.id, playerIds[1]);
+    const updatedGame = await Game.respondToUndo(game.id, playerIds[0], true);
+    expect(updatedGame.boardData[bottomRow][0].playerId).toEqual(playerIds[0]);
+    expect(updatedGame.placedPieces).toEqual([[bottomRow, 0]]);
+
+    const player = (await Game.getPlayers(game.id)).find(p => p.id === playerIds[1]);
+    expect(player?.powerUps).toEqual({ anvil: 1, wall: 1, bomb: 1 });
+  });
+
+  test("throws InvalidPiecePlacement for power-ups in other games", async function () {
+    const { game, playerIds: [currPlayerId] } = await createStartedGame(boardDimensions);
+
+    await expect(Game.usePowerUp(game.id, currPlayerId, 0, "wall"))
+      .rejects.toThrow(InvalidPiecePlacement);
+  });
+
+  test("throws BadRequestError for power-ups in other variants", async function () {
+    await expect(Game.create({ ...boardDimensions, powerUps: { anvil: 1 } }))
+      .rejects.toThrow(BadRequestError);
+    await expect(Game.create({ ...boardDimensions, variant: "powerUps", continueAfterWin: true }))
+      .rejects.toThrow(BadRequestError);
+  });
+
+});
+
+describe("blocked cells", function () {
+
+  test("pieces settle on top of blocked cells", async function () {
+    const board = await Board.create({ ...boardDimensions, blockedCells: [[5, 2], [4, 2]] });
+    const created = await Game.createWithBoard(board.id);
+    const { game, playerIds } = await startGameWithPlayers(created.id);
+    expect(game.blockedCells).toEqual([[5, 2], [4, 2]]);
+
+    const updatedGame = await Game.dropPiece(game.id, playerIds[0], 2);
+    expect(updatedGame.boardData[3][2].playerId).toEqual(playerIds[0]);
+    expect(updatedGame.placedPieces).toEqual([[3, 2]]);
+  });
+
+  test("valid coord sets skip lines through blocked cells", async function () {
+    const board = await Board.create({ ...boardDimensions, blockedCells: [[5, 2]] });
+
+    expect(board.data[5][2]).toEqual({ playerId: null, validCoordSets: [], blocked: true });
+    for (let row of board.data) {
+      for (let cell of row) {
+        for (let coordSet of cell.validCoordSets) {
+          expect(coordSet).not.toContainEqual([5, 2]);
+        }
+      }
+    }
+    // the bottom row's horizontal line from column 0 runs through [5, 2]
+    expect(board.data[5][0].validCoordSets).toEqual([
+      [[5, 0], [4, 0], [3, 0], [2, 0]],
+      [[5, 0], [4, 1], [3, 2], [2, 3]]
+    ]);
+  });
+
+  test("columns topped by blocked cells fill up sooner", async function () {
+    const layout = await Layout.create({ name: "Pyramid", height: 4, width: 7, shape: "pyramid" });
+    const { game, playerIds } = await createStartedGame({ layoutId: layout.id });
+    expect(game.boardHeight).toEqual(4);
+    expect(await Board.getAvailColumns(game.boardId)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+
+    const updatedGame = await Game.dropPiece(game.id, playerIds[0], 0);
+    expect(updatedGame.boardData[3][0].playerId).toEqual(playerIds[0]);
+    expect(await Board.getAvailColumns(game.boardId)).toEqual([1, 2, 3, 4, 5, 6]);
+
+    await expect(Game.dropPiece(game.id, playerIds[1], 0))
+      .rejects.toThrow(InvalidPiecePlacement);
+  });
+
+  test("ties once no open cells can be reached", async function () {
+    // only columns 0 and 1 are open, so only vertical lines can be connected
+    const blockedCells = [0, 1, 2].flatMap(y => [2, 3].map(x => [y, x]));
+    const { game, playerIds } = await createStartedGame({
+      height: 3, width: 4, winLength: 3, blockedCells
+    });
+
+    for (let [playerIndex, col] of [[0, 0], [1, 1], [0, 1], [1, 0], [0, 0]]) {
+      await Game.dropPiece(game.id, playerIds[playerIndex], col);
+    }
+    const tiedGame = await Game.dropPiece(game.id, playerIds[1], 1);
+    expect(tiedGame.gameState).toEqual(3);
+  });
+
+  test("throws BadRequestError if the players don't fit in the open cells", async function () {
+    const layout = await Layout.create({
+      name: "Corner",
+      height: 3,
+      width: 3,
+      blockedCells: [[0, 0], [0, 1], [0, 2], [1, 0], [1, 1]]
+    });
+    await expect(Game.create({ layoutId: layout.id, winLength: 3 }))
+      .rejects.toThrow(BadRequestError);
+  });
+
+  test("throws BadRequestError for PopOut games w/ blocked cells", async function () {
+    const layout = await Layout.create({ name: "Pyramid", height: 4, width: 7, shape: "pyramid" });
+    await expect(Game.create({ layoutId: layout.id, variant: "popOut" }))
+      .rejects.toThrow(BadRequestError);
+  });
+
+  test("throws NotFoundError for a missing layout", async function () {
+    await expect(Game.create({ layoutId: randomUUID() })).rejects.toThrow(NotFoundError);
+  });
+
+});
+
+describe("rematches and series", function () {
+
+  /** Creates and starts a game with two new players; the current player
+   * then resigns
+   * Returns the finished game and the IDs of the resigned and winning player
+   */
+  async function createResignedGame(settings: Partial<GameSettingsInterface> = {}) {
+    const { game, playerIds: [resignedId, winnerId] } =
+      await createStartedGame({ ...boardDimensions, ...settings });
+    return { game: await Game.resign(game.id, resignedId), resignedId, winnerId };
+  }
+
+  test("starts a new game w/ the same settings and players", async function () {
+    const { game, resignedId, winnerId } = await createResignedGame({
+      winLength: 3,
+      clock: { type: "perMove", seconds: 30 }
+    });
+
+    const rematch = await Game.rematch(game.id);
+    expect(rematch.id).not.toEqual(game.id);
+    expect(rematch.gameState).toEqual(1);
+    expect(rematch.boardHeight).toEqual(game.boardHeight);
+    expect(rematch.boardWidth).toEqual(game.boardWidth);
+    expect(rematch.winLength).toEqual(3);
+    expect(rematch.clock).toEqual(expect.objectContaining({ type: "perMove", seconds: 30 }));
+    expect(rematch.rematchOf).toEqual(game.id);
+    expect(rematch.seriesId).toEqual(game.id);
+    expect((await Game.get(game.id)).seriesId).toEqual(game.id);
+
+    const playerIds = (await Game.getPlayers(rematch.id)).map(p => p.id);
+    expect(playerIds.sort()).toEqual([resignedId, winnerId].sort());
+  });
+
+  test("swaps the first mover if asked to", async function () {
+    const { game } = await createResignedGame();
+    const firstMover = (await Game.getPlayers(game.id)).find(p => p.playOrder === 0)!;
+
+    const rematch = await Game.rematch(game.id, true);
+    const rematchPlayers = await Game.getPlayers(rematch.id);
+    expect(rematch.currPlayerId).not.toEqual(firstMover.id);
+    expect(rematchPlayers.find(p => p.id === firstMover.id)!.playOrder).toEqual(1);
+  });
+
+  test("throws InvalidGameState for an unfinished game", async function () {
+    const { game } = await createStartedGame(boardDimensions);
+
+    await expect(Game.rematch(game.id)).rejects.toThrow(InvalidGameState);
+  });
+
+  test("throws InvalidGameState for a game which was already rematched", async function () {
+    const { game } = await createResignedGame();
+    await Game.rematch(game.id);
+
+    await expect(Game.rematch(game.id)).rejects.toThrow(InvalidGameState);
+  });
+
+  test("throws BadRequestError starting w/ a play order of other players", async function () {
+    const players = await createPlayers(3);
+    const game = await Game.create(boardDimensions);
+    await Game.addPlayers(game.id, [players[0].id, players[1].id]);
+
+    await expect(Game.start(game.id, true, [players[0].id, players[2].id]))
+      .rejects.toThrow(BadRequestError);
+  });
+
+  test("tracks head-to-head standings across a series", async function () {
+    const { game, resignedId, winnerId } = await createResignedGame();
+
+    const rematch = await Game.rematch(game.id);
+    await Game.resign(rematch.id, rematch.currPlayerId as string);
+    const finishedRematch = await Game.get(rematch.id);
+    const thirdGame = await Game.rematch(rematch.id);
+
+    const series = await Game.getSeries(thirdGame.id);
+    expect(series.seriesId).toEqual(game.id);
+    expect(series.games.map(g => g.id)).toEqual([game.id, rematch.id, thirdGame.id]);
+    expect(series.games[0].winnerId).toEqual(winnerId);
+    expect(series.games[2].winnerId).toBeNull();
+
+    const rematchWinnerId = finishedRematch.currPlayerId;
+    const expectedWins = (playerId: string) =>
+      (playerId === winnerId ? 1 : 0) + (playerId === rematchWinnerId ? 1 : 0);
+    for (let playerId of [resignedId, winnerId]) {
+      expect(series.standings).toContainEqual({
+        playerId,
+        wins: expectedWins(playerId),
+        losses: 2 - expectedWins(playerId),
+        ties: 0
+      });
+    }
+  });
+
+  test("a game which was never rematched is a series of one", async function () {
+    const { game } = await createResignedGame();
+
+    const series = await Game.getSeries(game.id);
+    expect(series.seriesId).toBeNull();
+    expect(series.games.map(g => g.id)).toEqual([game.id]);
+  });
+
+});
+
+describe("games with more than two players", function () {
+
+  /** Drops pieces in columns 0, 1 and 2 (one for each player in play order)
+   * the specified number of times */
+  async function dropRounds(gameId: string, playerIds: string[], rounds: number) {
+    for (let i = 0; i < rounds; i++) {
+      for (let j = 0; j < playerIds.length; j++) {
+        await Game.dropPiece(gameId, playerIds[j], j);
+      }
+    }
+  }
+
+  test("defaults to two players", async function () {
+    const game = await Game.create(boardDimensions);
+    expect(game.maxPlayers).toEqual(2);
+    expect(game.continueAfterWin).toEqual(false);
+  });
+
+  test("throws GameFull adding more than the max players", async function () {
+    const players = await createPlayers(3);
+    const game = await Game.create(boardDimensions);
+    await Game.addPlayers(game.id, [players[0].id, players[1].id]);
+
+    await expect(Game.addPlayers(game.id, [players[2].id]))
+      .rejects.toThrow(GameFull);
+    expect((await Game.get(game.id)).totalPlayers).toEqual(2);
+  });
+
+  test("throws BadRequestError if the board is too small for the players", async function () {
+    await expect(Game.create({ height: 3, width: 3, winLength: 3, maxPlayers: 8 }))
+      .rejects.toThrow(BadRequestError);
+  });
+
+  test("first win ends the game by default", async function () {
+    const { game, playerIds } = await createStartedGame(boardDimensions, 3);
+
+    await dropRounds(game.id, playerIds, 3);
+    const endedGame = await Game.dropPiece(game.id, playerIds[0], 0);
+    expect(endedGame.gameState).toEqual(2);
+    expect(endedGame.currPlayerId).toEqual(playerIds[0]);
+
+    const places = Object.fromEntries(
+      (await Game.getPlayers(game.id)).map(p => [p.id, p.finalPlace])
+    );
+    expect(places).toEqual({
+      [playerIds[0]]: 1,
+      [playerIds[1]]: 2,
+      [playerIds[2]]: 2
+    });
+  });
+
+  test("play continues after a win, skipping finished players", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, continueAfterWin: true }, 3);
+
+    await dropRounds(game.id, playerIds, 3);
+    let updatedGame = await Game.dropPiece(game.id, playerIds[0], 0);
+    expect(updatedGame.gameState).toEqual(1);
+    expect(updatedGame.currPlayerId).toEqual(playerIds[1]);
+    expect(updatedGame.winningSet).not.toBeNull();
+
+    await Game.dropPiece(game.id, playerIds[1], 4);
+    updatedGame = await Game.dropPiece(game.id, playerIds[2], 4);
+    expect(updatedGame.currPlayerId).toEqual(playerIds[1]);
+
+    await expect(Game.dropPiece(game.id, playerIds[0], 5))
+      .rejects.toThrow(NotCurrentPlayer);
+    await expect(Game.requestUndo(game.id, playerIds[1]))
+      .rejects.toThrow(UndoNotAllowed);
+    await expect(Game.resign(game.id, playerIds[0]))
+      .rejects.toThrow(InvalidGameState);
+  });
+
+  test("a player leaving takes last place and play continues", async function () {
+    const { game, playerIds } = await createStartedGame(boardDimensions, 3);
+
+    await Game.removePlayer(game.id, playerIds[0]);
+    let updatedGame = await Game.get(game.id);
+    expect(updatedGame.gameState).toEqual(1);
+    expect(updatedGame.currPlayerId).toEqual(playerIds[1]);
+
+    // the game is abandoned once one player is left, who wins it
+    await Game.removePlayer(game.id, playerIds[2]);
+    updatedGame = await Game.get(game.id);
+    expect(updatedGame.gameState).toEqual(2);
+    expect(updatedGame.endReason).toEqual("abandoned");
+    expect(updatedGame.currPlayerId).toEqual(playerIds[1]);
+
+    const places = Object.fromEntries(
+      (await Game.getPlayers(game.id)).map(p => [p.id, p.finalPlace])
+    );
+    expect(places).toEqual({
+      [playerIds[0]]: 3,
+      [playerIds[1]]: 1,
+      [playerIds[2]]: 2
+    });
+  });
+
+  test("a player resigning takes last place and play continues", async function () {
+    const { game, playerIds } = await createStartedGame(boardDimensions, 3);
+
+    let updatedGame = await Game.resign(game.id, playerIds[1]);
+    expect(updatedGame.gameState).toEqual(1);
+    expect(updatedGame.currPlayerId).toEqual(playerIds[0]);
+
+    // play skips the player who resigned
+    updatedGame = await Game.dropPiece(game.id, playerIds[0], 0);
+    expect(updatedGame.currPlayerId).toEqual(playerIds[2]);
+
+    // the game ends once one player is left, who wins it
+    updatedGame = await Game.resign(game.id, playerIds[2]);
+    expect(updatedGame.gameState).toEqual(2);
+    expect(updatedGame.endReason).toEqual("resignation");
+    expect(updatedGame.currPlayerId).toEqual(playerIds[0]);
+
+    const places = Object.fromEntries(
+      (await Game.getPlayers(game.id)).map(p => [p.id, p.finalPlace])
+    );
+    expect(places).toEqual({
+      [playerIds[0]]: 1,
+      [playerIds[1]]: 3,
+      [playerIds[2]]: 2
+    });
+  });
+
+  test("a finished player leaving gives up their place", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, continueAfterWin: true }, 3);
+
+    await dropRounds(game.id, playerIds, 3);
+    await Game.dropPiece(game.id, playerIds[0], 0);
+    await Game.removePlayer(game.id, playerIds[0]);
+
+    const updatedGame = await Game.get(game.id);
+    expect(updatedGame.gameState).toEqual(1);
+    expect(updatedGame.currPlayerId).toEqual(playerIds[1]);
+
+    // the next player to connect finishes first
+    const endedGame = await Game.dropPiece(game.id, playerIds[1], 1);
+    expect(endedGame.gameState).toEqual(2);
+    expect(endedGame.currPlayerId).toEqual(playerIds[1]);
+
+    const places = Object.fromEntries(
+      (await Game.getPlayers(game.id)).map(p => [p.id, p.finalPlace])
+    );
+    expect(places).toEqual({
+      [playerIds[0]]: 3,
+      [playerIds[1]]: 1,
+      [playerIds[2]]: 2
+    });
+  });
+
+  test("a draw after a player has finished is won by that player", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, continueAfterWin: true }, 3);
+
+    await dropRounds(game.id, playerIds, 3);
+    await Game.dropPiece(game.id, playerIds[0], 0);
+    await Game.offerDraw(game.id, playerIds[1]);
+    const endedGame = await Game.respondToDraw(game.id, playerIds[2], true);
+
+    expect(endedGame.gameState).toEqual(2);
+    expect(endedGame.endReason).toEqual("drawAgreed");
+    expect(endedGame.currPlayerId).toEqual(playerIds[0]);
+  });
+
+  test("records final standings once one player is left", async function () {
+    const { game, playerIds } = await createStartedGame({ ...boardDimensions, continueAfterWin: true }, 3);
+
+    const events: GameEventInterface[] = [];
+    const unsubscribe = GameEvents.subscribe(game.id, e => events.push(e));
+
+    await dropRounds(game.id, playerIds, 3);
+    await Game.dropPiece(game.id, playerIds[0], 0);
+    const endedGame = await Game.dropPiece(game.id, playerIds[1], 1);
+    unsubscribe();
+
+    expect(endedGame.gameState).toEqual(2);
+    expect(endedGame.endReason).toEqual("connect");
+    // the first player to finish wins the game
+    expect(endedGame.currPlayerId).toEqual(playerIds[0]);
+    expect(endedGame.winningSet).toContainEqual([boardDimensions.height - 1, 0]);
+
+    const places = Object.fromEntries(
+      (await Game.getPlayers(game.id)).map(p => [p.id, p.finalPlace])
+    );
+    expect(places).toEqual({
+      [playerIds[0]]: 1,
+      [playerIds[1]]: 2,
+      [playerIds[2]]: 3
+    });
+
+    expect(events.filter(e => e.type === "playerFinished").map(e => e.data)).toEqual([
+      { playerId: playerIds[0], place: 1, winningSet: expect.any(Array) },
+      { playerId: playerIds[1], place: 2, winningSet: expect.any(Array) }
+    ]);
+  });
+
+  test("a nearly tied game w/ three players can be tied", async function () {
+    const players = await createPlayers(1);
+    let game = await createNearlyTiedGame(boardDimensions, players[0].id, 3);
+    const gamePlayers = await Game.getPlayers(game.id);
+    expect(gamePlayers.length).toEqual(3);
+
+    game = Game.checkForGameEnd(await Game.get(game.id));
+    expect(game.gameState).toEqual(1);
+  });
+
+});
@@ -1,35 +1,88 @@
-import { ExpressError, NotFoundError, BadRequestError } from "../expressError";
 import {
-  TooFewPlayers, PlayerAlreadyExists,
-  InvalidGameState, InvalidPiecePlacement, NotCurrentPlayer
+  ExpressError, NotFoundError, BadRequestError, ForbiddenError
+} from "../expressError";
+import {
+  TooFewPlayers, PlayerAlreadyExists, InvalidGameState,
+  InvalidPiecePlacement, NotCurrentPlayer, MoveConflict, UndoNotAllowed,
+  DrawNotAllowed, GameFull, PowerUpUnavailable
 } from "../utilities/gameErrors";
 import { SQLQueries } from "../utilities/sqlQueries";
+import { sqlForPartialUpdate } from "../utilities/sql";
 import { CountResultInterface } from "../utilities/commonInterfaces";
-import { fisherSort, generateRandomName } from "../utilities/utils";
+import { fisherSort, generateRandomName, generateJoinCode } from "../utilities/utils";
+import { GameEvents } from "../utilities/gameEvents";
+import {
+  SortOrderType,
+  SortColumnInterface,
+  DEFAULT_PAGE_LIMIT,
+  sqlForKeysetPage,
+  toPage
+} from "../utilities/pagination";
 
 import db from "../db";
+import { SPECTATOR_ACTIVE_SECONDS } from "../config";
 import { Player, PlayerInterface } from "./player";
 import {
   Board,
   BoardInterface,
   BoardCellFinalStateInterface,
   BoardDataType,
-  BoardDimensionsInterface
+  BoardDimensionsInterface,
+  BoardSettingsInterface,
+  BoardTopologyType,
+  DEFAULT_WIN_LENGTH,
+  WALL_PIECE
 } from "./board";
-import { Turn } from "./turns";
+import {
+  Turn,
+  TurnInterface,
+  TurnEffectInterface,
+  MoveType,
+  PowerUpType,
+  POWER_UP_TYPES
+} from "./turns";
+import { Rating } from "./rating";
+import { Layout } from "./layout";
+import {
+  Clock,
+  ClockInterface,
+  ClockSettingsInterface,
+  ClockColumnsInterface
+} from "./clock";
 
 import { QueryResult } from "pg";
-import _ from "lodash";
 
 /** Game model
  * Supports CRUD operations + Game Turn Logic
  * Games are composed of:
  * - id: GUID
  * - height and width: numbers
- * - gameState: numbers {0: not started, 1: started, 2: won, 3: tied}
+ * - winLength: number of pieces in a row needed to win (3 - 8, default 4)
+ * - topology: flat (default) or cylinder, where lines can wrap around from
+ *   the last column to the first (see Board.initializeBoardData)
+ * - blockedCells: [y, x] coordinates of cells no piece can occupy (see
+ *   Layout); pieces settle on top of them
+ * - gameState: numbers {0: not started, 1: started, 2: won, 3: tied, 4: won on time}
+ * --- when won (incl. on time), currPlayerId is the winning player
+ * - endReason: how a finished game ended (see GameEndReasonType), else null
  * - placedPieces: array of coordinates, e.g. [[0, 1], [0, 2]]
  * - winningSet: array of coordinates, e.g. [[0, 1], [0, 2]]
  * - currPlayerId: the id (GUID) of the current player
+ * - undoRequestedBy: the id (GUID) of a player awaiting consent to undo, or null
+ * - drawOfferedBy: the id (GUID) of a player whose draw offer is pending, or null
+ * - clock: the game's turn clock (see Clock), or null if turns are untimed
+ * - maxPlayers: the most players who can be added to the game (2 - 8, default 2)
+ * - continueAfterWin: whether the remaining players play on for 2nd, 3rd, ...
+ *   place after the first player connects (see Game.dropPiece)
+ * - variant: the rule set; classic (default), popOut, where players may
+ *   pop one of their pieces out of the bottom row instead of dropping one,
+ *   powerUps, where players also get one-use power-up pieces, or fogOfWar,
+ *   where players only see some of their opponents' pieces (see FogOfWar)
+ * - powerUps: the power-ups each player gets at the start of a powerUps game
+ *   like { anvil, wall, bomb } (see Game.usePowerUp), else null
+ * - seriesId: the id (GUID) of the first game of a series of rematches (see
+ *   Game.rematch), or null if the game hasn't been rematched
+ * - rematchOf: the id (GUID) of the game this game is a rematch of, or null
  * - totalPlayers: the total number of players added to the game
  * - createdOn: the datetime for when the game was created
  * - board: a matrix of board cell states: { playerId, validCoordSets }
@@ -43,12 +96,45 @@ import _ from "lodash";
  * - update select statement to return as camelCase + update interfaces
  */
 
+// the number of players a game can have unless configured otherwise
+const DEFAULT_MAX_PLAYERS = 2;
+
+// the rule set a game is played with (see Game.popPiece for popOut and
+// Game.usePowerUp for powerUps)
+type GameVariantType = "classic" | "popOut" | "powerUps" | "fogOfWar";
+
+// the number of each power-up a player has
+type PowerUpInventoryType = Record<PowerUpType, number>;
+
+// the power-ups each player gets in a powerUps game unless configured otherwise
+const DEFAULT_POWER_UPS: PowerUpInventoryType = { anvil: 1, wall: 1, bomb: 1 };
+
+// how a game ended:
+// - connect: a player connected enough pieces in a row (state 2)
+// - boardFull: the board filled up w/o a winner (state 3)
+// - timeout: the current player ran out of time (state 4)
+// - resignation: a player resigned (state 2)
+// - drawAgreed: the players agreed to a draw (state 3)
+// - abandoned: a player left the started game (state 2; not rated)
+type GameEndReasonType =
+  "connect" |
+  "boardFull" |
+  "timeout" |
+  "resignation" |
+  "drawAgreed" |
+  "abandoned";
+
 interface GameUpdateInterface {
   boardId?: string
   gameState?: number;
   placedPieces?: number[][] | null;
   winningSet?: number[][] | null;
   currPlayerId?: string | null;
+  undoRequestedBy?: string | null;
+  drawOfferedBy?: string | null;
+  endReason?: GameEndReasonType | null;
+  seriesId?: string | null;
+  rematchOf?: string | null;
 }
 
 interface GameInterface {
@@ -59,12 +145,118 @@ interface GameInterface {
   boardData: BoardDataType;
   boardWidth: number;
   boardHeight: number;
+  winLength: number;
+  topology: BoardTopologyType;
+  blockedCells: number[][];
   winningSet: number[][] | null;
   currPlayerId: string | null;
+  undoRequestedBy: string | null;
+  drawOfferedBy: string | null;
+  endReason: GameEndReasonType | null;
+  clock: ClockInterface | null;
+  ownerId: string | null;
+  isPrivate: boolean;
+  maxPlayers: number;
+  continueAfterWin: boolean;
+  variant: GameVariantType;
+  powerUps: PowerUpInventoryType | null;
+  seriesId: string | null;
+  rematchOf: string | null;
+  createdOn: Date;
+  totalPlayers: number;
+  spectatorCount: number;
+}
+
+// the settings for a game which don't concern its board
+interface GameOptionsInterface {
+  clock?: ClockSettingsInterface;
+  isPrivate?: boolean;
+  maxPlayers?: number;
+  continueAfterWin?: boolean;
+  variant?: GameVariantType;
+  powerUps?: Partial<PowerUpInventoryType>;
+}
+
+// the board's dimensions can be left out if a layout is used instead
+interface GameSettingsInterface extends Partial<BoardSettingsInterface>, GameOptionsInterface {
+  layoutId?: string;
+}
+
+// a game as listed by Game.getAll()
+interface GameSummaryInterface {
+  id: string;
+  gameState: number;
+  boardHeight: number;
+  boardWidth: number;
+  isPrivate: boolean;
   createdOn: Date;
   totalPlayers: number;
 }
 
+interface GameFiltersInterface {
+  visibleTo?: string | null;
+  gameState?: number;
+  playerId?: string;
+  height?: number;
+  width?: number;
+  createdAfter?: string;
+  createdBefore?: string;
+  sortBy?: "createdOn" | "gameState";
+  order?: SortOrderType;
+  limit?: number;
+  cursor?: string;
+}
+
+interface GamePageInterface {
+  games: GameSummaryInterface[];
+  nextCursor: string | null;
+}
+
+const GAME_SORT_COLUMNS: Record<"createdOn" | "gameState", SortColumnInterface> = {
+  createdOn: { column: "games.created_on", type: "timestamptz" },
+  gameState: { column: "games.game_state", type: "int" }
+};
+
+// a game in a series as listed by Game.getSeries(); winnerId is null
+// unless the game was won
+interface SeriesGameInterface {
+  id: string;
+  gameState: number;
+  endReason: GameEndReasonType | null;
+  winnerId: string | null;
+  createdOn: Date;
+}
+
+// a player's head-to-head record over the finished games of a series
+interface SeriesStandingInterface {
+  playerId: string;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+interface GameSeriesInterface {
+  seriesId: string | null;
+  games: SeriesGameInterface[];
+  standings: SeriesStandingInterface[];
+}
+
+// how to end a game (see _endGame)
+interface GameEndInterface {
+  gameState: 2 | 3 | 4;
+  endReason: GameEndReasonType;
+  winningPlayerId: string | null;
+  winningSet?: number[][] | null;
+}
+
+// how a player left a started game (see _leaveGame)
+interface LeftGameInterface {
+  place: number;
+  ended: boolean;
+  winningPlayerId: string | null;
+  nextPlayer: GamePlayersInterface | null;
+}
+
 interface StartedGameInterface extends GameInterface {
   currPlayerIid: string;
 }
@@ -76,6 +268,8 @@ interface CheckGameEndInterface {
 
 interface GamePlayersInterface extends PlayerInterface {
   playOrder: number | null;
+  finalPlace: number | null;
+  powerUps: PowerUpInventoryType | null;
 }
 
 interface gameInterface {
@@ -84,8 +278,15 @@ interface gameInterface {
   winningPlayerId: string | null;
 }
 
-interface GameTurnInterface {
-
+interface GameReplayInterface {
+  gameId: string;
+  turnNumber: number;
+  totalTurns: number;
+  gameState: number;
+  boardData: BoardDataType;
+  placedPieces: number[][];
+  winningSet: number[][] | null;
+  lastTurn: TurnInterface | null;
 }
 
 class Game {
@@ -93,12 +294,30 @@ class Game {
   /**
    * Instantiates a new game based on params and returns it.
    *
-   * Params are optional, but should be { height, width }
+   * Params are optional, but should be { height, width, winLength, topology,
+   * blockedCells, layoutId, clock, isPrivate, maxPlayers, continueAfterWin,
+   * variant }
+   * layoutId is the ID of a board layout (see Layout) whose dimensions and
+   * blocked cells are used instead of height, width and blockedCells
+   * clock is optional and like { type, seconds, incrementSeconds, timeoutAction }
+   * isPrivate games get a join code (see Game.getJoinCode)
+   * maxPlayers defaults to 2; the board must have room for every player to
+   * be able to connect winLength pieces
+   * variant defaults to classic; popOut and powerUps games can't continue
+   * after a win (pieces can move) or be played w/ blocked cells; fogOfWar
+   * games hide pieces from their viewers (see FogOfWar)
+   * powerUps is only for powerUps games and like { anvil, wall, bomb }: how
+   * many of each power-up every player gets (1 each by default; power-ups
+   * left out of a configured inventory are 0)
+   * Throws BadRequestError if the win length or players don't fit on the board,
+   * the settings can't be combined or neither dimensions nor a layout are given
+   * Optionally accepts the ID of the player creating (and so owning) the game
    *
    * Returns { ... game object ... }
    * */
   static async create(
-    boardDimensions: BoardDimensionsInterface = { height: 7, width: 6 }
+    settings: GameSettingsInterface = { height: 7, width: 6 },
+    ownerId: string | null = null
   ): Promise<GameInterface> {
 
     /** TODO:
@@ -109,110 +328,269 @@ class Game {
 
     console.log("Game.create() called");
 
-    const board = await Board.create(boardDimensions);
-
-    console.log("board created:", board);
-
-    let result : QueryResult<GameInterface> = await db.query(`
-      INSERT INTO games ( board_id )
-      VALUES ( $1 )
-      RETURNING *
-      `, [board.id]
-    );
+    return await db.transaction(async () => {
+      const boardSettings = await _getBoardSettings(settings);
+      const board = await Board.create(boardSettings);
 
-    let game = result.rows[0];
+      console.log("board created:", board);
 
-    game = await Game.get(game.id);
-
-    return game;
+      return await Game.createWithBoard(board.id, settings, ownerId);
+    });
   }
 
   /**
    * Creates a new game using an existing board ID
+   * Optionally accepts the game's options { clock, isPrivate, maxPlayers,
+   * continueAfterWin, variant, powerUps } (see Game.create) and the ID of
+   * its owner
+   * Throws BadRequestError if the players don't fit on the board or the
+   * options can't be combined (w/ each other or the board)
    * Returns the created game as GameInterface
    * */
   static async createWithBoard(
-    boardId : string
+    boardId : string,
+    options : GameOptionsInterface = {},
+    ownerId : string | null = null
   ): Promise<GameInterface> {
 
-    /** TODO:
-     * - input validation
-     * - error handling
-     * - see if can be combined into single SQL statement OR
-     * - see if can be extended version of create() (DRY principle)
-     */
+    const maxPlayers = options.maxPlayers ?? DEFAULT_MAX_PLAYERS;
+    const variant = options.variant ?? "classic";
+    // pieces already played can move in these variants
+    const piecesMove = variant === "popOut" || variant === "powerUps";
+    if (piecesMove && options.continueAfterWin) {
+      throw new BadRequestError(`${variant} games can't continue after a win.`);
+    }
+    if (variant !== "powerUps" && options.powerUps !== undefined) {
+      throw new BadRequestError("Power-ups can only be configured for powerUps games.");
+    }
+    const powerUps = variant !== "powerUps"
+      ? null
+      : options.powerUps === undefined
+        ? DEFAULT_POWER_UPS
+        : { anvil: 0, wall: 0, bomb: 0, ...options.powerUps };
+
+    return await db.transaction(async () => {
+      const board = await Board.get(boardId);
+      _validatePlayersFit(board, maxPlayers);
+      if (piecesMove && board.blockedCells.length > 0) {
+        throw new BadRequestError(`${variant} games can't be played on boards w/ blocked cells.`);
+      }
 
-    let result : QueryResult<GameInterface> = await db.query(`
-      INSERT INTO games ( board_id )
-      VALUES ( $1 )
-      RETURNING *
-      `, [boardId]
-    );
+      let result : QueryResult<GameInterface> = await db.query(`
+        INSERT INTO games (
+          board_id, owner_id, is_private, max_players, continue_after_win, variant, power_ups
+        )
+        VALUES ( $1, $2, $3, $4, $5, $6, $7 )
+        RETURNING *
+        `, [
+          board.id,
+          ownerId,
+          options.isPrivate ?? false,
+          maxPlayers,
+          options.continueAfterWin ?? false,
+          variant,
+          powerUps
+        ]
+      );
 
-    let game = result.rows[0];
+      let game = result.rows[0];
 
-    game = await Game.get(game.id);
+      if (options.clock !== undefined) await Clock.create(game.id, options.clock);
+      if (options.isPrivate) await _assignJoinCode(game.id);
 
-    return game;
+      game = await Game.get(game.id);
+
+      return game;
+    });
   }
 
   /**
-   * Retrieves an array of all games with summary information
-   * Returns [{ id, gameState, createdOn }, ...]   *
+   * Checks whether a player (or null for anyone else) can see a game: every
+   * public game, and private games they own, play in or are invited to
+   * Throws NotFoundError if the game doesn't exist
+   */
+  static async isVisibleTo(gameId: string, playerId: string | null): Promise<boolean> {
+    const result: QueryResult<{ visible: boolean }> = await db.query(`
+        SELECT COALESCE(${_sqlVisibleTo("$2")}, FALSE) AS visible
+        FROM games
+        WHERE id = $1`, [gameId, playerId]);
+
+    if (result.rows.length === 0) throw new NotFoundError(`No game with id: ${gameId}`);
+    return result.rows[0].visible;
+  }
+
+  /**
+   * Retrieves a page of games with summary information
+   * Accepts optional filters like { visibleTo, gameState, playerId, height,
+   * width, createdAfter, createdBefore, sortBy, order, limit, cursor }
+   * - visibleTo: only include private games owned or played by (or
+   *   pending an invitation to) this player (null for none); all games are
+   *   included if it's left out
+   * - sortBy: createdOn (default) or gameState; order: asc (default) or desc
+   * - limit defaults to 25; cursor is the nextCursor of the previous page
+   * Returns { games, nextCursor } where games are like
+   * { id, gameState, boardHeight, boardWidth, isPrivate, createdOn, totalPlayers }
+   * and nextCursor is null on the last page
+   * Throws BadRequestError for an invalid cursor
    * */
-  static async getAll(): Promise<GameInterface[]> {
+  static async getAll(filters: GameFiltersInterface = {}): Promise<GamePageInterface> {
+    const {
+      sortBy = "createdOn",
+      order = "asc",
+      limit = DEFAULT_PAGE_LIMIT
+    } = filters;
+
+    const whereConditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (filters.visibleTo !== undefined) {
+      _addCondition(p => _sqlVisibleTo(p), filters.visibleTo);
+    }
+    if (filters.gameState !== undefined) {
+      _addCondition(p => `games.game_state = ${p}`, filters.gameState);
+    }
+    if (filters.playerId !== undefined) {
+      _addCondition(p => `EXISTS (
+          SELECT 1
+          FROM game_players AS players_filter
+          WHERE players_filter.game_id = games.id
+            AND players_filter.player_id = ${p})`, filters.playerId);
+    }
+    if (filters.height !== undefined) {
+      _addCondition(p => `boards.height = ${p}`, filters.height);
+    }
+    if (filters.width !== undefined) {
+      _addCondition(p => `boards.width = ${p}`, filters.width);
+    }
+    if (filters.createdAfter !== undefined) {
+      _addCondition(p => `games.created_on >= ${p}::timestamptz`, filters.createdAfter);
+    }
+    if (filters.createdBefore !== undefined) {
+      _addCondition(p => `games.created_on < ${p}::timestamptz`, filters.createdBefore);
+    }
 
-    const result: QueryResult<GameInterface> = await db.query(`
+    const sortColumn = GAME_SORT_COLUMNS[sortBy];
+    const keyset = sqlForKeysetPage(
+      sortColumn, order, "games.id", filters.cursor, values.length + 1
+    );
+    if (keyset.whereClause !== "") whereConditions.push(keyset.whereClause);
+    values.push(...keyset.values, limit + 1);
+
+    const whereClause = whereConditions.length > 0
+      ? `WHERE ${whereConditions.join(" AND ")}`
+      : "";
+
+    const result: QueryResult<GameSummaryInterface & { cursorValue: string }> =
+      await db.query(`
         SELECT
-          id,
-          game_state AS "gameState",
-          created_on AS "createdOn",
-          COUNT(game_players.game_id)::int AS "totalPlayers"
+          games.id,
+          games.game_state AS "gameState",
+          boards.height AS "boardHeight",
+          boards.width AS "boardWidth",
+          games.is_private AS "isPrivate",
+          games.created_on AS "createdOn",
+          COUNT(game_players.game_id)::int AS "totalPlayers",
+          ${sortColumn.column}::text AS "cursorValue"
         FROM games
+        LEFT JOIN boards ON games.board_id = boards.id
         LEFT JOIN game_players on games.id = game_players.game_id
-        GROUP BY games.id, games.game_state, games.created_on
-        ORDER BY created_on`
-    );
+        ${whereClause}
+        GROUP BY games.id, boards.id
+        ORDER BY ${keyset.orderBy}
+        LIMIT $${values.length}`, values
+      );
 
-    return result.rows;
+    const page = toPage(result.rows, limit, g => ({ value: g.cursorValue, id: g.id }));
+    const games = page.rows.map(({ cursorValue, ...game }) => game);
+    return { games, nextCursor: page.nextCursor };
+
+    /** Adds a condition for a filter; accepts a function which builds the
+     * condition from the placeholder for the filter's value */
+    function _addCondition(condition: (placeholder: string) => string, value: unknown) {
+      values.push(value);
+      whereConditions.push(condition(`$${values.length}`));
+    }
   }
 
   /**
    * Given a game id, return data about game.
    *
-   * Returns { ... game object ... }
+   * Returns { ... game object ... } including spectatorCount: the number of
+   * spectators currently watching (see Spectator.count)
    *
    * Throws NotFoundError if not found.
    **/
   static async get(gameId: string): Promise<GameInterface> {
-    const result: QueryResult<GameInterface> = await db.query(`
+    const result: QueryResult<Omit<GameInterface, "clock"> & ClockColumnsInterface> =
+      await db.query(`
         SELECT
           games.id,
           boards.id AS "boardId",
           boards.data AS "boardData",
           boards.width as "boardWidth",
           boards.height as "boardHeight",
+          boards.win_length as "winLength",
+          boards.topology,
+          boards.blocked_cells AS "blockedCells",
           games.game_state AS "gameState",
           games.placed_pieces AS "placedPieces",
           games.winning_set AS "winningSet",
           games.curr_player_id AS "currPlayerId",
+          games.undo_requested_by AS "undoRequestedBy",
+          games.draw_offered_by AS "drawOfferedBy",
+          games.end_reason AS "endReason",
+          games.clock_type AS "clockType",
+          games.clock_seconds AS "clockSeconds",
+          games.clock_increment_seconds AS "clockIncrementSeconds",
+          games.timeout_action AS "timeoutAction",
+          games.turn_started_on AS "turnStartedOn",
+          games.owner_id AS "ownerId",
+          games.is_private AS "isPrivate",
+          games.max_players AS "maxPlayers",
+          games.continue_after_win AS "continueAfterWin",
+          games.variant,
+          games.power_ups AS "powerUps",
+          games.series_id AS "seriesId",
+          games.rematch_of AS "rematchOf",
+          json_object_agg(game_players.player_id, game_players.time_remaining_ms)
+            FILTER (WHERE game_players.player_id IS NOT NULL) AS "timeRemainingMs",
           games.created_on AS "createdOn",
-          COUNT(game_players.game_id)::int as "totalPlayers"
+          COUNT(game_players.game_id)::int as "totalPlayers",
+          (SELECT COUNT(*)::int
+           FROM game_spectators
+           WHERE game_spectators.game_id = games.id
+             AND game_spectators.last_seen_on >
+               current_timestamp - make_interval(secs => $2)) AS "spectatorCount"
         FROM games
         LEFT OUTER JOIN game_players ON games.id = game_players.game_id
         LEFT JOIN boards ON games.board_id = boards.id
         WHERE games.id = $1
-        GROUP BY games.id, boards.id, boards.height, boards.width, boards.data,
+        GROUP BY games.id, boards.id, boards.height, boards.width, boards.data, boards.win_length,
+                  boards.topology, boards.blocked_cells,
                   games.game_state, games.placed_pieces, games.winning_set,
-                  games.curr_player_id, games.created_on
-    `, [gameId]);
-
-    const game = result.rows[0];
+                  games.curr_player_id, games.undo_requested_by, games.draw_offered_by,
+                  games.end_reason, games.clock_type,
+                  games.clock_seconds, games.clock_increment_seconds, games.timeout_action,
+                  games.turn_started_on, games.owner_id, games.is_private,
+                  games.max_players, games.continue_after_win, games.variant, games.power_ups, games.series_id,
+                  games.rematch_of, games.created_on
+    `, [gameId, SPECTATOR_ACTIVE_SECONDS]);
+
+    const row = result.rows[0];
     // console.log("game found:", game);
 
-    if (!game) throw new NotFoundError(`No game with id: ${gameId}`);
+    if (!row) throw new NotFoundError(`No game with id: ${gameId}`);
 
-    return game;
+    const {
+      clockType, clockSeconds, clockIncrementSeconds, timeoutAction,
+      turnStartedOn, timeRemainingMs, ...game
+    } = row;
+    const clock = Clock.build({
+      clockType, clockSeconds, clockIncrementSeconds, timeoutAction,
+      turnStartedOn, timeRemainingMs
+    }, game.currPlayerId);
+
+    return { ...game, clock };
   }
 
   /**
@@ -225,19 +603,12 @@ class Game {
   ) : Promise<GameInterface> {
 
     console.log("Game.update() called.");
-    const keys = Object.keys(gameUpdate);
-
-    // for every key (e.g. placedPieces)
-    // add 'key = $num' to an array
-    // join these elements of the clause together into a string with ', '
-    // start at 2 (0 + 2) so we reserve $1 for the game ID
-    // TODO: Convert camelCase to snake_case
 
-    const setClause = keys.map((key, index) => `${_.snakeCase(key)} = $${index + 2}`).join(', ');
-    const sqlQuery = `UPDATE games SET ${setClause} WHERE id = $1`;
+    // start at $2 so we reserve $1 for the game ID
+    const { setCols, values } = sqlForPartialUpdate(gameUpdate, 2);
+    const sqlQuery = `UPDATE games SET ${setCols} WHERE id = $1`;
     console.log("update sql query established:", sqlQuery);
 
-    const values = keys.map(key => gameUpdate[key as keyof GameUpdateInterface]);
     values.unshift(gameId);
     console.log("values for token replacement established:", values);
 
@@ -249,6 +620,61 @@ class Game {
     return game;
   }
 
+  /**
+   * Locks the given game's row until the surrounding transaction ends
+   * Other transactions locking the same game wait until then
+   * Must be called from within db.transaction()
+   * Throws NotFoundError if game not found.
+   */
+  static async lock(gameId: string): Promise<undefined> {
+    const result = await db.query(`
+        SELECT id
+        FROM games
+        WHERE id = $1
+        FOR UPDATE
+    `, [gameId]);
+
+    if (!result.rows[0]) throw new NotFoundError(`No game with id: ${gameId}`);
+  }
+
+  /**
+   * Retrieves a game's join code (only private games have one)
+   * Returns the code or null
+   * Throws NotFoundError if game not found.
+   **/
+  static async getJoinCode(gameId: string): Promise<string | null> {
+    const result: QueryResult<{ joinCode: string | null }> = await db.query(`
+        SELECT join_code AS "joinCode"
+        FROM games
+        WHERE id = $1`, [gameId]);
+
+    if (!result.rows[0]) throw new NotFoundError(`No game with id: ${gameId}`);
+    return result.rows[0].joinCode;
+  }
+
+  /**
+   * Adds a player to the (private) game w/ a join code; codes aren't case
+   * sensitive
+   * Returns { gameId, playerCount } w/ the updated count of players
+   * Throws NotFoundError if no game has the code
+   * Throws PlayerAlreadyExists if the player is already in the game
+   **/
+  static async joinWithCode(
+    joinCode: string,
+    playerId: string
+  ): Promise<{ gameId: string, playerCount: number }> {
+    const result: QueryResult<{ id: string }> = await db.query(`
+        SELECT id
+        FROM games
+        WHERE join_code = upper($1)`, [joinCode]);
+
+    const game = result.rows[0];
+    if (!game) throw new NotFoundError(`No game with join code: ${joinCode}`);
+
+    const playerCount = await Game.addPlayers(game.id, [playerId]);
+    return { gameId: game.id, playerCount };
+  }
+
   /**
    * Delete given game from database; returns undefined.   *
    * Throws NotFoundError if game not found.
@@ -266,6 +692,7 @@ class Game {
 
   /** Adds a player to an existing game
    * Throws error if game or player doesn't exist or player already added
+   * Throws GameFull if the players would exceed the game's maximum
    * Returns updated current player count if successful
    */
   static async addPlayers(gameId: string, players: string[]): Promise<number> {
@@ -278,61 +705,124 @@ class Game {
       i === players.length - 1 ? sqlQueryValues += `($1, $${i + 2})` : sqlQueryValues += `($1, $${i + 2}),`;
     }
 
-    try {
-      await db.query(
-        `
-        INSERT INTO game_players (game_id, player_id)
-        VALUES ${sqlQueryValues}
-        RETURNING
-          player_id as "playerId",
-          game_id as "gameId",
-          play_order as "playOrder"
-        `
-        , [gameId, ...players]
-      );
-    } catch (err: unknown) {
-      const postgresError = err as { code?: string, message: string; };
-      if (postgresError.code === '23505') {
-        throw new PlayerAlreadyExists(
-          `One or more players have already been added to game ${gameId}`
+    return await db.transaction(async () => {
+      // lock the game so concurrent joins can't exceed its maximum
+      await Game.lock(gameId);
+      const capacityResult: QueryResult<{ maxPlayers: number, totalPlayers: number }> =
+        await db.query(`
+          SELECT games.max_players AS "maxPlayers",
+                 COUNT(game_players.player_id)::int AS "totalPlayers"
+          FROM games
+          LEFT JOIN game_players ON game_players.game_id = games.id
+          WHERE games.id = $1
+          GROUP BY games.id`, [gameId]);
+
+      const { maxPlayers, totalPlayers } = capacityResult.rows[0];
+      if (totalPlayers + players.length > maxPlayers) {
+        throw new GameFull(`Game ${gameId} can have at most ${maxPlayers} players.`);
+      }
+
+      try {
+        await db.query(
+          `
+          INSERT INTO game_players (game_id, player_id)
+          VALUES ${sqlQueryValues}
+          RETURNING
+            player_id as "playerId",
+            game_id as "gameId",
+            play_order as "playOrder"
+          `
+          , [gameId, ...players]
         );
-      } else { throw err; }
-    }
+      } catch (err: unknown) {
+        const postgresError = err as { code?: string, message: string; };
+        if (postgresError.code === '23505') {
+          throw new PlayerAlreadyExists(
+            `One or more players have already been added to game ${gameId}`
+          );
+        } else if (postgresError.code === '23503') {
+          throw new NotFoundError(`No such game or one or more players not found.`);
+        } else { throw err; }
+      }
 
-    const result: QueryResult<CountResultInterface> = await db.query(`
-        SELECT COUNT(*)::int
-        FROM game_players
-        WHERE game_id = $1
-    `, [gameId]);
+      const result: QueryResult<CountResultInterface> = await db.query(`
+          SELECT COUNT(*)::int
+          FROM game_players
+          WHERE game_id = $1
+      `, [gameId]);
+
+      console.log("players added to game; new count:", result);
 
-    console.log("players added to game; new count:", result);
+      const newTotalPlayers = result.rows[0].count;
+      GameEvents.publish(gameId, "playerJoined", {
+        playerIds: players,
+        totalPlayers: newTotalPlayers
+      });
 
-    return result.rows[0].count;
+      return newTotalPlayers;
+    });
   }
 
   /**
    * Removes a player from a game; returns undefined.
+   * A player leaving a started game instead stays in its record and takes
+   * the last place left; if only one player is still playing, the game is
+   * abandoned (and won by whoever finished first), otherwise play continues
    * Throws NotFoundError if game or player not found.
    * Returns an updated count of players in the game if successful.
    **/
   static async removePlayer(gameId: string, playerId: string): Promise<number> {
-    const queryGPIResult: QueryResult<GamePlayersInterface> = await db.query(`
-        DELETE
-        FROM game_players
-        WHERE player_id = $1 AND game_id = $2
-        RETURNING player_id as "playerId"`, [playerId, gameId]);
-    const removedPlayer = queryGPIResult.rows[0];
+    const { totalPlayers, nextPlayer } = await db.transaction(async () => {
+      await Game.lock(gameId);
+      const game = await Game.get(gameId);
+
+      if (game.gameState === 1) {
+        const gamePlayers = await Game.getPlayers(gameId);
+        if (!gamePlayers.some(p => p.id === playerId)) {
+          throw new NotFoundError(`No such player or game.`);
+        }
 
-    if (!removedPlayer) throw new NotFoundError(`No such player or game.`);
+        const left = await _leaveGame(game, gamePlayers, playerId, {
+          gameState: 2,
+          endReason: "abandoned"
+        });
+        if (left.ended) {
+          GameEvents.publish(gameId, "gameAbandoned", {
+            abandonedBy: playerId,
+            winningPlayerId: left.winningPlayerId
+          });
+        }
 
-    const queryCRIResult: QueryResult<CountResultInterface> = await db.query(`
-        SELECT COUNT(*)::int
-        FROM game_players
-        WHERE game_id = $1
-    `, [gameId]);
-    console.log("result of getting count from game_players:", queryCRIResult);
+        return { totalPlayers: game.totalPlayers, nextPlayer: left.nextPlayer };
+      }
+
+      const queryGPIResult: QueryResult<GamePlayersInterface> = await db.query(`
+          DELETE
+          FROM game_players
+          WHERE player_id = $1 AND game_id = $2
+          RETURNING player_id as "playerId"`, [playerId, gameId]);
+      const removedPlayer = queryGPIResult.rows[0];
+
+      if (!removedPlayer) throw new NotFoundError(`No such player or game.`);
+
+      const queryCRIResult: QueryResult<CountResultInterface> = await db.query(`
+          SELECT COUNT(*)::int
+          FROM game_players
+          WHERE game_id = $1
+      `, [gameId]);
+      console.log("result of getting count from game_players:", queryCRIResult);
+
+      const totalPlayers = queryCRIResult.rows[0].count;
+      GameEvents.publish(gameId, "playerRemoved", { playerId, totalPlayers });
+
+      return { totalPlayers, nextPlayer: null };
+    });
+
+    if (nextPlayer !== null && nextPlayer.ai === true) {
+      await Player.takeTurn(gameId, nextPlayer.id);
+    }
 
-    return queryCRIResult.rows[0].count;
+    return totalPlayers;
   }
 
   /**
@@ -343,7 +833,9 @@ class Game {
     const sqlQuery = `
       SELECT
         ${SQLQueries.defaultPlayerCols},
-        game_players.play_order as "playOrder"
+        game_players.play_order as "playOrder",
+        game_players.final_place as "finalPlace",
+        game_players.power_ups as "powerUps"
       FROM players
       INNER JOIN game_players
       ON game_players.player_id = players.id
@@ -357,47 +849,82 @@ class Game {
 
   /** Starts a new game (conductor function)
    * - initializes (or resets) boards state
-   * - sets (or resets) play order
+   * - sets (or resets) play order: random unless a play order (the game's
+   *   player IDs, first mover first) is provided
+   * - gives each player the game's power-ups (powerUps games only)
    * - updates game state to started
    * - unless indicated otherwise, calls Game.nextTurn()
    * Throws error if:
    * - there are insufficient players to start a game
+   * - the play order doesn't match the game's players (BadRequestError)
    * - sub functions throw errors
    * Returns undefined
   */
-  static async start(gameId: string, nextTurn: boolean = true): Promise<undefined> {
+  static async start(
+    gameId: string,
+    nextTurn: boolean = true,
+    playOrder: string[] | null = null
+  ): Promise<undefined> {
 
     console.log("Game.start() called.");
 
-    const game = await Game.get(gameId);
+    let gamePlayers: GamePlayersInterface[] = [];
 
-    if (game.totalPlayers < 2) {
-      throw new TooFewPlayers(`Game (${gameId}) has too few players to be started.`);
-    }
+    const firstPlayer = await db.transaction(async () => {
+      await Game.lock(gameId);
+      const game = await Game.get(gameId);
 
-    const gamePlayers = await Game.getPlayers(gameId);
+      if (game.totalPlayers < 2) {
+        throw new TooFewPlayers(`Game (${gameId}) has too few players to be started.`);
+      }
+
+      gamePlayers = await Game.getPlayers(gameId);
 
-    // initialize a new game and start the first turn if directed to
-    await Board.reset(game.boardId);
+      // initialize a new game and start the first turn if directed to
+      await Board.reset(game.boardId);
 
-    await _setPlayOrder();
+      await _setPlayOrder();
+      await db.query(`
+          UPDATE game_players
+          SET power_ups = $2
+          WHERE game_id = $1`, [gameId, game.powerUps]);
+      await Clock.reset(gameId);
 
-    await Game.update(gameId, { gameState: 1} );
+      await Game.update(gameId, { gameState: 1} );
+      GameEvents.publish(gameId, "gameStarted");
 
-    if (nextTurn) await Game.nextTurn(gameId);
+      // an AI player's first turn waits until the game start is committed
+      return nextTurn ? await Game.nextTurn(gameId, false) : null;
+    });
+
+    if (firstPlayer !== null && firstPlayer.ai === true) {
+      await Player.takeTurn(gameId, firstPlayer.id);
+    }
     return undefined;
 
     /**
      * Internal function for Game.start()
      * Called as part of starting a new game to select play order
      * - Queries for all players in a game
-     * - Randomly sorts those players and selects one
+     * - Randomly sorts those players (unless given a play order) and selects one
      * - Sets play order based on sorted order and sets player at index 0
      * to be the current player
      */
     async function _setPlayOrder(): Promise<undefined> {
       let gamePlayerIds = gamePlayers.map(p => p.id);
-      const sortedGamePlayerIds = fisherSort(gamePlayerIds) as string[];
+      if (playOrder !== null && (
+        playOrder.length !== gamePlayerIds.length ||
+        !gamePlayerIds.every(id => playOrder.includes(id))
+      )) {
+        throw new BadRequestError("Play order must include each of the game's players once.");
+      }
+      const sortedGamePlayerIds = playOrder ?? fisherSort(gamePlayerIds) as string[];
+
+      // clear the standings of any previous play
+      await db.query(`
+          UPDATE game_players
+          SET final_place = NULL
+          WHERE game_id = $1`, [gameId]);
 
       console.log("playerIds after randomly sorting:", sortedGamePlayerIds);
 
@@ -414,12 +941,121 @@ class Game {
     }
   }
 
+  /**
+   * Creates a rematch of a finished game: a new game w/ the same settings,
+   * owner and players, which is then started
+   * The first mover is random unless swapFirstMover is set, in which case the
+   * play order rotates (the previous game's first player moves last)
+   * The games are linked as a series (see Game.getSeries); a game can only
+   * be rematched once
+   * Throws InvalidGameState if the game hasn't finished or was already
+   * rematched and TooFewPlayers if fewer than two of its players remain
+   * Returns the started rematch
+   */
+  static async rematch(gameId: string, swapFirstMover: boolean = false): Promise<GameInterface> {
+    console.log(`Game.rematch() called w/ gameId: ${gameId}, swapFirstMover: ${swapFirstMover}`);
+
+    const { rematchId, playOrder } = await db.transaction(async () => {
+      await Game.lock(gameId);
+      const game = await Game.get(gameId);
+      const gamePlayers = await Game.getPlayers(gameId);
+
+      if (game.gameState < 2) {
+        throw new InvalidGameState('Only a finished game can be rematched.');
+      }
+      const existing: QueryResult<{ id: string }> = await db.query(`
+          SELECT id
+          FROM games
+          WHERE rematch_of = $1`, [gameId]);
+      if (existing.rows[0]) {
+        throw new InvalidGameState(`Game ${gameId} was already rematched.`);
+      }
+      if (gamePlayers.length < 2) {
+        throw new TooFewPlayers(`Game (${gameId}) has too few players for a rematch.`);
+      }
+
+      const rematch = await Game.create(_getSettings(game), game.ownerId);
+      await Game.addPlayers(rematch.id, gamePlayers.map(p => p.id));
+
+      // a series is identified by its first game
+      const seriesId = game.seriesId ?? game.id;
+      if (game.seriesId === null) await Game.update(gameId, { seriesId });
+      await Game.update(rematch.id, { seriesId, rematchOf: gameId });
+
+      GameEvents.publish(gameId, "rematchCreated", { rematchId: rematch.id });
+
+      return {
+        rematchId: rematch.id,
+        playOrder: swapFirstMover ? _rotatePlayOrder(gamePlayers) : null
+      };
+    });
+
+    // like a newly matched game, the rematch is started once it's committed
+    await Game.start(rematchId, true, playOrder);
+    return await Game.get(rematchId);
+  }
+
+  /**
+   * Retrieves the series a game belongs to: the game it started from and
+   * every rematch since, oldest first
+   * Returns { seriesId, games, standings } where games are like { id,
+   * gameState, endReason, winnerId, createdOn } and standings are the
+   * players' head-to-head records over the finished games like { playerId,
+   * wins, losses, ties } (most wins first)
+   * seriesId is null for a game which was never rematched
+   * Throws NotFoundError if game not found.
+   */
+  static async getSeries(gameId: string): Promise<GameSeriesInterface> {
+    const game = await Game.get(gameId);
+    const gamePlayers = await Game.getPlayers(gameId);
+
+    // games can share a creation time, so they're ordered by following the
+    // rematches from the first game
+    const result: QueryResult<SeriesGameInterface> = await db.query(`
+        WITH RECURSIVE series AS (
+            SELECT games.*, 0 AS position
+            FROM games
+            WHERE id = $1
+          UNION ALL
+            SELECT games.*, series.position + 1
+            FROM games
+            INNER JOIN series ON games.rematch_of = series.id
+        )
+        SELECT
+          id,
+          game_state AS "gameState",
+          end_reason AS "endReason",
+          CASE WHEN game_state IN (2, 4) THEN curr_player_id END AS "winnerId",
+          created_on AS "createdOn"
+        FROM series
+        ORDER BY position`, [game.seriesId ?? game.id]);
+    const games = result.rows;
+
+    const standings: SeriesStandingInterface[] = gamePlayers.map(p => ({
+      playerId: p.id, wins: 0, losses: 0, ties: 0
+    }));
+    for (let seriesGame of games.filter(g => g.gameState >= 2)) {
+      for (let standing of standings) {
+        if (seriesGame.winnerId === null) standing.ties++;
+        else if (seriesGame.winnerId === standing.playerId) standing.wins++;
+        else standing.losses++;
+      }
+    }
+    standings.sort((a, b) => b.wins - a.wins);
+
+    return { seriesId: game.seriesId, games, standings };
+  }
+
   /**
    * Initializes a new turn for a given game; accepts the id of that game
-   * Updates current player and if it's an AI, calls that player's aiTakeTurn()
-   * Returns undefined
+   * Updates current player and if it's an AI, calls that player's takeTurn()
+   * unless instructed not to (e.g. when the caller is still in a transaction)
+   * Returns the new current player
    */
-  static async nextTurn(gameId: string) {
+  static async nextTurn(
+    gameId: string,
+    takeAiTurn: boolean = true
+  ): Promise<GamePlayersInterface> {
     console.log("Game.nextTurn called w/ gameId:", gameId);
     /**
      * Core Logic:
@@ -434,15 +1070,21 @@ class Game {
     let gamePlayers = await Game.getPlayers(gameId);
     let currPlayerId = game.currPlayerId;
 
-    // update current player
+    // update current player and start timing their turn
     const nextPlayer = await _updateCurrentPlayer(gamePlayers);
-    if (nextPlayer.ai === true) { await Player.takeTurn(gameId, nextPlayer.id); }
+    await Clock.startTurn(gameId);
+    if (takeAiTurn && nextPlayer.ai === true) {
+      await Player.takeTurn(gameId, nextPlayer.id);
+    }
+
+    return nextPlayer;
 
     /**
      * Internal function for Game.nextTurn()
      * Updates the current player
      * - If there is no current player (new game), sets it to play order 0
-     * - If it's the last player in player order, sets it to play order 0
+     * - Otherwise, sets it to the next player in play order (wrapping around
+     *   to the start), skipping players who have already finished
      */
     async function _updateCurrentPlayer(gamePlayers : GamePlayersInterface[]): Promise<GamePlayersInterface> {
 
@@ -451,8 +1093,8 @@ class Game {
         p => p.id === currPlayerId
       );
 
-      // if current player is not set or last player, next player is the turn 0 player
-      if (currPlayer === undefined || currPlayer.playOrder === gamePlayers.length - 1) {
+      // if current player is not set, next player is the turn 0 player
+      if (currPlayer === undefined) {
 
         const turnZeroPlayer = gamePlayers.find(p => p.playOrder === 0);
         if (turnZeroPlayer === undefined) {
@@ -464,23 +1106,7 @@ class Game {
 
       } else {
 
-        // we are not the last player, so just go to next player in order
-        const currPlayerPlayOrder = currPlayer.playOrder;
-
-        if (currPlayerPlayOrder === null) {
-          throw new Error("Player play order improperly initialized.");
-        }
-
-        const potentialNextPlayer = gamePlayers.find(
-          o => o.playOrder === currPlayerPlayOrder + 1
-        );
-
-        if (potentialNextPlayer === undefined) {
-          throw new Error("Unable to find next player.");
-        }
-
-        // next player is simply the next player in play order
-        nextPlayer = potentialNextPlayer;
+        nextPlayer = _getNextPlayer(gamePlayers, currPlayer.id);
 
       }
 
@@ -494,6 +1120,7 @@ class Game {
       `, [gameId, nextPlayer.id]);
 
       console.log("game updated w/ curr player set:", queryGIResult.rows[0]);
+      GameEvents.publish(gameId, "currentPlayerChanged", { currPlayerId: nextPlayer.id });
 
       return nextPlayer;
     }
@@ -502,70 +1129,295 @@ class Game {
   }
 
   /**
-   * Retrieves the game turns for a given game ID
-   * Game turns are an array of { id, playerId, gameId, location, createOnEpoch }
-   * If not no game turns exist, returns null
+   * Retrieves the game turns for a given game ID and optionally a specific player
+   * Game turns are an array of { turnId, playerId, gameId, location, createdOnEpoch }
+   * If not no game turns exist, returns an empty array
    */
-  static async getTurns(gameId: string): Promise<GameTurnInterface[]> {
+  static async getTurns(gameId: string, playerId?: string): Promise<TurnInterface[]> {
     // console.log("getTurns() called");
-    const turns = await Turn.getAll(gameId);
+    const turns = await Turn.getAll(gameId, playerId);
     return turns;
   }
 
+  /**
+   * Rebuilds the state of a game after a given number of turns by replaying
+   * that many turns onto a freshly initialized board
+   * If no turn number is provided, replays every turn
+   * Returns { gameId, turnNumber, totalTurns, gameState, boardData,
+   * placedPieces, winningSet, lastTurn }
+   * Throws NotFoundError if game not found and BadRequestError if the game
+   * has fewer turns than the turn number
+   */
+  static async replay(gameId: string, turnNumber?: number): Promise<GameReplayInterface> {
+    const game = await Game.get(gameId);
+    const turns = await Turn.getAll(gameId);
+
+    if (turnNumber === undefined) turnNumber = turns.length;
+    if (turnNumber > turns.length) {
+      throw new BadRequestError(
+        `Game ${gameId} has only ${turns.length} turns; can't replay turn ${turnNumber}.`
+      );
+    }
+
+    const boardData = Board.initializeBoardData(
+      { height: game.boardHeight, width: game.boardWidth },
+      game.winLength,
+      game.topology,
+      game.blockedCells
+    );
+    const replayedTurns = turns.slice(0, turnNumber);
+    const placedPieces = _applyTurns(boardData, replayedTurns);
+
+    // determine whether the game had ended at this point in the replay
+    let replayedGame: GameInterface = {
+      ...game,
+      gameState: game.gameState === 0 ? 0 : 1,
+      boardData,
+      placedPieces,
+      winningSet: null
+    };
+    if (placedPieces.length > 0) replayedGame = Game.checkForGameEnd(replayedGame);
+
+    // PopOut and powerUps games go on after the board fills up if a player
+    // can pop (or use an anvil)
+    if (replayedGame.gameState === 3 &&
+      (game.variant === "popOut" || game.variant === "powerUps") &&
+      turnNumber < turns.length) {
+      replayedGame.gameState = 1;
+    }
+
+    // games can end w/o a winning move (e.g. a resignation), so the last
+    // turn shows how the game actually ended
+    if (game.gameState > 1 && turnNumber === turns.length) {
+      replayedGame.gameState = game.gameState;
+    }
+
+    return {
+      gameId,
+      turnNumber,
+      totalTurns: turns.length,
+      gameState: replayedGame.gameState,
+      boardData,
+      placedPieces,
+      winningSet: replayedGame.winningSet,
+      lastTurn: replayedTurns.length > 0 ? replayedTurns[replayedTurns.length - 1] : null
+    };
+  }
+
   /**
    * Attempts to drop a piece on behalf of a player at a given column
-   * Accepts a game ID, player ID and column to drop in
+   * (see Game.makeMove)
+   * Returns the updated game
+   */
+  static async dropPiece(gameId: string, playerId: string, col: number) : Promise<GameInterface> {
+    return await Game.makeMove(gameId, playerId, col, "drop");
+  }
+
+  /**
+   * Attempts to pop one of a player's pieces out of the bottom row of a
+   * given column, moving the column's other pieces down (PopOut games only;
+   * see Game.makeMove)
+   * A pop can connect pieces for any player: if it connects the popping
+   * player's pieces they win (even if it also connects another player's),
+   * otherwise a player whose pieces it connects wins
+   * Throws InvalidPiecePlacement if the game isn't a PopOut game or the
+   * bottom piece isn't the player's
+   * Returns the updated game
+   */
+  static async popPiece(gameId: string, playerId: string, col: number) : Promise<GameInterface> {
+    return await Game.makeMove(gameId, playerId, col, "pop");
+  }
+
+  /**
+   * Attempts to use one of a player's power-ups at a given column (powerUps
+   * games only; see Game.makeMove):
+   * - anvil: clears every piece in the column (even a full one) and lands on
+   *   the bottom as the player's piece
+   * - wall: drops a neutral piece which counts for no one
+   * - bomb: drops and removes the opponent piece at the target [y, x]
+   *   location, which must be next to (incl. diagonally) where the bomb
+   *   lands; the bomb is used up and the pieces above the target fall
+   * Like a pop, a power-up can connect pieces for any player
+   * Throws InvalidPiecePlacement if the game isn't a powerUps game, the
+   * column is full (for walls and bombs) or a bomb's target is invalid and
+   * PowerUpUnavailable if the player has none of the power-up left
+   * Returns the updated game
+   */
+  static async usePowerUp(
+    gameId: string,
+    playerId: string,
+    col: number,
+    powerUp: PowerUpType,
+    target: number[] | null = null
+  ) : Promise<GameInterface> {
+    return await Game.makeMove(gameId, playerId, col, powerUp, target);
+  }
+
+  /**
+   * Attempts to make a move on behalf of a player at a given column: drop a
+   * piece in it, pop one out of it or use a power-up
+   * Accepts a game ID, player ID, column, move type and (for bombs) target
    * If successful, adds turn record and checks for game end
    * If game is not over, starts next turn (to switch to next player)
-   * Returns true if the drop was successful, otherwise false   *
+   * The move is applied in a single transaction while holding a lock on the
+   * game's row, so concurrent moves for the same game are serialized
+   * In PopOut games, a full board is only a tie if the next player has no
+   * piece to pop (in powerUps games, no anvil)
+   * Throws MoveConflict if another move landed while this one was waiting
+   * Returns the updated game w/ the next player as its current player (an
+   * AI player's reply isn't included)
    */
-  static async dropPiece(gameId: string, playerId: string, col: number) : Promise<GameInterface> {
+  static async makeMove(
+    gameId: string,
+    playerId: string,
+    col: number,
+    moveType: MoveType,
+    target: number[] | null = null
+  ) : Promise<GameInterface> {
     /**
      * Core Logic:
-     * - determine validity of drop
-     * - place piece if valid (update board state)
+     * - lock the game and determine validity of move
+     * - place (or pop) piece or use power-up if valid (update board state)
      * - add game turn record
      * - check for end game:
      * -- if end game, update state accordingly and you're done
      * -- if game is not ended, call nextTurn for provide gameId
+     * - once committed, if the next player is an AI, let it take its turn
      */
-    console.log(`dropPiece() called with
-      gameId: ${gameId}, playerId: ${playerId}, col: ${col}`
+    console.log(`makeMove() called with
+      gameId: ${gameId}, playerId: ${playerId}, col: ${col}, moveType: ${moveType}`
     );
 
-    let game = await Game.get(gameId);
-    const validGame = _validateGameState(game);
+    // snapshot of the game before waiting on the lock; if the placed pieces
+    // change while we wait, another move beat this one
+    const snapshot = await Game.get(gameId);
 
-    if (col < 0 || col > validGame.boardWidth - 1) {
-      throw new InvalidPiecePlacement('Specified column is out of bounds.');
-    }
+    const { game, nextPlayer } = await db.transaction(async () => {
+      await Game.lock(gameId);
 
-    const targetRow = _findEmptyCellInColumn(validGame, col);
+      let game = await Game.get(gameId);
+      if (_piecesKey(game) !== _piecesKey(snapshot)) {
+        throw new MoveConflict(
+          `Game ${gameId} was updated by another move; refresh and try again.`
+        );
+      }
 
-    const pieceLocation = [targetRow, col];
+      const validGame = _validateGameState(game);
 
-    await _addToBoard(validGame, playerId, pieceLocation);
-    await _addToPlacedPieces(validGame, pieceLocation);
+      if (col < 0 || col > validGame.boardWidth - 1) {
+        throw new InvalidPiecePlacement('Specified column is out of bounds.');
+      }
 
-    await Turn.create(gameId, playerId, pieceLocation);
+      let pieceLocation: number[];
+      let effect: TurnEffectInterface | null = null;
+      if (moveType === "pop") {
+        _validatePop(validGame, col);
+        pieceLocation = [validGame.boardHeight - 1, col];
+
+        Board.popPiece(validGame.boardData, col);
+        await Board.update(validGame.boardId, validGame.boardData);
+        await _removeFromPlacedPieces(validGame, pieceLocation);
+      } else if (moveType === "drop") {
+        const targetRow = _findEmptyCellInColumn(validGame, col);
+        pieceLocation = [targetRow, col];
+
+        await _addToBoard(validGame, playerId, pieceLocation);
+        await _addToPlacedPieces(validGame, pieceLocation);
+      } else {
+        ({ location: pieceLocation, effect } = _planPowerUp(validGame, col, moveType));
+        if (!await _adjustPowerUp(gameId, playerId, moveType, -1)) {
+          throw new PowerUpUnavailable(`${playerId} has no ${moveType} power-ups left.`);
+        }
 
-    // board updated so let's refresh in-memory state in prep for checking game end
-    game = await Game.get(gameId);
+        // the board and placed pieces are updated the same way replays are
+        validGame.placedPieces = _applyTurn(validGame.boardData, validGame.placedPieces ?? [], {
+          playerId, location: pieceLocation, moveType, effect
+        });
+        await Board.update(validGame.boardId, validGame.boardData);
+        await Game.update(gameId, { placedPieces: validGame.placedPieces });
+      }
 
-    game = Game.checkForGameEnd(game);
+      await Turn.create(gameId, playerId, pieceLocation, moveType, effect);
+      await Clock.endTurn(gameId, playerId);
+      if (moveType === "drop" || moveType === "pop") {
+        GameEvents.publish(
+          gameId,
+          moveType === "pop" ? "piecePopped" : "pieceDropped",
+          { playerId, location: pieceLocation }
+        );
+      } else {
+        GameEvents.publish(gameId, "powerUpUsed", {
+          playerId,
+          powerUp: moveType,
+          location: pieceLocation,
+          removed: effect?.removed ?? []
+        });
+      }
 
-    // console.log("checkForGameEnd() called and updated game is:", game);
+      // making a move implicitly declines any pending undo request
+      if (validGame.undoRequestedBy !== null) {
+        await Game.update(gameId, { undoRequestedBy: null });
+      }
 
-    await _refreshGameState(game);
+      // ...and any draw offered by another player
+      if (validGame.drawOfferedBy !== null && validGame.drawOfferedBy !== playerId) {
+        await Game.update(gameId, { drawOfferedBy: null });
+        GameEvents.publish(gameId, "drawDeclined", {
+          offeredBy: validGame.drawOfferedBy,
+          declinedBy: playerId
+        });
+      }
+
+      // board updated so let's refresh in-memory state in prep for checking game end
+      game = await Game.get(gameId);
+
+      const gamePlayers = await Game.getPlayers(gameId);
+      const finishedPlayerIds = gamePlayers
+        .filter(p => p.finalPlace !== null)
+        .map(p => p.id);
+      if (moveType !== "drop") {
+        // the moving player's own connection counts first
+        const otherPlayerIds = gamePlayers
+          .filter(p => p.id !== playerId)
+          .map(p => p.id);
+        game = Game.checkForGameEnd(game, [...finishedPlayerIds, ...otherPlayerIds]);
+      }
+      // ...then the other players' (a move on a full board isn't a tie if it
+      // connects someone else's pieces)
+      if (game.gameState !== 2) game = Game.checkForGameEnd(game, finishedPlayerIds);
+
+      // in PopOut games, the next player can pop instead of dropping (and
+      // in powerUps games, use an anvil)
+      if (game.gameState === 3 &&
+        (game.variant === "popOut" || game.variant === "powerUps") &&
+        _canMoveOnFullBoard(game, _getNextPlayer(gamePlayers, playerId))) {
+        game.gameState = 1;
+      }
 
-    if (game.gameState === 1) {
-      console.log("Game has not ended so calling nextTurn()");
-      // start the next turn
-      await Game.nextTurn(gameId);
+      // console.log("checkForGameEnd() called and updated game is:", game);
+
+      await _refreshGameState(game, gamePlayers);
+
+      let nextPlayer: GamePlayersInterface | null = null;
+      if (game.gameState === 1) {
+        console.log("Game has not ended so calling nextTurn()");
+        // start the next turn; an AI player's turn waits until we've committed
+        nextPlayer = await Game.nextTurn(gameId, false);
+      }
+
+      return { game: await Game.get(gameId), nextPlayer };
+    });
+
+    if (nextPlayer !== null && nextPlayer.ai === true) {
+      await Player.takeTurn(gameId, nextPlayer.id);
     }
 
     return game;
 
+    function _piecesKey(game : GameInterface): string {
+      return JSON.stringify(game.placedPieces ?? []);
+    }
+
     /** Validates games is in state where a piece can be dropped by the current player. */
     function _validateGameState(game : GameInterface): StartedGameInterface {
       if (game === null) throw new NotFoundError(`No game with id: ${gameId}`);
@@ -578,6 +1430,56 @@ class Game {
       return game as StartedGameInterface;
     }
 
+    /** Validates the current player can pop a piece out of a given column */
+    function _validatePop(validGame : StartedGameInterface, col: number): undefined {
+      if (validGame.variant !== "popOut") {
+        throw new InvalidPiecePlacement('Pieces can only be popped out in PopOut games.');
+      }
+      if (validGame.boardData[validGame.boardHeight - 1][col].playerId !== playerId) {
+        throw new InvalidPiecePlacement('Players can only pop out their own pieces.');
+      }
+    }
+
+    /**
+     * Works out where a power-up lands and which pieces it removes
+     * Throws InvalidPiecePlacement if the game isn't a powerUps game, the
+     * column is full (except for anvils) or a bomb's target isn't an
+     * opponent's piece next to where the bomb lands
+     */
+    function _planPowerUp(
+      validGame : StartedGameInterface,
+      col: number,
+      powerUp: PowerUpType
+    ): { location: number[], effect: TurnEffectInterface | null } {
+      if (validGame.variant !== "powerUps") {
+        throw new InvalidPiecePlacement('Power-ups can only be used in powerUps games.');
+      }
+
+      if (powerUp === "anvil") {
+        const removed = validGame.boardData
+          .map((row, y) => [y, col])
+          .filter(([y, x]) => validGame.boardData[y][x].playerId !== null);
+        return { location: [validGame.boardHeight - 1, col], effect: { removed } };
+      }
+
+      const row = _findEmptyCellInColumn(validGame, col);
+      if (powerUp === "wall") return { location: [row, col], effect: null };
+
+      const [targetY, targetX] = target ?? [];
+      const targetPlayerId = validGame.boardData[targetY]?.[targetX]?.playerId ?? null;
+      if (
+        Math.max(Math.abs(targetY - row), Math.abs(targetX - col)) !== 1 ||
+        targetPlayerId === null ||
+        targetPlayerId === playerId ||
+        targetPlayerId === WALL_PIECE
+      ) {
+        throw new InvalidPiecePlacement(
+          'A bomb must target an opponent piece next to where it lands.'
+        );
+      }
+      return { location: [row, col], effect: { removed: [[targetY, targetX]] } };
+    }
+
     /* Finds an empty row in a given column to place a piece. */
     function _findEmptyCellInColumn(
       validGame : StartedGameInterface,
@@ -585,27 +1487,14 @@ class Game {
     ): number {
 
       console.log(`_findEmptyCellInColumn(${col}) called.`);
-      // check if the column is full and return 'null' if true
-      if (validGame.boardData[0][col].playerId !== null) {
+      // pieces settle on top of the first piece or blocked cell they reach
+      const row = Board.findDropRow(Board.toPieceMatrix(validGame.boardData), col);
+      if (row === null) {
         throw new InvalidPiecePlacement('Column is full.');
       }
 
-      let row = 0; // start at first row
-
-      // loop through rows top to bottom until we either:
-      // -- find a non-null cell (and return the slot above)
-      // -- reach the last cell and return it
-      while (row < validGame.boardHeight) {
-        if (validGame.boardData[row][col].playerId !== null) {
-          // console.log("found a piece at row, col", row, " ", col);
-          // console.log("returning the row above:", row - 1);
-          console.log(`returning ${row} - 1.`);
-          return row - 1;
-        }
-        row++;
-      }
-      //console.log(`returning validGame.boardHeight (${validGame.boardHeight}) - 1:`, validGame.boardHeight - 1);
-      return validGame.boardHeight - 1;
+      console.log(`returning ${row}.`);
+      return row;
     }
 
     /**
@@ -638,31 +1527,373 @@ class Game {
 
     }
 
-    /** Refreshes DB game state based on in-memory game state. Sets winning set if won. */
-    async function _refreshGameState(game : GameInterface) : Promise<undefined> {
+    /** Removes a popped out piece from the placed pieces for the specified game */
+    async function _removeFromPlacedPieces(
+      game: GameInterface,
+      location: number[]
+    ) : Promise<undefined> {
+      game.placedPieces = _removePlacedPiece(game.placedPieces ?? [], location);
+      await Game.update(game.id, { placedPieces: game.placedPieces });
+    }
+
+    /** Refreshes DB game state based on in-memory game state. Sets winning set if won.
+     * In games which continue after a win, the winner finishes in the next
+     * place and play continues (the in-memory game is set back to started)
+     * while at least two players are still playing and the board isn't full
+     */
+    async function _refreshGameState(
+      game : GameInterface,
+      gamePlayers : GamePlayersInterface[]
+    ) : Promise<undefined> {
+      // players who left take the last places, so only a player who
+      // connected can have first place
+      const hasWinner = gamePlayers.some(p => p.finalPlace === 1);
+
       if (game.gameState === 2) {
         if (game.currPlayerId !== playerId) {
           throw new Error("Game is won, but not by current player. Something went wrong.");
         }
+
+        if (game.continueAfterWin) {
+          const place = _getNextPlace(gamePlayers);
+          GameEvents.publish(game.id, "playerFinished", {
+            playerId,
+            place,
+            winningSet: game.winningSet
+          });
+
+          const stillPlaying = gamePlayers.filter(
+            p => p.finalPlace === null && p.id !== playerId
+          );
+          if (stillPlaying.length > 1 && !_isBoardFull(game.boardData)) {
+            console.log("player finished but the game continues");
+            await _setFinalPlace(game.id, playerId, place);
+            // the game's winning set is the first winner's
+            if (place === 1) await Game.update(game.id, { winningSet: game.winningSet });
+            game.gameState = 1;
+            return;
+          }
+        }
+
+        // a pop (see Game.popPiece) can connect another player's pieces
+        const [winY, winX] = (game.winningSet as number[][])[0];
+        const winningPlayerId = game.boardData[winY][winX].playerId;
+
         console.log("updating game gameState in DB since winner was found");
-        await Game.update(game.id, { winningSet: game.winningSet, gameState: 2 })
+        await _endGame(game.id, {
+          gameState: 2,
+          endReason: "connect",
+          winningPlayerId,
+          winningSet: hasWinner ? undefined : game.winningSet
+        });
+        const endedGame = await Game.get(game.id);
+        GameEvents.publish(game.id, "gameWon", {
+          winningPlayerId: endedGame.currPlayerId,
+          winningSet: endedGame.winningSet
+        });
       }
 
-      // check for tie
+      // check for tie; once a player has finished, the game is theirs
       if (game.gameState === 3) {
         console.log("updating game gameState in DB since tie was found");
-        await Game.update(game.id, { gameState: 3 })
+        await _endGame(game.id, {
+          gameState: 3,
+          endReason: "boardFull",
+          winningPlayerId: null
+        });
+        if (hasWinner) {
+          const endedGame = await Game.get(game.id);
+          GameEvents.publish(game.id, "gameWon", {
+            winningPlayerId: endedGame.currPlayerId,
+            winningSet: endedGame.winningSet
+          });
+        } else {
+          GameEvents.publish(game.id, "gameTied");
+        }
         return;
       }
     }
   }
 
+  /**
+   * Requests to undo (take back) the specified player's last move
+   * The other players must consent via Game.respondToUndo(), unless they
+   * are all AI players, in which case the undo is applied right away
+   * Throws UndoNotAllowed if the game isn't started, an undo is already
+   * pending or the player hasn't made a move to undo
+   * Returns the updated game
+   */
+  static async requestUndo(gameId: string, playerId: string): Promise<GameInterface> {
+    console.log(`Game.requestUndo() called w/ gameId: ${gameId}, playerId: ${playerId}`);
+
+    return await db.transaction(async () => {
+      await Game.lock(gameId);
+      const game = await Game.get(gameId);
+      const gamePlayers = await Game.getPlayers(gameId);
+
+      _validatePlayerInGame(gamePlayers, playerId);
+      if (game.gameState !== 1) {
+        throw new UndoNotAllowed('Moves can only be undone in a started game.');
+      }
+      if (game.undoRequestedBy !== null) {
+        throw new UndoNotAllowed('An undo has already been requested.');
+      }
+      if (gamePlayers.some(p => p.finalPlace !== null)) {
+        throw new UndoNotAllowed('Moves can not be undone once a player has finished.');
+      }
+      const playerTurns = await Turn.getAll(gameId, playerId);
+      if (playerTurns.length === 0) {
+        throw new UndoNotAllowed(`${playerId} has no moves to undo.`);
+      }
+
+      await Game.update(gameId, { undoRequestedBy: playerId });
+      GameEvents.publish(gameId, "undoRequested", { requestedBy: playerId });
+
+      // AI opponents always consent
+      const opponents = gamePlayers.filter(p => p.id !== playerId);
+      if (opponents.every(p => p.ai === true)) {
+        return await _undoLastMove(gameId, playerId);
+      }
+
+      return await Game.get(gameId);
+    });
+  }
+
+  /**
+   * Accepts or declines a pending undo request on behalf of another player
+   * in the game. Accepting rolls the game back to just before the requesting
+   * player's last move (removing any moves made since) and makes the
+   * requesting player the current player again.
+   * Throws UndoNotAllowed if no undo is pending and ForbiddenError if the
+   * responding player isn't in the game or made the request
+   * Returns the updated game
+   */
+  static async respondToUndo(
+    gameId: string,
+    playerId: string,
+    accept: boolean
+  ): Promise<GameInterface> {
+    console.log(`Game.respondToUndo() called w/ gameId: ${gameId}, accept: ${accept}`);
+
+    return await db.transaction(async () => {
+      await Game.lock(gameId);
+      const game = await Game.get(gameId);
+      const gamePlayers = await Game.getPlayers(gameId);
+
+      _validatePlayerInGame(gamePlayers, playerId);
+      if (game.undoRequestedBy === null) {
+        throw new UndoNotAllowed('There is no pending undo request.');
+      }
+      if (game.undoRequestedBy === playerId) {
+        throw new ForbiddenError('Players can not respond to their own undo request.');
+      }
+
+      if (accept) return await _undoLastMove(gameId, game.undoRequestedBy);
+
+      await Game.update(gameId, { undoRequestedBy: null });
+      GameEvents.publish(gameId, "undoDeclined", {
+        requestedBy: game.undoRequestedBy,
+        declinedBy: playerId
+      });
+      return await Game.get(gameId);
+    });
+  }
+
+  /**
+   * Resigns a started game on behalf of one of its players, who takes the
+   * last place left (see _leaveGame); once only one player is still playing
+   * the game ends and is won by them (i.e. the opponent in a two-player
+   * game), otherwise play continues w/o the player
+   * Throws InvalidGameState if the game isn't started and ForbiddenError if
+   * the player isn't in the game
+   * Returns the updated game
+   */
+  static async resign(gameId: string, playerId: string): Promise<GameInterface> {
+    console.log(`Game.resign() called w/ gameId: ${gameId}, playerId: ${playerId}`);
+
+    const { resignedGame, nextPlayer } = await db.transaction(async () => {
+      await Game.lock(gameId);
+      const game = await Game.get(gameId);
+      const gamePlayers = await Game.getPlayers(gameId);
+
+      _validatePlayerInGame(gamePlayers, playerId);
+      if (game.gameState !== 1) {
+        throw new InvalidGameState('Only a started game can be resigned.');
+      }
+      _validatePlayerStillPlaying(gamePlayers, playerId);
+
+      const left = await _leaveGame(game, gamePlayers, playerId, {
+        gameState: 2,
+        endReason: "resignation"
+      });
+      GameEvents.publish(gameId, "playerResigned", {
+        resignedBy: playerId,
+        winningPlayerId: left.winningPlayerId
+      });
+
+      return { resignedGame: await Game.get(gameId), nextPlayer: left.nextPlayer };
+    });
+
+    if (nextPlayer !== null && nextPlayer.ai === true) {
+      await Player.takeTurn(gameId, nextPlayer.id);
+      return await Game.get(gameId);
+    }
+    return resignedGame;
+  }
+
+  /**
+   * Offers a draw on behalf of a player in a started game; another player
+   * can accept or decline it (see Game.respondToDraw)
+   * AI players never agree to a draw, so offers to them are declined
+   * Throws DrawNotAllowed if the game isn't started or a draw is already
+   * offered and ForbiddenError if the player isn't in the game
+   * Returns the updated game like { id, drawOfferedBy, ... }
+   */
+  static async offerDraw(gameId: string, playerId: string): Promise<GameInterface> {
+    console.log(`Game.offerDraw() called w/ gameId: ${gameId}, playerId: ${playerId}`);
+
+    return await db.transaction(async () => {
+      await Game.lock(gameId);
+      const game = await Game.get(gameId);
+      const gamePlayers = await Game.getPlayers(gameId);
+
+      _validatePlayerInGame(gamePlayers, playerId);
+      if (game.gameState !== 1) {
+        throw new DrawNotAllowed('Draws can only be offered in a started game.');
+      }
+      if (game.drawOfferedBy !== null) {
+        throw new DrawNotAllowed('A draw has already been offered.');
+      }
+      _validatePlayerStillPlaying(gamePlayers, playerId);
+
+      GameEvents.publish(gameId, "drawOffered", { offeredBy: playerId });
+
+      const opponents = gamePlayers.filter(p => p.id !== playerId);
+      if (opponents.every(p => p.ai === true)) {
+        GameEvents.publish(gameId, "drawDeclined", {
+          offeredBy: playerId,
+          declinedBy: opponents[0].id
+        });
+        return game;
+      }
+
+      await Game.update(gameId, { drawOfferedBy: playerId });
+      return await Game.get(gameId);
+    });
+  }
+
+  /**
+   * Accepts or declines a pending draw offer on behalf of another player in
+   * the game. Accepting ends the game as a tie (state 3).
+   * Throws DrawNotAllowed if no draw is offered and ForbiddenError if the
+   * responding player isn't in the game or made the offer
+   * Returns the updated game
+   */
+  static async respondToDraw(
+    gameId: string,
+    playerId: string,
+    accept: boolean
+  ): Promise<GameInterface> {
+    console.log(`Game.respondToDraw() called w/ gameId: ${gameId}, accept: ${accept}`);
+
+    return await db.transaction(async () => {
+      await Game.lock(gameId);
+      const game = await Game.get(gameId);
+      const gamePlayers = await Game.getPlayers(gameId);
+
+      _validatePlayerInGame(gamePlayers, playerId);
+      if (game.drawOfferedBy === null) {
+        throw new DrawNotAllowed('There is no pending draw offer.');
+      }
+      if (game.drawOfferedBy === playerId) {
+        throw new ForbiddenError('Players can not respond to their own draw offer.');
+      }
+
+      if (accept) {
+        await _endGame(gameId, {
+          gameState: 3,
+          endReason: "drawAgreed",
+          winningPlayerId: null
+        });
+        GameEvents.publish(gameId, "drawAgreed", {
+          offeredBy: game.drawOfferedBy,
+          acceptedBy: playerId
+        });
+      } else {
+        await Game.update(gameId, { drawOfferedBy: null });
+        GameEvents.publish(gameId, "drawDeclined", {
+          offeredBy: game.drawOfferedBy,
+          declinedBy: playerId
+        });
+      }
+
+      return await Game.get(gameId);
+    });
+  }
+
+  /**
+   * Applies a game's timeout action if its current player has run out of
+   * time on the turn clock (called by the scheduler):
+   * - forfeit: the player takes the last place left (see _leaveGame); once
+   *   only one player is still playing, the game is won on time (state 4) by
+   *   them (i.e. the opponent in a two-player game)
+   * - randomMove: once the timeout is committed, a random piece is dropped
+   *   for the player via Player.takeTurn()
+   * Does nothing if the turn hasn't timed out (e.g. the player just moved)
+   * Returns the updated game, or null if nothing was done
+   */
+  static async handleTimeout(gameId: string): Promise<GameInterface | null> {
+    console.log("Game.handleTimeout() called w/ gameId:", gameId);
+
+    const timedOut = await db.transaction(async () => {
+      await Game.lock(gameId);
+      const expired = await Clock.getExpired(gameId);
+      if (expired.length === 0) return null;
+
+      const game = await Game.get(gameId);
+      const playerId = expired[0].playerId;
+      const timeoutAction = game.clock!.timeoutAction;
+      GameEvents.publish(gameId, "turnTimedOut", { playerId, timeoutAction });
+
+      if (timeoutAction === "randomMove") {
+        return { playerId, randomMove: true, nextPlayer: null };
+      }
+
+      const gamePlayers = await Game.getPlayers(gameId);
+      const left = await _leaveGame(game, gamePlayers, playerId, {
+        gameState: 4,
+        endReason: "timeout"
+      });
+      if (left.ended) {
+        GameEvents.publish(gameId, "gameWonOnTime", {
+          winningPlayerId: left.winningPlayerId,
+          timedOutPlayerId: playerId
+        });
+      }
+
+      return { playerId, randomMove: false, nextPlayer: left.nextPlayer };
+    });
+
+    if (timedOut === null) return null;
+
+    if (timedOut.randomMove) {
+      await Player.takeTurn(gameId, timedOut.playerId, "random");
+    } else if (timedOut.nextPlayer !== null && timedOut.nextPlayer.ai === true) {
+      await Player.takeTurn(gameId, timedOut.nextPlayer.id);
+    }
+    return await Game.get(gameId);
+  }
+
   /** Checks to see if a game has ended and if there is a winner, what
    * the winning pieces are and who the winning player is.
-   * Accepts a game state (CheckEndGameInterface)
+   * Accepts a game state (CheckEndGameInterface) and optionally the IDs of
+   * players who have already finished (whose pieces are ignored)
    * Returns an end game state (gameInterface)
    */
-  static checkForGameEnd(game : GameInterface) : GameInterface {
+  static checkForGameEnd(
+    game : GameInterface,
+    finishedPlayerIds : string[] = []
+  ) : GameInterface {
 
     console.log("checkForGameEnd() called with game:", game);
 
@@ -688,6 +1919,8 @@ class Game {
         // check if the playerId for every other piece at each coordinate
         // in the valid coordinate set is also not null AND the same player ID
         if (playerId !== null &&
+          playerId !== WALL_PIECE &&
+          !finishedPlayerIds.includes(playerId) &&
           validCoordSet.every(
             c => {
               return (
@@ -705,7 +1938,7 @@ class Game {
     }
 
     // check for tie
-    if (game.boardData[0].every(cell => cell.playerId !== null)) {
+    if (_isBoardFull(game.boardData)) {
       console.log("checkForGameEnd() determined game is tied");
       game.gameState = 3;
       return game as GameInterface;
@@ -716,11 +1949,499 @@ class Game {
   }
 }
 
+/** Throws InvalidGameState if the player has already finished the game */
+function _validatePlayerStillPlaying(
+  gamePlayers: GamePlayersInterface[],
+  playerId: string
+): undefined {
+  if (gamePlayers.some(p => p.id === playerId && p.finalPlace !== null)) {
+    throw new InvalidGameState(`${playerId} has already finished this game.`);
+  }
+}
+
+/** Throws ForbiddenError if the player isn't one of the game's players */
+function _validatePlayerInGame(
+  gamePlayers: GamePlayersInterface[],
+  playerId: string
+): undefined {
+  if (!gamePlayers.some(p => p.id === playerId)) {
+    throw new ForbiddenError(`${playerId} is not a player in this game.`);
+  }
+}
+
+/** Returns the SQL condition for a game (the games row) being visible to
+ * the player in the specified query parameter (see Game.isVisibleTo) */
+function _sqlVisibleTo(param: string): string {
+  return `(games.is_private = FALSE
+      OR games.owner_id = ${param}
+      OR EXISTS (
+        SELECT 1
+        FROM game_players AS visible_players
+        WHERE visible_players.game_id = games.id
+          AND visible_players.player_id = ${param})
+      OR EXISTS (
+        SELECT 1
+        FROM game_invitations AS visible_invitations
+        WHERE visible_invitations.game_id = games.id
+          AND visible_invitations.player_id = ${param}
+          AND visible_invitations.status = 'pending'))`;
+}
+
+/**
+ * Finds the player after the specified player in play order (wrapping
+ * around to the first player), skipping players who have finished
+ * Throws an error if play order hasn't been set
+ */
+function _getNextPlayer(
+  gamePlayers: GamePlayersInterface[],
+  playerId: string
+): GamePlayersInterface {
+  const player = gamePlayers.find(p => p.id === playerId);
+  if (player === undefined || player.playOrder === null) {
+    throw new Error("Player play order improperly initialized.");
+  }
+  const playOrder = player.playOrder;
+
+  const otherPlayers = gamePlayers
+    .filter(p => p.id !== playerId && p.finalPlace === null && p.playOrder !== null)
+    .sort((a, b) => (a.playOrder as number) - (b.playOrder as number));
+  const nextPlayer = otherPlayers.find(p => (p.playOrder as number) > playOrder)
+    ?? otherPlayers[0];
+  if (nextPlayer === undefined) throw new Error("Unable to find next player.");
+  return nextPlayer;
+}
+
+/** Returns the best place no player has finished in yet */
+function _getNextPlace(gamePlayers: GamePlayersInterface[]): number {
+  const takenPlaces = new Set(gamePlayers.map(p => p.finalPlace));
+  let place = 1;
+  while (takenPlaces.has(place)) place++;
+  return place;
+}
+
+/** Returns the worst place no other player has finished in yet, i.e. the
+ * place of a player leaving the game */
+function _getLastPlace(gamePlayers: GamePlayersInterface[], playerId: string): number {
+  const takenPlaces = new Set(
+    gamePlayers.filter(p => p.id !== playerId).map(p => p.finalPlace)
+  );
+  let place = gamePlayers.length;
+  while (takenPlaces.has(place)) place--;
+  return place;
+}
+
+/**
+ * Takes a player out of a started game (they left, resigned or ran out of
+ * time): they take the last place left and their pending requests are
+ * cleared. Once fewer than 2 players are still playing, the game ends the
+ * given way (see _endGame) and is won by the player left (unless someone
+ * already finished first); otherwise play continues, passing the turn on if
+ * it was theirs, and a playerLeft event is published
+ * Must be called from within db.transaction() w/ the game locked; an AI
+ * next player's turn is left for the caller to take once committed
+ * Returns { place, ended, winningPlayerId, nextPlayer } where nextPlayer is
+ * the new current player, or null if the turn didn't pass
+ */
+async function _leaveGame(
+  game: GameInterface,
+  gamePlayers: GamePlayersInterface[],
+  playerId: string,
+  gameEnd: Omit<GameEndInterface, "winningPlayerId">
+): Promise<LeftGameInterface> {
+  const place = _getLastPlace(gamePlayers, playerId);
+  await _setFinalPlace(game.id, playerId, place);
+
+  const stillPlaying = gamePlayers.filter(
+    p => p.finalPlace === null && p.id !== playerId
+  );
+  if (stillPlaying.length <= 1) {
+    await _endGame(game.id, {
+      ...gameEnd,
+      winningPlayerId: stillPlaying[0]?.id ?? null
+    });
+    const winningPlayerId = (await Game.get(game.id)).currPlayerId;
+    return { place, ended: true, winningPlayerId, nextPlayer: null };
+  }
+
+  GameEvents.publish(game.id, "playerLeft", {
+    playerId,
+    place,
+    reason: gameEnd.endReason
+  });
+
+  if (game.undoRequestedBy === playerId || game.drawOfferedBy === playerId) {
+    await Game.update(game.id, { undoRequestedBy: null, drawOfferedBy: null });
+  }
+
+  const nextPlayer = game.currPlayerId === playerId
+    ? await Game.nextTurn(game.id, false)
+    : null;
+  return { place, ended: false, winningPlayerId: null, nextPlayer };
+}
+
+/** Determines the settings for a new game's board: those of its layout if
+ * it has one, else its own
+ * Throws BadRequestError if it has neither a layout nor dimensions
+ * Throws NotFoundError if its layout doesn't exist
+ */
+async function _getBoardSettings(
+  settings: GameSettingsInterface
+): Promise<BoardSettingsInterface> {
+  if (settings.layoutId !== undefined) {
+    const layout = await Layout.get(settings.layoutId);
+    return {
+      ...settings,
+      height: layout.height,
+      width: layout.width,
+      blockedCells: layout.blockedCells
+    };
+  }
+
+  const { height, width } = settings;
+  if (height === undefined || width === undefined) {
+    throw new BadRequestError("A game needs either board dimensions or a layout.");
+  }
+  return { ...settings, height, width };
+}
+
+/** Builds the settings for creating a game like an existing one */
+function _getSettings(game: GameInterface): GameSettingsInterface {
+  const settings: GameSettingsInterface = {
+    height: game.boardHeight,
+    width: game.boardWidth,
+    winLength: game.winLength,
+    topology: game.topology,
+    blockedCells: game.blockedCells,
+    isPrivate: game.isPrivate,
+    maxPlayers: game.maxPlayers,
+    continueAfterWin: game.continueAfterWin,
+    variant: game.variant
+  };
+  if (game.powerUps !== null) settings.powerUps = game.powerUps;
+  if (game.clock !== null) {
+    settings.clock = {
+      type: game.clock.type,
+      seconds: game.clock.seconds,
+      incrementSeconds: game.clock.incrementSeconds,
+      timeoutAction: game.clock.timeoutAction
+    };
+  }
+  return settings;
+}
+
+/** Returns a game's player IDs in play order, except that the first player
+ * moves last (so w/ two players, the other player moves first) */
+function _rotatePlayOrder(gamePlayers: GamePlayersInterface[]): string[] {
+  const playerIds = [...gamePlayers]
+    .sort((a, b) => (a.playOrder ?? 0) - (b.playOrder ?? 0))
+    .map(p => p.id);
+  return [...playerIds.slice(1), playerIds[0]];
+}
+
+/** Throws BadRequestError unless the board has room (in cells which aren't
+ * blocked) for the specified number of players to each get a chance to
+ * connect winLength pieces */
+function _validatePlayersFit(settings: BoardSettingsInterface, maxPlayers: number): undefined {
+  const winLength = settings.winLength ?? DEFAULT_WIN_LENGTH;
+  const blockedCount = new Set((settings.blockedCells ?? []).map(c => c.join(","))).size;
+  if (settings.height * settings.width - blockedCount < maxPlayers * (winLength - 1) + 1) {
+    throw new BadRequestError(
+      `A ${settings.height} x ${settings.width} board` +
+      `${blockedCount > 0 ? ` w/ ${blockedCount} blocked cells` : ""} is too small for ` +
+      `${maxPlayers} players to connect ${winLength}.`
+    );
+  }
+}
+
+/** Returns whether no more pieces can be dropped on a board (every column
+ * is full or blocked) */
+function _isBoardFull(boardData: BoardDataType): boolean {
+  return Board.findAvailColumns(Board.toPieceMatrix(boardData)).length === 0;
+}
+
+/** Gives a (private) game a join code which no other game has */
+async function _assignJoinCode(gameId: string): Promise<undefined> {
+  let assigned = false;
+  while (!assigned) {
+    const result = await db.query(`
+        UPDATE games
+        SET join_code = $1
+        WHERE id = $2
+          AND NOT EXISTS (SELECT 1 FROM games WHERE join_code = $1)
+        RETURNING id`, [generateJoinCode(), gameId]);
+    assigned = result.rows.length > 0;
+  }
+}
+
+/**
+ * Ends a game: records its final state and why it ended, assigns the
+ * players' final places, makes the winning player (if any) the current
+ * player, clears pending requests and stops its clock. Rates the game
+ * unless it was abandoned.
+ * Once a player has finished first (see continueAfterWin) they win the game,
+ * even if it then ends w/o a winner
+ * Must be called from within db.transaction() w/ the game locked
+ * Returns undefined
+ */
+async function _endGame(gameId: string, gameEnd: GameEndInterface): Promise<undefined> {
+  const winningPlayerId = await _setFinalPlaces(gameId, gameEnd.winningPlayerId);
+
+  // a tie is still won by a player who had already finished first
+  const gameUpdate: GameUpdateInterface = {
+    gameState: gameEnd.gameState === 3 && winningPlayerId !== null ? 2 : gameEnd.gameState,
+    endReason: gameEnd.endReason,
+    undoRequestedBy: null,
+    drawOfferedBy: null
+  };
+  if (winningPlayerId !== null) gameUpdate.currPlayerId = winningPlayerId;
+  if (gameEnd.winningSet !== undefined) gameUpdate.winningSet = gameEnd.winningSet;
+
+  await Game.update(gameId, gameUpdate);
+  await Clock.stop(gameId);
+
+  // only games which were actually completed are rated
+  if (gameEnd.endReason !== "abandoned") {
+    await Rating.recordGame(gameId, winningPlayerId);
+  }
+}
+
+/** Sets a player's final place in a game; returns undefined */
+async function _setFinalPlace(
+  gameId: string,
+  playerId: string,
+  place: number
+): Promise<undefined> {
+  await db.query(`
+      UPDATE game_players
+      SET final_place = $3
+      WHERE game_id = $1
+        AND player_id = $2`, [gameId, playerId, place]);
+}
+
+/**
+ * Assigns the final places of an ending game's players who haven't finished
+ * yet: the winning player (if any) takes the next place and the rest share
+ * the place after that
+ * Returns the ID of the player who finished first, or null if several share
+ * first place (i.e. the game was tied)
+ */
+async function _setFinalPlaces(
+  gameId: string,
+  winningPlayerId: string | null
+): Promise<string | null> {
+  // the best place no one has taken (players who left take the last places)
+  const nextPlaceSql = `(
+      SELECT MIN(place)
+      FROM generate_series(
+        1, (SELECT COUNT(*) FROM game_players WHERE game_id = $1)::int
+      ) AS place
+      WHERE place NOT IN (
+        SELECT final_place
+        FROM game_players
+        WHERE game_id = $1
+          AND final_place IS NOT NULL))`;
+
+  if (winningPlayerId !== null) {
+    await db.query(`
+        UPDATE game_players
+        SET final_place = ${nextPlaceSql}
+        WHERE game_id = $1
+          AND player_id = $2
+          AND final_place IS NULL`, [gameId, winningPlayerId]);
+  }
+
+  await db.query(`
+      UPDATE game_players
+      SET final_place = ${nextPlaceSql}
+      WHERE game_id = $1
+        AND final_place IS NULL`, [gameId]);
+
+  const result: QueryResult<{ playerId: string }> = await db.query(`
+      SELECT player_id AS "playerId"
+      FROM game_players
+      WHERE game_id = $1
+        AND final_place = 1`, [gameId]);
+
+  return result.rows.length === 1 ? result.rows[0].playerId : null;
+}
+
+/**
+ * Applies turns (oldest first) to a board's data (see _applyTurn)
+ * Returns the resulting placed pieces
+ */
+function _applyTurns(boardData: BoardDataType, turns: TurnInterface[]): number[][] {
+  let placedPieces: number[][] = [];
+  for (let turn of turns) placedPieces = _applyTurn(boardData, placedPieces, turn);
+  return placedPieces;
+}
+
+/**
+ * Applies a turn to a board's data and placed pieces:
+ * - drops place the player's piece and walls a neutral one (WALL_PIECE)
+ * - pops pop a piece out of the bottom row (see Board.popPiece)
+ * - anvils clear their column and land on the bottom as the player's piece
+ * - bombs remove the pieces in their effect (the pieces above them fall)
+ * Returns the updated placed pieces (in the order they were placed)
+ */
+function _applyTurn(
+  boardData: BoardDataType,
+  placedPieces: number[][],
+  turn: Pick<TurnInterface, "playerId" | "location" | "moveType" | "effect">
+): number[][] {
+  const [y, x] = turn.location;
+
+  if (turn.moveType === "pop") {
+    Board.popPiece(boardData, x);
+    return _removePlacedPiece(placedPieces, turn.location);
+  }
+
+  if (turn.moveType === "bomb") {
+    for (let location of turn.effect?.removed ?? []) {
+      Board.removePiece(boardData, location);
+      placedPieces = _removePlacedPiece(placedPieces, location);
+    }
+    return placedPieces;
+  }
+
+  if (turn.moveType === "anvil") {
+    for (let row of boardData) row[x].playerId = null;
+    placedPieces = placedPieces.filter(([py, px]) => px !== x);
+  }
+
+  boardData[y][x].playerId = turn.moveType === "wall" ? WALL_PIECE : turn.playerId;
+  return [...placedPieces, [y, x]];
+}
+
+/** Updates placed pieces for a piece removed from the specified location
+ * (e.g. popped out of the bottom row): it's removed and the pieces above it
+ * move down a row
+ * Returns the updated placed pieces (in the order they were placed)
+ */
+function _removePlacedPiece(placedPieces: number[][], location: number[]): number[][] {
+  const [row, col] = location;
+  return placedPieces
+    .filter(([y, x]) => !(y === row && x === col))
+    .map(([y, x]) => x === col && y < row ? [y + 1, x] : [y, x]);
+}
+
+/** Whether a player has a piece in the bottom row (which they could pop out
+ * in a PopOut game) */
+function _hasPieceToPop(game: GameInterface, playerId: string): boolean {
+  return game.boardData[game.boardHeight - 1].some(cell => cell.playerId === playerId);
+}
+
+/** Whether a player can still move once the board is full: by popping out a
+ * piece in a PopOut game or using an anvil in a powerUps game */
+function _canMoveOnFullBoard(game: GameInterface, player: GamePlayersInterface): boolean {
+  if (game.variant === "popOut") return _hasPieceToPop(game, player.id);
+  if (game.variant === "powerUps") return (player.powerUps?.anvil ?? 0) > 0;
+  return false;
+}
+
+/** Changes how many of a power-up a player has in a game by the specified
+ * amount, unless that would leave them w/ less than none
+ * Returns whether the change was made
+ */
+async function _adjustPowerUp(
+  gameId: string,
+  playerId: string,
+  powerUp: PowerUpType,
+  change: number
+): Promise<boolean> {
+  const result = await db.query(`
+      UPDATE game_players
+      SET power_ups = jsonb_set(
+        power_ups, ARRAY[$3::text], to_jsonb((power_ups ->> $3::text)::int + $4))
+      WHERE game_id = $1
+        AND player_id = $2
+        AND (power_ups ->> $3::text)::int + $4 >= 0
+      RETURNING player_id`, [gameId, playerId, powerUp, change]);
+  return result.rows.length > 0;
+}
+
+/**
+ * Removes the most recent turns of a game, up to and including the specified
+ * player's last turn, clearing their pieces from the board and placed pieces
+ * Makes the specified player the current player and clears the undo request
+ * Must be called from within db.transaction() w/ the game locked
+ * Returns the updated game
+ */
+async function _undoLastMove(gameId: string, playerId: string): Promise<GameInterface> {
+  const game = await Game.get(gameId);
+  const turns = await Turn.getAll(gameId);
+  const placedPieces = game.placedPieces === null ? [] : [...game.placedPieces];
+
+  const removedTurns: TurnInterface[] = [];
+  let turn = turns.pop();
+  while (turn !== undefined) {
+    if (game.variant === "classic") {
+      const [y, x] = turn.location;
+      game.boardData[y][x].playerId = null;
+
+      const lastPiece = placedPieces.pop();
+      if (lastPiece === undefined || lastPiece[0] !== y || lastPiece[1] !== x) {
+        throw new Error("Placed pieces are out of sync with game turns.");
+      }
+    }
+
+    removedTurns.push(turn);
+    if (turn.playerId === playerId) break;
+    turn = turns.pop();
+  }
+
+  // pops and power-ups move other pieces, so their boards are rebuilt from
+  // the turns left
+  if (game.variant !== "classic") {
+    for (let row of game.boardData) {
+      for (let cell of row) cell.playerId = null;
+    }
+    placedPieces.splice(0, placedPieces.length, ..._applyTurns(game.boardData, turns));
+  }
+
+  // undone power-ups can be used again
+  for (let removedTurn of removedTurns) {
+    if (POWER_UP_TYPES.includes(removedTurn.moveType as PowerUpType) &&
+      removedTurn.playerId !== null) {
+      await _adjustPowerUp(gameId, removedTurn.playerId, removedTurn.moveType as PowerUpType, 1);
+    }
+  }
+
+  await Board.update(game.boardId, game.boardData);
+  await Turn.delete(removedTurns.map(t => t.turnId));
+  await Game.update(gameId, {
+    placedPieces: placedPieces.length === 0 ? null : placedPieces,
+    currPlayerId: playerId,
+    undoRequestedBy: null
+  });
+  await Clock.startTurn(gameId);
+
+  GameEvents.publish(gameId, "moveUndone", {
+    requestedBy: playerId,
+    removedLocations: removedTurns.map(t => t.location)
+  });
+  GameEvents.publish(gameId, "currentPlayerChanged", { currPlayerId: playerId });
+
+  return await Game.get(gameId);
+}
+
 export {
   Game,
   GameInterface,
   GameUpdateInterface,
   BoardDimensionsInterface,
+  BoardSettingsInterface,
+  GameSettingsInterface,
+  GameOptionsInterface,
+  GameEndReasonType,
+  GameVariantType,
+  PowerUpInventoryType,
+  GameSummaryInterface,
+  GameFiltersInterface,
+  GamePageInterface,
+  SeriesGameInterface,
+  SeriesStandingInterface,
+  GameSeriesInterface,
+  GameReplayInterface,
   BoardCellFinalStateInterface,
   BoardDataType
 };
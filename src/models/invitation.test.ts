@@ -0,0 +1,94 @@
+import { NotFoundError } from "../expressError";
+import { PlayerAlreadyExists } from "../utilities/gameErrors";
+import { Game } from "./game";
+import { Invitation } from "./invitation";
+import { createPlayers } from "./_factories";
+
+import {
+  commonBeforeAll,
+  commonBeforeEach,
+  commonAfterEach,
+  commonAfterAll
+} from "./_testCommon";
+
+beforeAll(commonBeforeAll);
+beforeEach(commonBeforeEach);
+afterEach(commonAfterEach);
+afterAll(commonAfterAll);
+
+const boardDimensions = { width: 6, height: 6 };
+
+/** Creates a private game owned by a new player and another player to invite
+ * Returns { game, ownerId, playerId } */
+async function createGameAndPlayers() {
+  const [owner, player] = await createPlayers(2);
+  const game = await Game.create({ ...boardDimensions, isPrivate: true }, owner.id);
+  return { game, ownerId: owner.id, playerId: player.id };
+}
+
+describe("create", function () {
+
+  test("creates a pending invitation", async function () {
+    const { game, ownerId, playerId } = await createGameAndPlayers();
+
+    const invitation = await Invitation.create(game.id, playerId, ownerId);
+    expect(invitation).toEqual({
+      gameId: game.id,
+      playerId,
+      invitedBy: ownerId,
+      status: "pending",
+      createdOn: expect.any(Date),
+      respondedOn: null
+    });
+    expect(await Invitation.getPending(playerId)).toEqual([invitation]);
+  });
+
+  test("makes a declined invitation pending again", async function () {
+    const { game, ownerId, playerId } = await createGameAndPlayers();
+    await Invitation.create(game.id, playerId, ownerId);
+    await Invitation.respond(game.id, playerId, false);
+
+    const invitation = await Invitation.create(game.id, playerId, ownerId);
+    expect(invitation.status).toEqual("pending");
+    expect(invitation.respondedOn).toBeNull();
+  });
+
+  test("throws PlayerAlreadyExists for a player in the game", async function () {
+    const { game, ownerId } = await createGameAndPlayers();
+    await Game.addPlayers(game.id, [ownerId]);
+
+    await expect(Invitation.create(game.id, ownerId, ownerId))
+      .rejects.toThrow(PlayerAlreadyExists);
+  });
+});
+
+describe("respond", function () {
+
+  test("accepting adds the player to the game", async function () {
+    const { game, ownerId, playerId } = await createGameAndPlayers();
+    await Invitation.create(game.id, playerId, ownerId);
+
+    const invitation = await Invitation.respond(game.id, playerId, true);
+    expect(invitation.status).toEqual("accepted");
+    expect(invitation.respondedOn).toEqual(expect.any(Date));
+    expect((await Game.getPlayers(game.id)).map(p => p.id)).toEqual([playerId]);
+    expect(await Invitation.getPending(playerId)).toEqual([]);
+  });
+
+  test("declining doesn't add the player to the game", async function () {
+    const { game, ownerId, playerId } = await createGameAndPlayers();
+    await Invitation.create(game.id, playerId, ownerId);
+
+    const invitation = await Invitation.respond(game.id, playerId, false);
+    expect(invitation.status).toEqual("declined");
+    expect(await Game.getPlayers(game.id)).toEqual([]);
+  });
+
+  test("throws NotFoundError w/o a pending invitation", async function () {
+    const { game, ownerId, playerId } = await createGameAndPlayers();
+    await Invitation.create(game.id, playerId, ownerId);
+    await Invitation.respond(game.id, playerId, true);
+
+    await expect(Invitation.respond(game.id, playerId, true)).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,129 @@
+import { QueryResult } from "pg";
+
+import db from "../db";
+import { NotFoundError } from "../expressError";
+import { PlayerAlreadyExists } from "../utilities/gameErrors";
+import { SQLQueries } from "../utilities/sqlQueries";
+import { Game } from "./game";
+import { Player } from "./player";
+
+/** Invitations to games
+ * A game's owner can invite players to it (typically to a private game,
+ * which can't be joined otherwise w/o its join code). Invited players
+ * accept (which adds them to the game) or decline; inviting a player again
+ * makes their invitation pending again.
+ */
+
+type InvitationStatusType = "pending" | "accepted" | "declined";
+
+interface InvitationInterface {
+  gameId: string;
+  playerId: string;
+  invitedBy: string | null;
+  status: InvitationStatusType;
+  createdOn: Date;
+  respondedOn: Date | null;
+}
+
+class Invitation {
+
+  /**
+   * Invites a player to a game on behalf of another player (its owner)
+   * Returns the (pending) invitation like { gameId, playerId, invitedBy,
+   * status, createdOn, respondedOn }
+   * Throws NotFoundError if the game or player doesn't exist
+   * Throws PlayerAlreadyExists if the player is already in the game
+   */
+  static async create(
+    gameId: string,
+    playerId: string,
+    invitedBy: string
+  ): Promise<InvitationInterface> {
+    console.log("Invitation.create() called w/ gameId:", gameId);
+
+    await Game.get(gameId);
+    await Player.get(playerId);
+
+    const players = await Game.getPlayers(gameId);
+    if (players.some(p => p.id === playerId)) {
+      throw new PlayerAlreadyExists(`Player ${playerId} is already in game ${gameId}`);
+    }
+
+    const result: QueryResult<InvitationInterface> = await db.query(`
+        INSERT INTO game_invitations (game_id, player_id, invited_by)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (game_id, player_id) DO UPDATE
+        SET invited_by = EXCLUDED.invited_by,
+            status = 'pending',
+            created_on = current_timestamp,
+            responded_on = NULL
+        RETURNING ${SQLQueries.defaultInvitationCols}`, [gameId, playerId, invitedBy]);
+
+    return result.rows[0];
+  }
+
+  /**
+   * Retrieves the invitations to a game, oldest first
+   * Returns [{ gameId, playerId, invitedBy, status, createdOn, respondedOn }, ...]
+   */
+  static async getForGame(gameId: string): Promise<InvitationInterface[]> {
+    const result: QueryResult<InvitationInterface> = await db.query(`
+        SELECT ${SQLQueries.defaultInvitationCols}
+        FROM game_invitations
+        WHERE game_id = $1
+        ORDER BY created_on, player_id`, [gameId]);
+    return result.rows;
+  }
+
+  /**
+   * Retrieves a player's pending invitations, oldest first
+   * Returns [{ gameId, playerId, invitedBy, status, createdOn, respondedOn }, ...]
+   */
+  static async getPending(playerId: string): Promise<InvitationInterface[]> {
+    const result: QueryResult<InvitationInterface> = await db.query(`
+        SELECT ${SQLQueries.defaultInvitationCols}
+        FROM game_invitations
+        WHERE player_id = $1
+          AND status = 'pending'
+        ORDER BY created_on, game_id`, [playerId]);
+    return result.rows;
+  }
+
+  /**
+   * Accepts (adding the player to the game) or declines a pending invitation
+   * Returns the updated invitation
+   * Throws NotFoundError if the player has no pending invitation to the game
+   */
+  static async respond(
+    gameId: string,
+    playerId: string,
+    accept: boolean
+  ): Promise<InvitationInterface> {
+    return await db.transaction(async () => {
+      const result: QueryResult<InvitationInterface> = await db.query(`
+          UPDATE game_invitations
+          SET status = $3,
+              responded_on = current_timestamp
+          WHERE game_id = $1
+            AND player_id = $2
+            AND status = 'pending'
+          RETURNING ${SQLQueries.defaultInvitationCols}`,
+        [gameId, playerId, accept ? "accepted" : "declined"]);
+
+      const invitation = result.rows[0];
+      if (!invitation) {
+        throw new NotFoundError(`No pending invitation to game ${gameId} for player ${playerId}`);
+      }
+
+      if (accept) await Game.addPlayers(gameId, [playerId]);
+
+      return invitation;
+    });
+  }
+}
+
+export {
+  Invitation,
+  InvitationInterface,
+  InvitationStatusType
+};
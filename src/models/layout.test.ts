@@ -0,0 +1,85 @@
+import { BadRequestError, NotFoundError } from "../expressError";
+import { Layout } from "./layout";
+import { createPlayers } from "./_factories";
+
+import {
+  commonBeforeAll,
+  commonBeforeEach,
+  commonAfterEach,
+  commonAfterAll
+} from "./_testCommon";
+import { randomUUID } from "crypto";
+
+beforeAll(commonBeforeAll);
+beforeEach(commonBeforeEach);
+afterEach(commonAfterEach);
+afterAll(commonAfterAll);
+
+describe("create", function () {
+
+  test("creates a layout w/ sorted, unique blocked cells", async function () {
+    const [player] = await createPlayers(1);
+
+    const layout = await Layout.create({
+      name: "Hole",
+      height: 6,
+      width: 7,
+      blockedCells: [[5, 3], [4, 3], [5, 3]]
+    }, player.id);
+    expect(layout).toEqual({
+      id: expect.any(String),
+      name: "Hole",
+      height: 6,
+      width: 7,
+      blockedCells: [[4, 3], [5, 3]],
+      createdBy: player.id,
+      createdOn: expect.any(Date)
+    });
+  });
+
+  test("blocks the sides of a pyramid's upper rows", async function () {
+    const layout = await Layout.create({ name: "Pyramid", height: 3, width: 5, shape: "pyramid" });
+    expect(layout.blockedCells).toEqual([
+      [0, 0], [0, 1], [0, 3], [0, 4],
+      [1, 0], [1, 4]
+    ]);
+    expect(layout.createdBy).toBeNull();
+  });
+
+  test("throws BadRequestError for a cell which isn't on the board", async function () {
+    await expect(Layout.create({ name: "Bad", height: 3, width: 3, blockedCells: [[3, 0]] }))
+      .rejects.toThrow(BadRequestError);
+  });
+
+  test("throws BadRequestError if every cell is blocked", async function () {
+    const blockedCells = [0, 1, 2].flatMap(y => [0, 1, 2].map(x => [y, x]));
+    await expect(Layout.create({ name: "Bad", height: 3, width: 3, blockedCells }))
+      .rejects.toThrow(BadRequestError);
+  });
+
+});
+
+describe("get", function () {
+
+  test("retrieves a layout", async function () {
+    const layout = await Layout.create({ name: "Pyramid", height: 4, width: 7, shape: "pyramid" });
+    expect(await Layout.get(layout.id)).toEqual(layout);
+  });
+
+  test("throws NotFoundError for a missing layout", async function () {
+    await expect(Layout.get(randomUUID())).rejects.toThrow(NotFoundError);
+  });
+
+});
+
+describe("getAll", function () {
+
+  test("retrieves every layout", async function () {
+    const first = await Layout.create({ name: "First", height: 6, width: 7 });
+    const second = await Layout.create({ name: "Second", height: 4, width: 7, shape: "pyramid" });
+
+    const layouts = await Layout.getAll();
+    expect(layouts).toEqual(expect.arrayContaining([first, second]));
+  });
+
+});
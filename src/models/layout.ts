@@ -0,0 +1,131 @@
+import { QueryResult } from "pg";
+
+import db from "../db";
+import { NotFoundError } from "../expressError";
+import { SQLQueries } from "../utilities/sqlQueries";
+import { Board } from "./board";
+
+/** Board layouts
+ * Reusable board shapes: a board's dimensions plus the cells of it which
+ * are blocked (no piece can occupy them; pieces dropped on top of them
+ * settle there). Games are created w/ a layout by passing its ID as the
+ * layoutId setting (see Game.create).
+ * Layouts can be built from a named shape (e.g. a pyramid) and/or a list of
+ * blocked cells ([y, x] coordinates, where row 0 is the top row).
+ */
+
+// the shapes a layout can be built from:
+// - rectangle: no cells are blocked
+// - pyramid: rows narrow by a cell on each side going up from the bottom row
+type LayoutShapeType = "rectangle" | "pyramid";
+
+interface LayoutNewInterface {
+  name: string;
+  height: number;
+  width: number;
+  shape?: LayoutShapeType;
+  blockedCells?: number[][];
+}
+
+interface LayoutInterface {
+  id: string;
+  name: string;
+  height: number;
+  width: number;
+  blockedCells: number[][];
+  createdBy: string | null;
+  createdOn: Date;
+}
+
+class Layout {
+
+  /**
+   * Creates a board layout from a shape (defaults to rectangle) and any
+   * additional blocked cells, optionally on behalf of a player
+   * Returns the layout like { id, name, height, width, blockedCells,
+   * createdBy, createdOn } where blockedCells are sorted and unique
+   * Throws BadRequestError if a blocked cell isn't on the board or every
+   * cell is blocked
+   */
+  static async create(
+    data: LayoutNewInterface,
+    createdBy: string | null = null
+  ): Promise<LayoutInterface> {
+    console.log("Layout.create() called w/ name:", data.name);
+
+    const blockedCells = _sortCells([
+      ..._getShapeCells(data, data.shape ?? "rectangle"),
+      ...(data.blockedCells ?? [])
+    ]);
+    Board.validateBlockedCells(data, blockedCells);
+
+    const result: QueryResult<LayoutInterface> = await db.query(`
+        INSERT INTO board_layouts (name, height, width, blocked_cells, created_by)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING ${SQLQueries.defaultLayoutCols}`,
+      [data.name, data.height, data.width, blockedCells, createdBy]);
+
+    return result.rows[0];
+  }
+
+  /**
+   * Retrieves a board layout
+   * Returns { id, name, height, width, blockedCells, createdBy, createdOn }
+   * Throws NotFoundError if the layout doesn't exist
+   */
+  static async get(layoutId: string): Promise<LayoutInterface> {
+    const result: QueryResult<LayoutInterface> = await db.query(`
+        SELECT ${SQLQueries.defaultLayoutCols}
+        FROM board_layouts
+        WHERE id = $1`, [layoutId]);
+
+    const layout = result.rows[0];
+    if (!layout) throw new NotFoundError(`No layout with id: ${layoutId}`);
+
+    return layout;
+  }
+
+  /**
+   * Retrieves every board layout, oldest first
+   * Returns [{ id, name, height, width, blockedCells, createdBy, createdOn }, ...]
+   */
+  static async getAll(): Promise<LayoutInterface[]> {
+    const result: QueryResult<LayoutInterface> = await db.query(`
+        SELECT ${SQLQueries.defaultLayoutCols}
+        FROM board_layouts
+        ORDER BY created_on, id`);
+    return result.rows;
+  }
+}
+
+/** Returns the cells a shape blocks on a board of the given dimensions */
+function _getShapeCells(
+  dimensions: { height: number, width: number },
+  shape: LayoutShapeType
+): number[][] {
+  const cells: number[][] = [];
+  if (shape === "rectangle") return cells;
+
+  for (let y = 0; y < dimensions.height; y++) {
+    // the number of cells blocked on each side of the row
+    const inset = dimensions.height - 1 - y;
+    for (let x = 0; x < dimensions.width; x++) {
+      if (x < inset || x >= dimensions.width - inset) cells.push([y, x]);
+    }
+  }
+  return cells;
+}
+
+/** Sorts [y, x] cells (top to bottom, then left to right) and removes
+ * duplicates */
+function _sortCells(cells: number[][]): number[][] {
+  const unique = new Map(cells.map(c => [`${c[0]},${c[1]}`, [c[0], c[1]]]));
+  return Array.from(unique.values()).sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+}
+
+export {
+  Layout,
+  LayoutInterface,
+  LayoutNewInterface,
+  LayoutShapeType
+};
@@ -0,0 +1,111 @@
+import db from "../db";
+import { BadRequestError, NotFoundError } from "../expressError";
+import { Game } from "./game";
+import { Player } from "./player";
+import { Matchmaking } from "./matchmaking";
+import { createPlayers } from "./_factories";
+
+import {
+  commonBeforeAll,
+  commonBeforeEach,
+  commonAfterEach,
+  commonAfterAll
+} from "./_testCommon";
+
+beforeAll(commonBeforeAll);
+beforeEach(commonBeforeEach);
+afterEach(commonAfterEach);
+afterAll(commonAfterAll);
+
+const preferences = { height: 6, width: 7 };
+
+describe("enqueue", function () {
+
+  test("waits when there is no one to pair with", async function () {
+    const players = await createPlayers(1);
+
+    const entry = await Matchmaking.enqueue(players[0].id, preferences);
+    expect(entry).toEqual({
+      playerId: players[0].id,
+      height: 6,
+      width: 7,
+      ratingBand: null,
+      gameId: null,
+      createdOn: expect.any(Date)
+    });
+  });
+
+  test("pairs players who want the same board and starts their game", async function () {
+    const players = await createPlayers(3);
+
+    await Matchmaking.enqueue(players[0].id, preferences);
+    await Matchmaking.enqueue(players[1].id, { height: 7, width: 7 });
+    const entry = await Matchmaking.enqueue(players[2].id, preferences);
+
+    expect(entry.gameId).not.toBeNull();
+    expect((await Matchmaking.get(players[0].id)).gameId).toEqual(entry.gameId);
+    expect((await Matchmaking.get(players[1].id)).gameId).toBeNull();
+
+    const game = await Game.get(entry.gameId as string);
+    expect(game.gameState).toEqual(1);
+    expect(game.boardHeight).toEqual(6);
+    expect(game.boardWidth).toEqual(7);
+    const gamePlayerIds = (await Game.getPlayers(game.id)).map(p => p.id);
+    expect(gamePlayerIds.sort()).toEqual([players[0].id, players[2].id].sort());
+  });
+
+  test("only pairs players within each other's rating band", async function () {
+    const players = await createPlayers(2);
+    await db.query(`UPDATE players SET rating = 1800 WHERE id = $1`, [players[0].id]);
+
+    await Matchmaking.enqueue(players[0].id, { ...preferences, ratingBand: 100 });
+    let entry = await Matchmaking.enqueue(players[1].id, preferences);
+    expect(entry.gameId).toBeNull();
+
+    entry = await Matchmaking.enqueue(players[0].id, preferences);
+    expect(entry.gameId).not.toBeNull();
+  });
+
+  test("throws BadRequestError for an AI player", async function () {
+    const ai = await Player.create({ name: "Bot", color: "#ff0000", ai: true });
+    await expect(Matchmaking.enqueue(ai.id, preferences)).rejects.toThrow(BadRequestError);
+  });
+
+});
+
+describe("dequeue", function () {
+
+  test("removes a player from the queue", async function () {
+    const players = await createPlayers(1);
+    await Matchmaking.enqueue(players[0].id, preferences);
+
+    await Matchmaking.dequeue(players[0].id);
+    await expect(Matchmaking.get(players[0].id)).rejects.toThrow(NotFoundError);
+    await expect(Matchmaking.dequeue(players[0].id)).rejects.toThrow(NotFoundError);
+  });
+
+});
+
+describe("match with AI", function () {
+
+  test("pairs players who have waited long enough with an AI", async function () {
+    const players = await createPlayers(2);
+    await Matchmaking.enqueue(players[0].id, preferences);
+    await Matchmaking.enqueue(players[1].id, { height: 7, width: 7 });
+
+    // only the first player has waited long enough
+    await db.query(`
+      UPDATE matchmaking_queue
+      SET created_on = created_on - interval '1 minute'
+      WHERE player_id = $1`, [players[0].id]);
+
+    const gameIds = await Matchmaking.matchWithAi(30);
+    expect(gameIds.length).toEqual(1);
+    expect((await Matchmaking.get(players[0].id)).gameId).toEqual(gameIds[0]);
+    expect((await Matchmaking.get(players[1].id)).gameId).toBeNull();
+
+    const gamePlayers = await Game.getPlayers(gameIds[0]);
+    expect(gamePlayers.map(p => p.ai).sort()).toEqual([false, true]);
+  });
+
+});
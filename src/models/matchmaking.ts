@@ -0,0 +1,265 @@
+import { QueryResult } from "pg";
+
+import db from "../db";
+import { NotFoundError, BadRequestError } from "../expressError";
+import { SQLQueries } from "../utilities/sqlQueries";
+import { generateRandomHexColor } from "../utilities/utils";
+import { Game } from "./game";
+import { Player } from "./player";
+
+/** Matchmaking queue
+ * Human players enqueue w/ their preferred board size (and optionally the
+ * most their opponent's rating may differ from theirs) and are paired w/
+ * another waiting player who wants the same board size. A game is then
+ * created and started for them automatically.
+ * Players left waiting long enough are paired w/ an AI player instead
+ * (see Matchmaking.matchWithAi, run by the scheduler).
+ * Matched entries stay in the queue (w/ their game ID) until the player
+ * leaves the queue or enqueues again.
+ */
+
+const AI_OPPONENT_NAME = "AI Opponent";
+
+interface MatchmakingPreferencesInterface {
+  height: number;
+  width: number;
+  ratingBand?: number | null;
+}
+
+interface MatchmakingEntryInterface {
+  playerId: string;
+  height: number;
+  width: number;
+  ratingBand: number | null;
+  gameId: string | null;
+  createdOn: Date;
+}
+
+// a waiting entry w/ its player's current rating
+interface WaitingEntryInterface extends MatchmakingEntryInterface {
+  rating: number;
+}
+
+class Matchmaking {
+
+  /**
+   * Adds a human player to the queue (replacing any previous entry) and
+   * tries to pair them w/ another waiting player right away
+   * Throws BadRequestError for AI players
+   * Returns the entry like { playerId, height, width, ratingBand, gameId,
+   * createdOn } where gameId is set if they were paired
+   */
+  static async enqueue(
+    playerId: string,
+    preferences: MatchmakingPreferencesInterface
+  ): Promise<MatchmakingEntryInterface> {
+    console.log("Matchmaking.enqueue() called w/ playerId:", playerId);
+
+    const player = await Player.get(playerId);
+    if (player.ai) throw new BadRequestError("AI players can't join the matchmaking queue.");
+
+    await db.query(`
+        INSERT INTO matchmaking_queue (player_id, height, width, rating_band)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (player_id) DO UPDATE
+        SET height = EXCLUDED.height,
+            width = EXCLUDED.width,
+            rating_band = EXCLUDED.rating_band,
+            game_id = NULL,
+            created_on = current_timestamp`, [
+      playerId,
+      preferences.height,
+      preferences.width,
+      preferences.ratingBand ?? null
+    ]);
+
+    await Matchmaking.pair(playerId);
+
+    return await Matchmaking.get(playerId);
+  }
+
+  /**
+   * Retrieves a player's queue entry
+   * Returns { playerId, height, width, ratingBand, gameId, createdOn }
+   * Throws NotFoundError if the player isn't in the queue
+   */
+  static async get(playerId: string): Promise<MatchmakingEntryInterface> {
+    const result: QueryResult<MatchmakingEntryInterface> = await db.query(`
+        SELECT ${SQLQueries.defaultMatchmakingCols}
+        FROM matchmaking_queue
+        WHERE player_id = $1`, [playerId]);
+
+    const entry = result.rows[0];
+    if (!entry) throw new NotFoundError(`Player ${playerId} is not in the queue.`);
+
+    return entry;
+  }
+
+  /**
+   * Removes a player from the queue; returns undefined
+   * Throws NotFoundError if the player isn't in the queue
+   */
+  static async dequeue(playerId: string): Promise<undefined> {
+    const result = await db.query(`
+        DELETE FROM matchmaking_queue
+        WHERE player_id = $1
+        RETURNING player_id`, [playerId]);
+
+    if (!result.rows[0]) throw new NotFoundError(`Player ${playerId} is not in the queue.`);
+  }
+
+  /**
+   * Tries to pair a waiting player w/ the longest waiting compatible player:
+   * same board size and within both players' rating bands
+   * Entries being paired elsewhere are skipped rather than waited on
+   * Returns the started game's ID, or null if no one could be paired
+   */
+  static async pair(playerId: string): Promise<string | null> {
+    const gameId = await db.transaction(async () => {
+      const entry = await _lockWaitingEntry(playerId);
+      if (entry === null) return null;
+
+      const result: QueryResult<{ playerId: string }> = await db.query(`
+          SELECT matchmaking_queue.player_id AS "playerId"
+          FROM matchmaking_queue
+          INNER JOIN players ON players.id = matchmaking_queue.player_id
+          WHERE matchmaking_queue.game_id IS NULL
+            AND matchmaking_queue.player_id <> $1
+            AND matchmaking_queue.height = $2
+            AND matchmaking_queue.width = $3
+            AND (matchmaking_queue.rating_band IS NULL
+                 OR abs(players.rating - $4) <= matchmaking_queue.rating_band)
+            AND ($5::int IS NULL OR abs(players.rating - $4) <= $5)
+          ORDER BY matchmaking_queue.created_on, matchmaking_queue.player_id
+          LIMIT 1
+          FOR UPDATE OF matchmaking_queue SKIP LOCKED`, [
+        playerId,
+        entry.height,
+        entry.width,
+        entry.rating,
+        entry.ratingBand
+      ]);
+
+      const opponent = result.rows[0];
+      if (!opponent) return null;
+
+      return await _createMatch(entry, [opponent.playerId, playerId]);
+    });
+
+    if (gameId !== null) await Game.start(gameId);
+    return gameId;
+  }
+
+  /**
+   * Pairs every waiting player w/ another one where possible (catches
+   * players who enqueued at the same time and so didn't see each other)
+   * Returns the IDs of the started games
+   */
+  static async pairWaiting(): Promise<string[]> {
+    const gameIds: string[] = [];
+    for (let entry of await _getWaiting()) {
+      const gameId = await Matchmaking.pair(entry.playerId);
+      if (gameId !== null) gameIds.push(gameId);
+    }
+    return gameIds;
+  }
+
+  /**
+   * Pairs players who have waited at least the specified number of seconds
+   * w/ the AI player whose rating is closest to theirs (creating an AI
+   * player if there are none)
+   * Returns the IDs of the started games
+   */
+  static async matchWithAi(waitSeconds: number): Promise<string[]> {
+    const gameIds: string[] = [];
+    for (let waiting of await _getWaiting(waitSeconds)) {
+      const gameId = await db.transaction(async () => {
+        const entry = await _lockWaitingEntry(waiting.playerId);
+        if (entry === null) return null;
+
+        const aiPlayerId = await _findAiOpponent(entry.rating);
+        return await _createMatch(entry, [entry.playerId, aiPlayerId]);
+      });
+
+      if (gameId !== null) {
+        await Game.start(gameId);
+        gameIds.push(gameId);
+      }
+    }
+    return gameIds;
+  }
+}
+
+/** Locks a player's entry if they are still waiting (and not locked by
+ * another transaction)
+ * Returns the entry w/ the player's rating, or null
+ */
+async function _lockWaitingEntry(playerId: string): Promise<WaitingEntryInterface | null> {
+  const result: QueryResult<WaitingEntryInterface> = await db.query(`
+      SELECT ${SQLQueries.defaultMatchmakingCols},
+             players.rating
+      FROM matchmaking_queue
+      INNER JOIN players ON players.id = matchmaking_queue.player_id
+      WHERE matchmaking_queue.player_id = $1
+        AND matchmaking_queue.game_id IS NULL
+      FOR UPDATE OF matchmaking_queue SKIP LOCKED`, [playerId]);
+  return result.rows[0] ?? null;
+}
+
+/** Retrieves the waiting entries (longest waiting first), optionally only
+ * those which have waited at least the specified number of seconds */
+async function _getWaiting(minWaitSeconds: number = 0): Promise<MatchmakingEntryInterface[]> {
+  const result: QueryResult<MatchmakingEntryInterface> = await db.query(`
+      SELECT ${SQLQueries.defaultMatchmakingCols}
+      FROM matchmaking_queue
+      WHERE game_id IS NULL
+        AND created_on <= current_timestamp - make_interval(secs => $1)
+      ORDER BY created_on, player_id`, [minWaitSeconds]);
+  return result.rows;
+}
+
+/** Finds the AI player rated closest to the specified rating, creating one
+ * if there are none; returns the AI player's ID */
+async function _findAiOpponent(rating: number): Promise<string> {
+  const result: QueryResult<{ id: string }> = await db.query(`
+      SELECT id
+      FROM players
+      WHERE ai = TRUE
+      ORDER BY abs(rating - $1), created_on
+      LIMIT 1`, [rating]);
+
+  if (result.rows[0]) return result.rows[0].id;
+
+  const aiPlayer = await Player.create({
+    name: AI_OPPONENT_NAME,
+    color: generateRandomHexColor(),
+    ai: true
+  });
+  return aiPlayer.id;
+}
+
+/** Creates a game for a waiting entry's board size, adds the players and
+ * records the game on the players' entries (AI players have none)
+ * Must be called from within db.transaction() w/ the entries locked
+ * Returns the (not yet started) game's ID
+ */
+async function _createMatch(
+  entry: MatchmakingEntryInterface,
+  playerIds: string[]
+): Promise<string> {
+  const game = await Game.create({ height: entry.height, width: entry.width });
+  await Game.addPlayers(game.id, playerIds);
+
+  await db.query(`
+      UPDATE matchmaking_queue
+      SET game_id = $1
+      WHERE player_id = ANY($2)`, [game.id, playerIds]);
+
+  return game.id;
+}
+
+export {
+  Matchmaking,
+  MatchmakingPreferencesInterface,
+  MatchmakingEntryInterface
+};
@@ -1,12 +1,25 @@
-import { ExpressError, NotFoundError, BadRequestError } from "../expressError";
+import { QueryResult } from "pg";
+
+import {
+  ExpressError, NotFoundError, BadRequestError, UnauthorizedError
+} from "../expressError";
 import { SQLQueries } from "../utilities/sqlQueries";
 import { Game } from "./game";
 import { Board } from "./board";
+import { AiEngine, AiDifficultyType, DEFAULT_AI_DIFFICULTY } from "./aiEngine";
+import { hashPassword, verifyPassword } from "../utilities/tokens";
 
 import db from "../db";
 import { Console } from "console";
 
-// const { sqlForPartialUpdate } = require("../helpers/sql");
+import { sqlForPartialUpdate } from "../utilities/sql";
+import {
+  SortOrderType,
+  SortColumnInterface,
+  DEFAULT_PAGE_LIMIT,
+  sqlForKeysetPage,
+  toPage
+} from "../utilities/pagination";
 
 /**
  * TODO:
@@ -18,13 +31,67 @@ interface NewPlayerInterface {
   name: string;
   color: string;
   ai: boolean;
+  aiDifficulty?: AiDifficultyType | null;
+  password?: string;
 };
 
-interface PlayerInterface extends NewPlayerInterface {
+interface PlayerInterface extends Omit<NewPlayerInterface, "password"> {
   id: string;
+  aiDifficulty: AiDifficultyType | null;
+  rating: number;
   createdOn: Date;
 };
 
+interface PlayerUpdateInterface {
+  name?: string;
+  color?: string;
+};
+
+interface PlayerStatsInterface {
+  playerId: string;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  winRate: number | null;
+  currentStreak: number;
+  longestStreak: number;
+  averageMovesToWin: number | null;
+  winsByReason: Record<string, number>;
+  lossesByReason: Record<string, number>;
+};
+
+interface PlayerFiltersInterface {
+  ai?: boolean;
+  name?: string;
+  minRating?: number;
+  maxRating?: number;
+  sortBy?: "createdOn" | "name" | "rating";
+  order?: SortOrderType;
+  limit?: number;
+  cursor?: string;
+};
+
+interface PlayerPageInterface {
+  players: PlayerInterface[];
+  nextCursor: string | null;
+};
+
+const PLAYER_SORT_COLUMNS: Record<"createdOn" | "name" | "rating", SortColumnInterface> = {
+  createdOn: { column: "created_on", type: "timestamptz" },
+  name: { column: "name", type: "text" },
+  rating: { column: "rating", type: "int" }
+};
+
+// a finished game from a player's perspective (see Player.getStats)
+interface PlayerGameResultInterface {
+  gameId: string;
+  gameState: number;
+  currPlayerId: string | null;
+  endReason: string | null;
+  moveCount: number;
+};
+
 const delayInMs = 200;
 
 function delay(ms : number) {
@@ -45,26 +112,42 @@ class Player {
   /**
    * Create a player (from data), update db, return new player data.
    *
-   * data should be { name, color, ai }
+   * data should be { name, color, ai, aiDifficulty, password }
+   * aiDifficulty is optional and only applies to AI players (defaults to medium)
+   * password is optional; it is hashed and allows getting new tokens later
    *
-   * Returns { id, name, color, ai, createdOn }
+   * Returns { id, name, color, ai, aiDifficulty, rating, createdOn }
    * */
   static async create(newPlayer: NewPlayerInterface) : Promise<PlayerInterface> {
 
+    const aiDifficulty = newPlayer.ai
+      ? newPlayer.aiDifficulty ?? DEFAULT_AI_DIFFICULTY
+      : null;
+
+    const password = newPlayer.password === undefined
+      ? null
+      : await hashPassword(newPlayer.password);
+
     const result = await db.query(`
                 INSERT INTO players (name,
                                       color,
-                                      ai)
-                VALUES ($1, $2, $3)
+                                      ai,
+                                      ai_difficulty,
+                                      password)
+                VALUES ($1, $2, $3, $4, $5)
                 RETURNING
                     id,
                     name,
                     color,
                     ai,
+                    ai_difficulty AS "aiDifficulty",
+                    rating,
                     created_on AS "createdOn"`, [
           newPlayer.name,
           newPlayer.color,
-          newPlayer.ai
+          newPlayer.ai,
+          aiDifficulty,
+          password
         ],
     );
 
@@ -73,27 +156,81 @@ class Player {
   }
 
   /**
-   * Find all players
-   * Returns [{ id, name, color, ai, createdOn }, ...]   *
+   * Find a page of players
+   * Accepts optional filters like { ai, name, minRating, maxRating, sortBy,
+   * order, limit, cursor } where name matches any part of a player's name
+   * - sortBy: createdOn (default), name or rating; order: asc (default) or desc
+   * - limit defaults to 25; cursor is the nextCursor of the previous page
+   * Returns { players, nextCursor } where players are like
+   * { id, name, color, ai, aiDifficulty, rating, createdOn }
+   * and nextCursor is null on the last page
+   * Throws BadRequestError for an invalid cursor
    * */
-  static async getAll() {
+  static async getAll(filters: PlayerFiltersInterface = {}): Promise<PlayerPageInterface> {
+    const {
+      sortBy = "createdOn",
+      order = "asc",
+      limit = DEFAULT_PAGE_LIMIT
+    } = filters;
 
-    const sqlQuery = `
-      SELECT ${SQLQueries.defaultPlayerCols}
-      FROM players
-      ORDER BY created_on
-    `
-    const result = await db.query(sqlQuery);
+    const whereConditions: string[] = [];
+    const values: unknown[] = [];
 
-    console.log("TO BE TYPED: result in Player.getAll");
+    if (filters.ai !== undefined) {
+      _addCondition(p => `ai = ${p}`, filters.ai);
+    }
+    if (filters.name !== undefined) {
+      _addCondition(p => `name ILIKE ${p}`, `%${_escapeLike(filters.name)}%`);
+    }
+    if (filters.minRating !== undefined) {
+      _addCondition(p => `rating >= ${p}`, filters.minRating);
+    }
+    if (filters.maxRating !== undefined) {
+      _addCondition(p => `rating <= ${p}`, filters.maxRating);
+    }
+
+    const sortColumn = PLAYER_SORT_COLUMNS[sortBy];
+    const keyset = sqlForKeysetPage(
+      sortColumn, order, "id", filters.cursor, values.length + 1
+    );
+    if (keyset.whereClause !== "") whereConditions.push(keyset.whereClause);
+    values.push(...keyset.values, limit + 1);
+
+    const whereClause = whereConditions.length > 0
+      ? `WHERE ${whereConditions.join(" AND ")}`
+      : "";
+
+    const result: QueryResult<PlayerInterface & { cursorValue: string }> =
+      await db.query(`
+        SELECT ${SQLQueries.defaultPlayerCols},
+               ${sortColumn.column}::text AS "cursorValue"
+        FROM players
+        ${whereClause}
+        ORDER BY ${keyset.orderBy}
+        LIMIT $${values.length}`, values
+      );
 
-    return result.rows;
+    const page = toPage(result.rows, limit, p => ({ value: p.cursorValue, id: p.id }));
+    const players = page.rows.map(({ cursorValue, ...player }) => player);
+    return { players, nextCursor: page.nextCursor };
+
+    /** Adds a condition for a filter; accepts a function which builds the
+     * condition from the placeholder for the filter's value */
+    function _addCondition(condition: (placeholder: string) => string, value: unknown) {
+      values.push(value);
+      whereConditions.push(condition(`$${values.length}`));
+    }
+
+    /** Escapes the wildcards in a value to be matched w/ LIKE */
+    function _escapeLike(value: string): string {
+      return value.replace(/[\\%_]/g, "\\$&");
+    }
   }
 
   /**
    * Given a player id, return data about player.
    *
-   * Returns { id, name, color, ai, createdOn }
+   * Returns { id, name, color, ai, aiDifficulty, rating, createdOn }
    *
    * Throws NotFoundError if not found.
    **/
@@ -103,6 +240,8 @@ class Player {
                name,
                color,
                ai,
+               ai_difficulty AS "aiDifficulty",
+               rating,
                created_on AS "createdOn"
         FROM players
         WHERE id = $1
@@ -115,6 +254,124 @@ class Player {
     return player;
   }
 
+  /**
+   * Given a player id and password, verifies the password.
+   *
+   * Returns { id, name, color, ai, aiDifficulty, rating, createdOn }
+   *
+   * Throws UnauthorizedError if the player doesn't exist, has no password
+   * or the password is wrong.
+   **/
+  static async authenticate(id: string, password: string) : Promise<PlayerInterface> {
+    const result = await db.query(`
+        SELECT ${SQLQueries.defaultPlayerCols},
+               password
+        FROM players
+        WHERE id = $1`, [id]);
+
+    const row = result.rows[0];
+
+    if (row && row.password !== null && await verifyPassword(password, row.password)) {
+      delete row.password;
+      const player : PlayerInterface = row;
+      return player;
+    }
+
+    throw new UnauthorizedError("Invalid player ID / password.");
+  }
+
+  /**
+   * Update player data with `data`.
+   *
+   * This is a "partial update" --- it's fine if data doesn't contain all the
+   * fields; this only changes provided ones.
+   *
+   * Data can include: { name, color }
+   *
+   * Returns { id, name, color, ai, aiDifficulty, rating, createdOn }
+   *
+   * Throws NotFoundError if not found.
+   */
+  static async update(id: string, data: PlayerUpdateInterface) : Promise<PlayerInterface> {
+    const { setCols, values } = sqlForPartialUpdate(data);
+    const idVarIdx = "$" + (values.length + 1);
+
+    const result = await db.query(`
+        UPDATE players
+        SET ${setCols}
+        WHERE id = ${idVarIdx}
+        RETURNING ${SQLQueries.defaultPlayerCols}`, [...values, id]);
+
+    const player : PlayerInterface = result.rows[0];
+
+    if (!player) throw new NotFoundError(`No player with id: ${id}`);
+
+    return player;
+  }
+
+  /**
+   * Given a player id, computes stats from the player's finished games.
+   *
+   * A game is won by the player who was the current player when it was won
+   * (game state 2, or 4 when won on time); every other player in it lost.
+   * Game state 3 is a tie.
+   * Streaks count consecutive wins, ordered by each game's last turn
+   * (turn IDs break ties between turns made in the same second).
+   *
+   * Wins and losses are also counted by how the game ended (e.g. connect,
+   * resignation, timeout; see GameEndReasonType).
+   *
+   * Returns { playerId, gamesPlayed, wins, losses, ties, winRate,
+   * currentStreak, longestStreak, averageMovesToWin, winsByReason,
+   * lossesByReason }
+   * winRate and averageMovesToWin are null until there is a game / win
+   *
+   * Throws NotFoundError if not found.
+   */
+  static async getStats(id: string) : Promise<PlayerStatsInterface> {
+    await Player.get(id);
+
+    const result = await db.query(`
+        SELECT games.id AS "gameId",
+               games.game_state AS "gameState",
+               games.curr_player_id AS "currPlayerId",
+               games.end_reason AS "endReason",
+               COUNT(game_turns.id)
+                 FILTER (WHERE game_turns.player_id = $1)::int AS "moveCount"
+        FROM games
+        INNER JOIN game_players ON game_players.game_id = games.id
+        LEFT JOIN game_turns ON game_turns.game_id = games.id
+        WHERE game_players.player_id = $1
+          AND games.game_state IN (2, 3, 4)
+        GROUP BY games.id
+        ORDER BY COALESCE(MAX(game_turns.created_on_epoch),
+                          extract(epoch from games.created_on)),
+                 MAX(game_turns.id) NULLS FIRST,
+                 games.created_on`, [id]);
+
+    const games : PlayerGameResultInterface[] = result.rows;
+    const won = games.filter(g => _isWin(g, id));
+    const lost = games.filter(g => g.gameState !== 3 && !_isWin(g, id));
+    const ties = games.filter(g => g.gameState === 3).length;
+    const { currentStreak, longestStreak } = _computeStreaks(games, id);
+
+    return {
+      playerId: id,
+      gamesPlayed: games.length,
+      wins: won.length,
+      losses: lost.length,
+      ties,
+      winRate: games.length === 0 ? null : won.length / games.length,
+      currentStreak,
+      longestStreak,
+      averageMovesToWin: won.length === 0
+        ? null
+        : won.reduce((sum, g) => sum + g.moveCount, 0) / won.length,
+      winsByReason: _countByReason(won),
+      lossesByReason: _countByReason(lost)
+    };
+  }
+
   /**
    * Delete given player from database; returns undefined.
    *
@@ -132,20 +389,105 @@ class Player {
   }
 
   /** Performs a turn for the specific player in the specified game.
-   * Should only be called on behalf of AI players by the AI logic.
+   * Should only be called on behalf of AI players by the AI logic, or for a
+   * player whose turn timed out (w/ a difficulty of 'random').
+   * The column is chosen by the AI engine at the player's difficulty unless
+   * a difficulty is specified.
+   * In PopOut games, the player only pops out a piece once the board is full.
+   * In powerUps games, the player only uses a power-up (an anvil) once the
+   * board is full.
    */
-  static async takeTurn(gameId: string, playerId: string) : Promise<undefined> {
+  static async takeTurn(
+    gameId: string,
+    playerId: string,
+    difficulty?: AiDifficultyType
+  ) : Promise<undefined> {
     console.log("takeTurn() called for playerId:", playerId);
+    const player = await Player.get(playerId);
     const game = await Game.get(gameId);
-    const board = await Board.get(game.boardId);
-    const availCols = await Board.getAvailColumns(game.boardId);
-    console.log("columns available:", availCols);
+    const gamePlayers = await Game.getPlayers(gameId);
+
+    // the engine searches as if the player who moves next is the only
+    // opponent (skipping players who have already finished)
+    const currPlayer = gamePlayers.find(p => p.id === playerId);
+    const currPlayOrder = currPlayer?.playOrder ?? -1;
+    const otherPlayers = gamePlayers
+      .filter(p => p.id !== playerId && p.finalPlace === null && p.playOrder !== null)
+      .sort((a, b) => (a.playOrder as number) - (b.playOrder as number));
+    const opponent = otherPlayers.find(p => (p.playOrder as number) > currPlayOrder)
+      ?? otherPlayers[0];
+    if (opponent === undefined) throw new Error("Unable to find opponent for AI player.");
+
     await delay(delayInMs);
-    let colToAttempt = availCols[Math.floor(Math.random() * availCols.length)];
+
+    const availCols = AiEngine.getAvailColumns(Board.toPieceMatrix(game.boardData));
+    if (game.variant === "popOut" && availCols.length === 0) {
+      const bottomRow = game.boardData[game.boardHeight - 1];
+      const poppableCols = bottomRow
+        .map((cell, col) => cell.playerId === playerId ? col : null)
+        .filter((col): col is number => col !== null);
+      const colToPop = poppableCols[Math.floor(Math.random() * poppableCols.length)];
+      console.log(`attempting to pop piece for AI player: ${playerId} at column: ${colToPop} ...`);
+      await Game.popPiece(gameId, playerId, colToPop);
+      return;
+    }
+    if (game.variant === "powerUps" && availCols.length === 0) {
+      // a full board only goes on if the AI player has an anvil to use
+      const colForAnvil = Math.floor(Math.random() * game.boardWidth);
+      console.log(`attempting to use anvil for AI player: ${playerId} at column: ${colForAnvil} ...`);
+      await Game.usePowerUp(gameId, playerId, colForAnvil, "anvil");
+      return;
+    }
+
+    let colToAttempt = AiEngine.chooseColumn(
+      game.boardData,
+      playerId,
+      opponent.id,
+      difficulty ?? player.aiDifficulty ?? DEFAULT_AI_DIFFICULTY
+    );
     console.log(`attempting to drop piece for AI player: ${playerId} at column: ${colToAttempt} ...`);
     await Game.dropPiece(gameId, playerId, colToAttempt);
   }
 
 }
 
-export { Player, NewPlayerInterface, PlayerInterface };
+function _isWin(game: PlayerGameResultInterface, playerId: string) : boolean {
+  return (game.gameState === 2 || game.gameState === 4) &&
+    game.currPlayerId === playerId;
+}
+
+/** Counts games by how they ended; returns like { connect: 2, timeout: 1 } */
+function _countByReason(games: PlayerGameResultInterface[]) : Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (let game of games) {
+    const reason = game.endReason ?? "unknown";
+    counts[reason] = (counts[reason] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/** Given finished games (oldest first), counts the player's consecutive wins
+ * Returns { currentStreak, longestStreak }
+ */
+function _computeStreaks(
+  games: PlayerGameResultInterface[],
+  playerId: string
+) : { currentStreak: number, longestStreak: number } {
+  let currentStreak = 0;
+  let longestStreak = 0;
+  for (let game of games) {
+    currentStreak = _isWin(game, playerId) ? currentStreak + 1 : 0;
+    longestStreak = Math.max(longestStreak, currentStreak);
+  }
+  return { currentStreak, longestStreak };
+}
+
+export {
+  Player,
+  NewPlayerInterface,
+  PlayerInterface,
+  PlayerUpdateInterface,
+  PlayerStatsInterface,
+  PlayerFiltersInterface,
+  PlayerPageInterface
+};
@@ -0,0 +1,112 @@
+import { Game } from "./game";
+import { Player } from "./player";
+import { Rating, DEFAULT_RATING } from "./rating";
+import { createNearlyWonGame, createNearlyTiedGame, createPlayers } from "./_factories";
+
+import {
+  commonBeforeAll,
+  commonBeforeEach,
+  commonAfterEach,
+  commonAfterAll
+} from "./_testCommon";
+
+beforeAll(commonBeforeAll);
+beforeEach(commonBeforeEach);
+afterEach(commonAfterEach);
+afterAll(commonAfterAll);
+
+const boardDimensions = { width: 6, height: 6 };
+
+describe("calculate a rating", function () {
+
+  test("evenly rated players move by half the K factor", function () {
+    expect(Rating.calculate(1500, 1500, 1)).toEqual(1516);
+    expect(Rating.calculate(1500, 1500, 0)).toEqual(1484);
+    expect(Rating.calculate(1500, 1500, 0.5)).toEqual(1500);
+  });
+
+  test("beating a stronger player gains more", function () {
+    expect(Rating.calculate(1400, 1600, 1)).toEqual(1424);
+    expect(Rating.calculate(1600, 1400, 1)).toEqual(1608);
+  });
+
+});
+
+describe("rate finished games", function () {
+
+  test("a won game updates both players", async function () {
+    const players = await createPlayers(2);
+    const playerIds = players.map(p => p.id);
+    const game = await createNearlyWonGame(boardDimensions, playerIds, playerIds[0]);
+
+    await Game.dropPiece(game.id, playerIds[0], 0);
+
+    expect((await Player.get(playerIds[0])).rating).toEqual(DEFAULT_RATING + 16);
+    expect((await Player.get(playerIds[1])).rating).toEqual(DEFAULT_RATING - 16);
+
+    const history = await Rating.getHistory(playerIds[1]);
+    expect(history).toEqual([{
+      playerId: playerIds[1],
+      gameId: game.id,
+      ratingBefore: DEFAULT_RATING,
+      ratingAfter: DEFAULT_RATING - 16,
+      createdOn: expect.any(Date)
+    }]);
+  });
+
+  test("a tied game is recorded w/o changing even ratings", async function () {
+    const players = await createPlayers(1);
+    const game = await createNearlyTiedGame(boardDimensions, players[0].id);
+    const gamePlayers = await Game.getPlayers(game.id);
+
+    await Game.dropPiece(game.id, players[0].id, 0);
+
+    for (let gamePlayer of gamePlayers) {
+      const history = await Rating.getHistory(gamePlayer.id);
+      expect(history.map(h => h.ratingAfter)).toEqual([DEFAULT_RATING]);
+    }
+  });
+
+  test("games w/o exactly two players aren't rated", async function () {
+    const players = await createPlayers(3);
+    const game = await Game.create({ ...boardDimensions, maxPlayers: 3 });
+    await Game.addPlayers(game.id, players.map(p => p.id));
+
+    expect(await Rating.recordGame(game.id, players[0].id)).toEqual([]);
+  });
+
+  test("an unfinished game isn't rated", async function () {
+    const players = await createPlayers(2);
+    const playerIds = players.map(p => p.id);
+    const game = await createNearlyWonGame(boardDimensions, playerIds, playerIds[0]);
+
+    await Game.dropPiece(game.id, playerIds[0], 1);
+
+    expect(await Rating.getHistory(playerIds[0])).toEqual([]);
+  });
+
+});
+
+describe("get the leaderboard", function () {
+
+  test("ranks players by rating", async function () {
+    const players = await createPlayers(2);
+    const playerIds = players.map(p => p.id);
+    const game = await createNearlyWonGame(boardDimensions, playerIds, playerIds[1]);
+    await Game.dropPiece(game.id, playerIds[1], 0);
+
+    const leaderboard = await Rating.getLeaderboard();
+    const ids = leaderboard.players.map(p => p.id);
+    expect(ids.indexOf(playerIds[1])).toBeLessThan(ids.indexOf(playerIds[0]));
+    expect(leaderboard.players[0].rank).toEqual(1);
+  });
+
+  test("paginates", async function () {
+    await createPlayers(3);
+    const leaderboard = await Rating.getLeaderboard({ limit: 2, offset: 1 });
+    expect(leaderboard.players.length).toEqual(2);
+    expect(leaderboard.total).toBeGreaterThanOrEqual(3);
+    expect(leaderboard.offset).toEqual(1);
+  });
+
+});
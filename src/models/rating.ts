@@ -0,0 +1,201 @@
+import { QueryResult } from "pg";
+
+import db from "../db";
+
+/** Elo ratings for players
+ * Every finished (won or tied) two-player game updates both players'
+ * ratings; each change is kept in the rating history
+ */
+
+const DEFAULT_RATING = 1500;
+
+// the most a rating can change by in a single game
+const K_FACTOR = 32;
+
+interface RatingChangeInterface {
+  playerId: string;
+  gameId: string | null;
+  ratingBefore: number;
+  ratingAfter: number;
+  createdOn: Date;
+}
+
+interface LeaderboardEntryInterface {
+  rank: number;
+  id: string;
+  name: string;
+  color: string;
+  ai: boolean;
+  rating: number;
+}
+
+interface LeaderboardFiltersInterface {
+  limit?: number;
+  offset?: number;
+  excludeAi?: boolean;
+}
+
+interface LeaderboardInterface {
+  players: LeaderboardEntryInterface[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// a player in a game being rated
+interface RatedPlayerInterface {
+  id: string;
+  rating: number;
+}
+
+class Rating {
+
+  /**
+   * Updates the ratings of both players in a finished two-player game
+   * Accepts the game ID and the winning player's ID (null for a tie)
+   * Should be called from within the transaction which finished the game;
+   * games with any other number of players are not rated
+   * Returns the rating changes made (empty if the game wasn't rated)
+   */
+  static async recordGame(
+    gameId: string,
+    winningPlayerId: string | null
+  ): Promise<RatingChangeInterface[]> {
+    console.log("Rating.recordGame() called with gameId:", gameId);
+
+    // lock the players so concurrent games don't lose each other's changes
+    const result: QueryResult<RatedPlayerInterface> = await db.query(`
+        SELECT players.id,
+               players.rating
+        FROM players
+        INNER JOIN game_players ON game_players.player_id = players.id
+        WHERE game_players.game_id = $1
+        ORDER BY players.id
+        FOR UPDATE OF players`, [gameId]);
+
+    const players = result.rows;
+    if (players.length !== 2) return [];
+
+    const [playerA, playerB] = players;
+    const scoreA = winningPlayerId === null
+      ? 0.5
+      : winningPlayerId === playerA.id ? 1 : 0;
+
+    const changes: RatingChangeInterface[] = [];
+    for (let [player, opponent, score] of [
+      [playerA, playerB, scoreA],
+      [playerB, playerA, 1 - scoreA]
+    ] as [RatedPlayerInterface, RatedPlayerInterface, number][]) {
+      const newRating = Rating.calculate(player.rating, opponent.rating, score);
+      changes.push(await _saveRatingChange(player, gameId, newRating));
+    }
+
+    return changes;
+  }
+
+  /**
+   * Calculates a player's new Elo rating after a game
+   * Accepts the player's and opponent's ratings before the game and the
+   * player's score (1 for a win, 0.5 for a tie, 0 for a loss)
+   * Returns the new rating (rounded to a whole number)
+   */
+  static calculate(rating: number, opponentRating: number, score: number): number {
+    const expectedScore = 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+    return Math.round(rating + K_FACTOR * (score - expectedScore));
+  }
+
+  /**
+   * Retrieves a player's rating changes, most recent first
+   * Returns [{ playerId, gameId, ratingBefore, ratingAfter, createdOn }, ...]
+   */
+  static async getHistory(playerId: string): Promise<RatingChangeInterface[]> {
+    const result: QueryResult<RatingChangeInterface> = await db.query(`
+        SELECT player_id AS "playerId",
+               game_id AS "gameId",
+               rating_before AS "ratingBefore",
+               rating_after AS "ratingAfter",
+               created_on AS "createdOn"
+        FROM rating_history
+        WHERE player_id = $1
+        ORDER BY id DESC`, [playerId]);
+    return result.rows;
+  }
+
+  /**
+   * Retrieves a page of players ranked by rating (highest first)
+   * Accepts optional filters like { limit, offset, excludeAi }
+   * (limit defaults to 25, offset to 0 and excludeAi to false)
+   * Players w/ the same rating share a rank
+   * Returns { players, total, limit, offset } where players are like
+   * { rank, id, name, color, ai, rating }
+   */
+  static async getLeaderboard(
+    filters: LeaderboardFiltersInterface = {}
+  ): Promise<LeaderboardInterface> {
+    const { limit = 25, offset = 0, excludeAi = false } = filters;
+
+    const whereClause = excludeAi ? "WHERE ai = FALSE" : "";
+
+    const result: QueryResult<LeaderboardEntryInterface & { total: number }> =
+      await db.query(`
+        SELECT RANK() OVER (ORDER BY rating DESC)::int AS rank,
+               id,
+               name,
+               color,
+               ai,
+               rating,
+               COUNT(*) OVER ()::int AS total
+        FROM players
+        ${whereClause}
+        ORDER BY rating DESC, created_on, id
+        LIMIT $1
+        OFFSET $2`, [limit, offset]);
+
+    let total = result.rows[0]?.total;
+    if (total === undefined) {
+      // the page is past the last player, so count them separately
+      const countResult = await db.query(`
+          SELECT COUNT(*)::int AS count
+          FROM players
+          ${whereClause}`);
+      total = countResult.rows[0].count;
+    }
+
+    const players = result.rows.map(({ total, ...player }) => player);
+    return { players, total: total as number, limit, offset };
+  }
+}
+
+/** Sets a player's rating and records the change in the rating history */
+async function _saveRatingChange(
+  player: RatedPlayerInterface,
+  gameId: string,
+  newRating: number
+): Promise<RatingChangeInterface> {
+  await db.query(`
+      UPDATE players
+      SET rating = $1
+      WHERE id = $2`, [newRating, player.id]);
+
+  const result: QueryResult<RatingChangeInterface> = await db.query(`
+      INSERT INTO rating_history (player_id, game_id, rating_before, rating_after)
+      VALUES ($1, $2, $3, $4)
+      RETURNING player_id AS "playerId",
+                game_id AS "gameId",
+                rating_before AS "ratingBefore",
+                rating_after AS "ratingAfter",
+                created_on AS "createdOn"`,
+    [player.id, gameId, player.rating, newRating]);
+
+  return result.rows[0];
+}
+
+export {
+  Rating,
+  DEFAULT_RATING,
+  K_FACTOR,
+  RatingChangeInterface,
+  LeaderboardEntryInterface,
+  LeaderboardFiltersInterface,
+  LeaderboardInterface
+};
@@ -0,0 +1,104 @@
+import db from "../db";
+import { NotFoundError } from "../expressError";
+import { Game } from "./game";
+import { Spectator } from "./spectator";
+import { GameEvents, GameEventInterface } from "../utilities/gameEvents";
+
+import {
+  commonBeforeAll,
+  commonBeforeEach,
+  commonAfterEach,
+  commonAfterAll
+} from "./_testCommon";
+import { randomUUID } from "crypto";
+
+beforeAll(commonBeforeAll);
+beforeEach(commonBeforeEach);
+afterEach(commonAfterEach);
+afterAll(commonAfterAll);
+
+const boardDimensions = { width: 6, height: 6 };
+
+describe("register", function () {
+
+  test("registers a spectator and counts them as watching", async function () {
+    const game = await Game.create(boardDimensions);
+
+    const spectator = await Spectator.register(game.id, "Watcher");
+    expect(spectator).toEqual({
+      id: expect.any(String),
+      gameId: game.id,
+      name: "Watcher",
+      lastSeenOn: expect.any(Date),
+      createdOn: expect.any(Date)
+    });
+
+    expect(await Spectator.count(game.id)).toEqual(1);
+    expect((await Game.get(game.id)).spectatorCount).toEqual(1);
+  });
+
+  test("doesn't add the spectator to the game's players", async function () {
+    const game = await Game.create(boardDimensions);
+    await Spectator.register(game.id);
+
+    expect(await Game.getPlayers(game.id)).toEqual([]);
+    expect((await Game.get(game.id)).totalPlayers).toEqual(0);
+  });
+
+  test("publishes a spectatorJoined event", async function () {
+    const game = await Game.create(boardDimensions);
+    const events: GameEventInterface[] = [];
+    const unsubscribe = GameEvents.subscribe(game.id, e => events.push(e));
+
+    const spectator = await Spectator.register(game.id);
+    unsubscribe();
+
+    expect(events.map(e => e.type)).toEqual(["spectatorJoined"]);
+    expect(events[0].data).toEqual({
+      spectatorId: spectator.id,
+      name: null,
+      spectatorCount: 1
+    });
+  });
+
+  test("throws NotFoundError for a game that doesn't exist", async function () {
+    await expect(Spectator.register(randomUUID())).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe("touch and count", function () {
+
+  test("only counts recently seen spectators", async function () {
+    const game = await Game.create(boardDimensions);
+    const spectator = await Spectator.register(game.id);
+    await Spectator.register(game.id);
+
+    await db.query(`
+        UPDATE game_spectators
+        SET last_seen_on = last_seen_on - interval '1 hour'`);
+    expect(await Spectator.count(game.id)).toEqual(0);
+
+    await Spectator.touch(game.id, spectator.id);
+    expect(await Spectator.count(game.id)).toEqual(1);
+  });
+
+  test("throws NotFoundError for a spectator of another game", async function () {
+    const game = await Game.create(boardDimensions);
+    const otherGame = await Game.create(boardDimensions);
+    const spectator = await Spectator.register(otherGame.id);
+
+    await expect(Spectator.touch(game.id, spectator.id)).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe("remove", function () {
+
+  test("stops a spectator watching", async function () {
+    const game = await Game.create(boardDimensions);
+    const spectator = await Spectator.register(game.id);
+
+    await Spectator.remove(game.id, spectator.id);
+    expect(await Spectator.count(game.id)).toEqual(0);
+    await expect(Spectator.remove(game.id, spectator.id)).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,108 @@
+import { QueryResult } from "pg";
+
+import db from "../db";
+import { NotFoundError } from "../expressError";
+import { SPECTATOR_ACTIVE_SECONDS } from "../config";
+import { GameEvents } from "../utilities/gameEvents";
+import { SQLQueries } from "../utilities/sqlQueries";
+import { Game } from "./game";
+
+/** Spectators watching games
+ * Spectators aren't players: they get a token for a single game which lets
+ * them watch it (see GET /games/:id/spectate) but not take any actions
+ * Spectators are counted as watching while they've been seen recently;
+ * their last seen time is refreshed whenever they view the game
+ */
+
+interface SpectatorInterface {
+  id: string;
+  gameId: string;
+  name: string | null;
+  lastSeenOn: Date;
+  createdOn: Date;
+}
+
+class Spectator {
+
+  /**
+   * Registers a spectator for a game, optionally w/ a name
+   * Returns the spectator like { id, gameId, name, lastSeenOn, createdOn }
+   * Throws NotFoundError if the game doesn't exist
+   */
+  static async register(gameId: string, name?: string): Promise<SpectatorInterface> {
+    console.log("Spectator.register() called w/ gameId:", gameId);
+
+    await Game.get(gameId);
+
+    const result: QueryResult<SpectatorInterface> = await db.query(`
+        INSERT INTO game_spectators (game_id, name)
+        VALUES ($1, $2)
+        RETURNING ${SQLQueries.defaultSpectatorCols}`, [gameId, name ?? null]);
+    const spectator = result.rows[0];
+
+    GameEvents.publish(gameId, "spectatorJoined", {
+      spectatorId: spectator.id,
+      name: spectator.name,
+      spectatorCount: await Spectator.count(gameId)
+    });
+
+    return spectator;
+  }
+
+  /**
+   * Records that a spectator is still watching a game
+   * Returns the updated spectator
+   * Throws NotFoundError if they aren't a spectator of the game
+   */
+  static async touch(gameId: string, spectatorId: string): Promise<SpectatorInterface> {
+    const result: QueryResult<SpectatorInterface> = await db.query(`
+        UPDATE game_spectators
+        SET last_seen_on = current_timestamp
+        WHERE id = $1
+          AND game_id = $2
+        RETURNING ${SQLQueries.defaultSpectatorCols}`, [spectatorId, gameId]);
+
+    const spectator = result.rows[0];
+    if (!spectator) throw new NotFoundError(`No spectator with id: ${spectatorId} in game.`);
+
+    return spectator;
+  }
+
+  /**
+   * Stops a spectator watching a game; returns undefined
+   * Throws NotFoundError if they aren't a spectator of the game
+   */
+  static async remove(gameId: string, spectatorId: string): Promise<undefined> {
+    const result = await db.query(`
+        DELETE FROM game_spectators
+        WHERE id = $1
+          AND game_id = $2
+        RETURNING id`, [spectatorId, gameId]);
+
+    if (!result.rows[0]) throw new NotFoundError(`No spectator with id: ${spectatorId} in game.`);
+
+    GameEvents.publish(gameId, "spectatorLeft", {
+      spectatorId,
+      spectatorCount: await Spectator.count(gameId)
+    });
+  }
+
+  /**
+   * Counts the spectators currently watching a game (those seen within the
+   * last SPECTATOR_ACTIVE_SECONDS)
+   */
+  static async count(gameId: string): Promise<number> {
+    const result: QueryResult<{ count: number }> = await db.query(`
+        SELECT COUNT(*)::int AS count
+        FROM game_spectators
+        WHERE game_id = $1
+          AND last_seen_on > current_timestamp - make_interval(secs => $2)`,
+      [gameId, SPECTATOR_ACTIVE_SECONDS]);
+    return result.rows[0].count;
+  }
+}
+
+export {
+  Spectator,
+  SpectatorInterface
+};
@@ -4,11 +4,33 @@ import { QueryResult } from "pg";
 
 import db from "../db";
 
-interface TurnInterface {
+// one-use pieces players get in powerUps games:
+// - anvil: clears its column and lands on the bottom as the player's piece
+// - wall: a neutral piece which counts for no one
+// - bomb: removes an opponent piece next to where it lands (and itself)
+export type PowerUpType = "anvil" | "wall" | "bomb";
+
+export const POWER_UP_TYPES: PowerUpType[] = ["anvil", "wall", "bomb"];
+
+// drop: a piece was dropped in a column
+// pop: a piece was popped out of the bottom row (PopOut games only)
+// anvil, wall or bomb: a power-up was used (powerUps games only)
+export type MoveType = "drop" | "pop" | PowerUpType;
+
+// what a move did besides placing (or popping) a piece: the [y, x]
+// locations of the pieces it removed (before the pieces above them fell)
+export interface TurnEffectInterface {
+  removed: number[][];
+}
+
+export interface TurnInterface {
   turnId: number,
   gameId: string,
-  playerId: string,
-  location: string[]
+  playerId: string | null,
+  location: number[],
+  moveType: MoveType,
+  effect: TurnEffectInterface | null,
+  createdOnEpoch: number
 }
 
 export class Turn {
@@ -17,19 +39,37 @@ export class Turn {
    * Creates a new record of a turn taking place for a given game and player
    * @param gameId - The ID of the game this turn is associated with.
    * @param playerId - The Id of the player this turn is associated with.
-   * @param location - The [y, x] coordinates of where the piece was placed.
+   * @param location - The [y, x] coordinates of where the piece was placed
+   * (or popped out from).
+   * @param moveType - Whether the piece was dropped (default), popped out
+   * or a power-up was used.
+   * @param effect - The pieces the move removed, if any.
    * Returns undefined.
    */
   static async create(
     gameId: string,
     playerId: string,
-    location: number[]
+    location: number[],
+    moveType: MoveType = "drop",
+    effect: TurnEffectInterface | null = null
   ) : Promise<undefined> {
     console.log("Turns.create() called.")
     await db.query(`
-        INSERT INTO game_turns ( game_id, player_id, location )
-        VALUES ( $1, $2, $3 )
-      `, [gameId, playerId, location]);
+        INSERT INTO game_turns ( game_id, player_id, location, move_type, effect )
+        VALUES ( $1, $2, $3, $4, $5 )
+      `, [gameId, playerId, location, moveType, effect]);
+  }
+
+  /**
+   * Deletes the turns with the specified IDs (e.g. when moves are undone)
+   * Returns undefined.
+   */
+  static async delete(turnIds: number[]) : Promise<undefined> {
+    console.log("Turns.delete() called.")
+    await db.query(`
+        DELETE FROM game_turns
+        WHERE id = ANY($1)
+      `, [turnIds]);
   }
 
   /**
@@ -50,7 +90,10 @@ export class Turn {
         id as "turnId",
         game_id as "gameId",
         player_id as "playerId",
-        location
+        location,
+        move_type as "moveType",
+        effect,
+        created_on_epoch::int as "createdOnEpoch"
       FROM game_turns
       WHERE ${whereConditions}
       ORDER BY id
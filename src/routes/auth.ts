@@ -0,0 +1,25 @@
+"use strict";
+/** Routes for authentication */
+
+import express, { Request, Response, Router } from "express";
+
+import { Player } from "../models/player";
+import { validateSchema } from "../utilities/schemaValidation";
+import { createToken } from "../utilities/tokens";
+
+import authTokenSchema from "../schemas/authToken.json";
+
+const router: Router = express.Router();
+
+/** Gets a new token for a player based on req object { playerId, password }
+ * Only players created w/ a password can get new tokens
+ * Returns { token } which is sent like 'Authorization: Bearer <token>'
+ */
+router.post("/token", async function (req: Request, res: Response) {
+  validateSchema(req.body, authTokenSchema);
+  const player = await Player.authenticate(req.body.playerId, req.body.password);
+  const token = createToken(player.id);
+  return res.json({ token });
+});
+
+export { router as authRouter };
@@ -0,0 +1,1020 @@
+import request from "supertest";
+import app from "../app";
+
+import { Game } from "../models/game";
+import {
+  createNearlyTiedGame,
+  createPlayers,
+  createStartedGame
+} from "../models/_factories";
+import { createToken } from "../utilities/tokens";
+import { encodeCursor } from "../utilities/pagination";
+import {
+  commonBeforeAll,
+  commonBeforeEach,
+  commonAfterEach,
+  commonAfterAll
+} from "../models/_testCommon";
+import { randomUUID } from "crypto";
+
+beforeAll(commonBeforeAll);
+beforeEach(commonBeforeEach);
+afterEach(commonAfterEach);
+afterAll(commonAfterAll);
+
+const boardDimensions = { width: 6, height: 6 };
+
+/** Creates a game with two new players and starts it
+ * Returns the started game and the ID of the current and other player
+ */
+async function createTwoPlayerGame() {
+  const { game, playerIds: [currPlayerId, otherPlayerId] } =
+    await createStartedGame(boardDimensions);
+  return { game, currPlayerId, otherPlayerId };
+}
+
+describe("POST /games", function () {
+
+  test("creates a game", async function () {
+    const resp = await request(app).post("/games").send(boardDimensions);
+    expect(resp.statusCode).toEqual(201);
+    expect(resp.body.game.boardWidth).toEqual(6);
+  });
+
+  test("400 listing each invalid field", async function () {
+    const resp = await request(app).post("/games").send({ width: -1 });
+    expect(resp.statusCode).toEqual(400);
+    expect(resp.body.error.code).toEqual("INVALID_REQUEST");
+    const fields = resp.body.error.fields.map((f: { field: string }) => f.field);
+    expect(fields).toEqual(expect.arrayContaining(["width", "height"]));
+  });
+
+  test("creates a game with a turn clock", async function () {
+    const resp = await request(app)
+      .post("/games")
+      .send({ ...boardDimensions, clock: { type: "fischer", seconds: 300, incrementSeconds: 5 } });
+    expect(resp.statusCode).toEqual(201);
+    expect(resp.body.game.clock).toEqual({
+      type: "fischer",
+      seconds: 300,
+      incrementSeconds: 5,
+      timeoutAction: "forfeit",
+      turnStartedOn: null,
+      turnDeadline: null,
+      timeRemainingMs: null
+    });
+  });
+
+  test("400 for an invalid turn clock", async function () {
+    const resp = await request(app)
+      .post("/games")
+      .send({ ...boardDimensions, clock: { type: "hourglass", timeoutAction: "pass" } });
+    expect(resp.statusCode).toEqual(400);
+    const fields = resp.body.error.fields.map((f: { field: string }) => f.field);
+    expect(fields).toEqual(expect.arrayContaining(
+      ["clock.type", "clock.seconds", "clock.timeoutAction"]
+    ));
+  });
+
+  test("creates a game w/ a board layout", async function () {
+    const layoutResp = await request(app)
+      .post("/layouts")
+      .send({ name: "Pyramid", height: 4, width: 7, shape: "pyramid" });
+
+    const resp = await request(app)
+      .post("/games")
+      .send({ layoutId: layoutResp.body.layout.id });
+    expect(resp.statusCode).toEqual(201);
+    expect(resp.body.game.boardHeight).toEqual(4);
+    expect(resp.body.game.blockedCells).toEqual(layoutResp.body.layout.blockedCells);
+    expect(resp.body.game.boardData[0][0]).toEqual(
+      { playerId: null, validCoordSets: [], blocked: true }
+    );
+  });
+
+});
+
+describe("GET /games", function () {
+
+  test("returns a page of games", async function () {
+    await Game.create(boardDimensions);
+    const resp = await request(app).get("/games?limit=1");
+    expect(resp.statusCode).toEqual(200);
+    expect(resp.body.games.length).toEqual(1);
+    expect(resp.body.nextCursor).toEqual(expect.any(String));
+
+    const nextResp = await request(app)
+      .get(`/games?limit=1&cursor=${resp.body.nextCursor}`);
+    expect(nextResp.statusCode).toEqual(200);
+    expect(nextResp.body.games[0].id).not.toEqual(resp.body.games[0].id);
+  });
+
+  test("filters games by player", async function () {
+    const { game, currPlayerId } = await createTwoPlayerGame();
+    const resp = await request(app)
+      .get(`/games?playerId=${currPlayerId}&gameState=1`);
+    expect(resp.statusCode).toEqual(200);
+    expect(resp.body.games.map((g: { id: string }) => g.id)).toEqual([game.id]);
+    expect(resp.body.nextCursor).toBeNull();
+  });
+
+  test("400 for invalid filters", async function () {
+    const resp = await request(app).get("/games?gameState=x&createdAfter=yesterday");
+    expect(resp.statusCode).toEqual(400);
+  });
+
+  test("400 for an invalid cursor", async function () {
+    const resp = await request(app).get("/games?cursor=nope");
+    expect(resp.statusCode).toEqual(400);
+  });
+
+  test("400 for a cursor w/ a value of the wrong type", async function () {
+    const cursor = encodeCursor({ value: "x", id: randomUUID() });
+    const resp = await request(app).get(`/games?sortBy=gameState&cursor=${cursor}`);
+    expect(resp.statusCode).toEqual(400);
+  });
+});
+
+describe("GET /games/:id", function () {
+
+  test("404 for a game that doesn't exist", async function () {
+    const resp = await request(app).get(`/games/${randomUUID()}`);
+    expect(resp.statusCode).toEqual(404);
+    expect(resp.body.error.code).toEqual("NOT_FOUND");
+  });
+
+});
+
+describe("DELETE /games/:id", function () {
+
+  test("deletes a game", async function () {
+    const [player] = await createPlayers(1);
+    const game = await Game.create(boardDimensions);
+    await Game.addPlayers(game.id, [player.id]);
+
+    const resp = await request(app)
+      .delete(`/games/${game.id}`)
+      .set("authorization", `Bearer ${createToken(player.id)}`);
+    expect(resp.body).toEqual({ deleted: game.id });
+  });
+
+  test("404 for a game that doesn't exist", async function () {
+    const [player] = await createPlayers(1);
+    const resp = await request(app)
+      .delete(`/games/${randomUUID()}`)
+      .set("authorization", `Bearer ${createToken(player.id)}`);
+    expect(resp.statusCode).toEqual(404);
+    expect(resp.body.error.code).toEqual("NOT_FOUND");
+  });
+
+  test("401 w/o a token", async function () {
+    const game = await Game.create(boardDimensions);
+    const resp = await request(app).delete(`/games/${game.id}`);
+    expect(resp.statusCode).toEqual(401);
+  });
+
+  test("403 for anyone but the players of a game w/o an owner", async function () {
+    const [player] = await createPlayers(1);
+    const game = await Game.create(boardDimensions);
+
+    const resp = await request(app)
+      .delete(`/games/${game.id}`)
+      .set("authorization", `Bearer ${createToken(player.id)}`);
+    expect(resp.statusCode).toEqual(403);
+  });
+
+  test("403 for anyone but the owner of an owned game", async function () {
+    const [owner, player] = await createPlayers(2);
+    const game = await Game.create({ ...boardDimensions, isPrivate: true }, owner.id);
+
+    const resp = await request(app)
+      .delete(`/games/${game.id}`)
+      .set("authorization", `Bearer ${createToken(player.id)}`);
+    expect(resp.statusCode).toEqual(403);
+
+    const ownerResp = await request(app)
+      .delete(`/games/${game.id}`)
+      .set("authorization", `Bearer ${createToken(owner.id)}`);
+    expect(ownerResp.statusCode).toEqual(200);
+  });
+
+});
+
+describe("POST /games/:id/players", function () {
+
+  test("400 for a body which isn't an array of player IDs", async function () {
+    const players = await createPlayers(1);
+    const game = await Game.create(boardDimensions);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/players`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`)
+      .send({ id: players[0].id });
+    expect(resp.statusCode).toEqual(400);
+    expect(resp.body.error.code).toEqual("INVALID_REQUEST");
+  });
+
+  test("409 for a player already added", async function () {
+    const players = await createPlayers(1);
+    const game = await Game.create(boardDimensions);
+    await Game.addPlayers(game.id, [players[0].id]);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/players`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`)
+      .send([players[0].id]);
+    expect(resp.statusCode).toEqual(409);
+    expect(resp.body.error.code).toEqual("PLAYER_ALREADY_EXISTS");
+  });
+
+  test("409 for a game which is full", async function () {
+    const players = await createPlayers(3);
+    const game = await Game.create(boardDimensions);
+    await Game.addPlayers(game.id, [players[0].id, players[1].id]);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/players`)
+      .set("authorization", `Bearer ${createToken(players[2].id)}`)
+      .send([players[2].id]);
+    expect(resp.statusCode).toEqual(409);
+    expect(resp.body.error.code).toEqual("GAME_FULL");
+  });
+
+  test("404 for a player that doesn't exist", async function () {
+    const players = await createPlayers(1);
+    const game = await Game.create(boardDimensions);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/players`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`)
+      .send([randomUUID()]);
+    expect(resp.statusCode).toEqual(404);
+    expect(resp.body.error.code).toEqual("NOT_FOUND");
+  });
+
+  test("adds the authenticated player when there is no body", async function () {
+    const players = await createPlayers(1);
+    const game = await Game.create(boardDimensions);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/players`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.statusCode).toEqual(201);
+    expect(resp.body.playerCount).toEqual(1);
+  });
+
+  test("403 for adding another human player", async function () {
+    const players = await createPlayers(2);
+    const game = await Game.create(boardDimensions);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/players`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`)
+      .send(players.map(p => p.id));
+    expect(resp.statusCode).toEqual(403);
+    expect(resp.body.error.code).toEqual("FORBIDDEN");
+  });
+
+  test("401 without a token", async function () {
+    const players = await createPlayers(1);
+    const game = await Game.create(boardDimensions);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/players`)
+      .send([players[0].id]);
+    expect(resp.statusCode).toEqual(401);
+    expect(resp.body.error.code).toEqual("UNAUTHORIZED");
+  });
+
+});
+
+describe("DELETE /games/:gameid/players/:playerid", function () {
+
+  test("404 for a player not in the game", async function () {
+    const players = await createPlayers(1);
+    const game = await Game.create(boardDimensions);
+
+    const resp = await request(app)
+      .delete(`/games/${game.id}/players/${randomUUID()}`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.statusCode).toEqual(404);
+    expect(resp.body.error.code).toEqual("NOT_FOUND");
+  });
+
+  test("403 for removing another human player", async function () {
+    const players = await createPlayers(2);
+    const game = await Game.create(boardDimensions);
+    await Game.addPlayers(game.id, players.map(p => p.id));
+
+    const resp = await request(app)
+      .delete(`/games/${game.id}/players/${players[1].id}`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.statusCode).toEqual(403);
+    expect(resp.body.error.code).toEqual("FORBIDDEN");
+  });
+
+  test("removes the authenticated player", async function () {
+    const players = await createPlayers(1);
+    const game = await Game.create(boardDimensions);
+    await Game.addPlayers(game.id, [players[0].id]);
+
+    const resp = await request(app)
+      .delete(`/games/${game.id}/players/${players[0].id}`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.body).toEqual({ removed: players[0].id });
+  });
+
+});
+
+describe("POST /games/:id/start", function () {
+
+  test("409 for a game with too few players", async function () {
+    const players = await createPlayers(1);
+    const game = await Game.create(boardDimensions);
+    await Game.addPlayers(game.id, [players[0].id]);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/start`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.statusCode).toEqual(409);
+    expect(resp.body.error.code).toEqual("TOO_FEW_PLAYERS");
+  });
+
+  test("404 for a game that doesn't exist", async function () {
+    const players = await createPlayers(1);
+    const resp = await request(app)
+      .post(`/games/${randomUUID()}/start`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.statusCode).toEqual(404);
+    expect(resp.body.error.code).toEqual("NOT_FOUND");
+  });
+
+  test("401 without a token", async function () {
+    const game = await Game.create(boardDimensions);
+    const resp = await request(app).post(`/games/${game.id}/start`);
+    expect(resp.statusCode).toEqual(401);
+  });
+
+  test("403 for anyone but the players of a game w/o an owner", async function () {
+    const players = await createPlayers(3);
+    const game = await Game.create(boardDimensions);
+    await Game.addPlayers(game.id, [players[0].id, players[1].id]);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/start`)
+      .set("authorization", `Bearer ${createToken(players[2].id)}`);
+    expect(resp.statusCode).toEqual(403);
+
+    const playerResp = await request(app)
+      .post(`/games/${game.id}/start`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(playerResp.statusCode).toEqual(200);
+  });
+
+});
+
+describe("private games and owners", function () {
+
+  /** Creates a private game owned by a new player w/ room for a number of
+   * players (2 by default)
+   * Returns the game, its join code and the owner's ID and token
+   */
+  async function createPrivateGame(maxPlayers = 2) {
+    const [owner] = await createPlayers(1);
+    const ownerToken = createToken(owner.id);
+    const resp = await request(app)
+      .post("/games")
+      .set("authorization", `Bearer ${ownerToken}`)
+      .send({ ...boardDimensions, isPrivate: true, maxPlayers });
+    expect(resp.statusCode).toEqual(201);
+    return {
+      game: resp.body.game,
+      joinCode: resp.body.joinCode,
+      ownerId: owner.id,
+      ownerToken
+    };
+  }
+
+  test("creates a private game w/ an owner and join code", async function () {
+    const { game, joinCode, ownerId } = await createPrivateGame();
+    expect(game.ownerId).toEqual(ownerId);
+    expect(game.isPrivate).toEqual(true);
+    expect(joinCode).toMatch(/^[A-Z2-9]{6}$/);
+  });
+
+  test("401 for a private game w/o a token", async function () {
+    const resp = await request(app)
+      .post("/games")
+      .send({ ...boardDimensions, isPrivate: true });
+    expect(resp.statusCode).toEqual(401);
+  });
+
+  test("403 seeing or spectating a private game for anyone else", async function () {
+    const { game, ownerToken } = await createPrivateGame();
+    const [other] = await createPlayers(1);
+
+    for (let path of ["", "/players", "/turns", "/replay", "/series", "/events"]) {
+      const anonResp = await request(app).get(`/games/${game.id}${path}`);
+      expect(anonResp.statusCode).toEqual(403);
+      const otherResp = await request(app)
+        .get(`/games/${game.id}${path}`)
+        .set("authorization", `Bearer ${createToken(other.id)}`);
+      expect(otherResp.statusCode).toEqual(403);
+    }
+    const spectatorResp = await request(app).post(`/games/${game.id}/spectators`);
+    expect(spectatorResp.statusCode).toEqual(403);
+
+    const ownerResp = await request(app)
+      .get(`/games/${game.id}`)
+      .set("authorization", `Bearer ${ownerToken}`);
+    expect(ownerResp.statusCode).toEqual(200);
+  });
+
+  test("joins a private game w/ its join code only", async function () {
+    const { game, joinCode } = await createPrivateGame();
+    const [player] = await createPlayers(1);
+    const auth = `Bearer ${createToken(player.id)}`;
+
+    const directResp = await request(app)
+      .post(`/games/${game.id}/players`)
+      .set("authorization", auth);
+    expect(directResp.statusCode).toEqual(403);
+
+    const codeResp = await request(app)
+      .post(`/games/join/${joinCode.toLowerCase()}`)
+      .set("authorization", auth);
+    expect(codeResp.statusCode).toEqual(201);
+    expect(codeResp.body).toEqual({ gameId: game.id, playerCount: 1 });
+
+    const badCodeResp = await request(app)
+      .post("/games/join/NOCODE")
+      .set("authorization", auth);
+    expect(badCodeResp.statusCode).toEqual(404);
+  });
+
+  test("invites a player who accepts", async function () {
+    const { game, ownerToken } = await createPrivateGame();
+    const [player] = await createPlayers(1);
+    const auth = `Bearer ${createToken(player.id)}`;
+
+    const inviteResp = await request(app)
+      .post(`/games/${game.id}/invitations`)
+      .set("authorization", `Bearer ${ownerToken}`)
+      .send({ playerId: player.id });
+    expect(inviteResp.statusCode).toEqual(201);
+    expect(inviteResp.body.invitation.status).toEqual("pending");
+
+    const pendingResp = await request(app)
+      .get(`/players/${player.id}/invitations`)
+      .set("authorization", auth);
+    expect(pendingResp.body.invitations.map((i: { gameId: string }) => i.gameId))
+      .toEqual([game.id]);
+
+    const acceptResp = await request(app)
+      .post(`/games/${game.id}/invitations/accept`)
+      .set("authorization", auth);
+    expect(acceptResp.statusCode).toEqual(200);
+    expect(acceptResp.body.invitation.status).toEqual("accepted");
+    expect((await Game.getPlayers(game.id)).map(p => p.id)).toEqual([player.id]);
+  });
+
+  test("403 for invitations from someone other than the owner", async function () {
+    const { game } = await createPrivateGame();
+    const players = await createPlayers(2);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/invitations`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`)
+      .send({ playerId: players[1].id });
+    expect(resp.statusCode).toEqual(403);
+  });
+
+  test("only the owner can start the game or remove players", async function () {
+    const { game, joinCode, ownerId, ownerToken } = await createPrivateGame(3);
+    const players = await createPlayers(2);
+    await Game.joinWithCode(joinCode, ownerId);
+    for (let player of players) await Game.joinWithCode(joinCode, player.id);
+    const auth = `Bearer ${createToken(players[0].id)}`;
+
+    const removeResp = await request(app)
+      .delete(`/games/${game.id}/players/${players[1].id}`)
+      .set("authorization", auth);
+    expect(removeResp.statusCode).toEqual(403);
+
+    const startResp = await request(app)
+      .post(`/games/${game.id}/start`)
+      .set("authorization", auth);
+    expect(startResp.statusCode).toEqual(403);
+
+    const ownerRemoveResp = await request(app)
+      .delete(`/games/${game.id}/players/${players[1].id}`)
+      .set("authorization", `Bearer ${ownerToken}`);
+    expect(ownerRemoveResp.statusCode).toEqual(200);
+
+    const ownerStartResp = await request(app)
+      .post(`/games/${game.id}/start`)
+      .set("authorization", `Bearer ${ownerToken}`);
+    expect(ownerStartResp.statusCode).toEqual(200);
+  });
+
+  test("only lists private games to their owner and players", async function () {
+    const { game, ownerToken } = await createPrivateGame();
+
+    const publicResp = await request(app).get("/games");
+    expect(publicResp.body.games.map((g: { id: string }) => g.id)).not.toContain(game.id);
+
+    const ownerResp = await request(app)
+      .get("/games")
+      .set("authorization", `Bearer ${ownerToken}`);
+    expect(ownerResp.body.games.map((g: { id: string }) => g.id)).toContain(game.id);
+  });
+});
+
+describe("spectators", function () {
+
+  /** Registers a spectator for a game; returns { spectator, token } */
+  async function registerSpectator(gameId: string) {
+    const resp = await request(app)
+      .post(`/games/${gameId}/spectators`)
+      .send({ name: "Watcher" });
+    expect(resp.statusCode).toEqual(201);
+    return resp.body;
+  }
+
+  test("registers a spectator who is counted on the game", async function () {
+    const { game } = await createTwoPlayerGame();
+    const { spectator, token } = await registerSpectator(game.id);
+    expect(spectator.name).toEqual("Watcher");
+    expect(token).toEqual(expect.any(String));
+
+    const resp = await request(app).get(`/games/${game.id}`);
+    expect(resp.body.game.spectatorCount).toEqual(1);
+    expect(resp.body.game.totalPlayers).toEqual(2);
+  });
+
+  test("returns a read-only view of the game", async function () {
+    const { game } = await createTwoPlayerGame();
+    const { token } = await registerSpectator(game.id);
+
+    const resp = await request(app)
+      .get(`/games/${game.id}/spectate`)
+      .set("authorization", `Bearer ${token}`);
+    expect(resp.statusCode).toEqual(200);
+    expect(resp.body.game.id).toEqual(game.id);
+    expect(resp.body.players.length).toEqual(2);
+    expect(resp.body.turns).toEqual([]);
+  });
+
+  test("403 viewing another game w/ a spectator token", async function () {
+    const { game } = await createTwoPlayerGame();
+    const otherGame = await Game.create(boardDimensions);
+    const { token } = await registerSpectator(otherGame.id);
+
+    const resp = await request(app)
+      .get(`/games/${game.id}/spectate`)
+      .set("authorization", `Bearer ${token}`);
+    expect(resp.statusCode).toEqual(403);
+  });
+
+  test("403 for actions w/ a spectator token", async function () {
+    const { game, currPlayerId } = await createTwoPlayerGame();
+    const { token } = await registerSpectator(game.id);
+    const auth = `Bearer ${token}`;
+
+    const dropResp = await request(app)
+      .post(`/games/${game.id}/cols/0`)
+      .set("authorization", auth);
+    expect(dropResp.statusCode).toEqual(403);
+
+    const startResp = await request(app)
+      .post(`/games/${game.id}/start`)
+      .set("authorization", auth);
+    expect(startResp.statusCode).toEqual(403);
+
+    const joinResp = await request(app)
+      .post(`/games/${game.id}/players`)
+      .set("authorization", auth)
+      .send([currPlayerId]);
+    expect(joinResp.statusCode).toEqual(403);
+
+    const leaveResp = await request(app)
+      .delete(`/games/${game.id}/players/${currPlayerId}`)
+      .set("authorization", auth);
+    expect(leaveResp.statusCode).toEqual(403);
+
+    const updatedGame = await Game.get(game.id);
+    expect(updatedGame.placedPieces).toEqual(game.placedPieces);
+    expect(updatedGame.totalPlayers).toEqual(2);
+  });
+
+  test("removes the spectator", async function () {
+    const game = await Game.create(boardDimensions);
+    const { spectator, token } = await registerSpectator(game.id);
+
+    const resp = await request(app)
+      .delete(`/games/${game.id}/spectators/${spectator.id}`)
+      .set("authorization", `Bearer ${token}`);
+    expect(resp.statusCode).toEqual(200);
+    expect((await Game.get(game.id)).spectatorCount).toEqual(0);
+  });
+
+  test("400 for invalid spectator data", async function () {
+    const game = await Game.create(boardDimensions);
+    const resp = await request(app)
+      .post(`/games/${game.id}/spectators`)
+      .send({ name: "" });
+    expect(resp.statusCode).toEqual(400);
+  });
+});
+
+describe("POST /games/:gameid/cols/:colid", function () {
+
+  test("400 for a column which isn't a number", async function () {
+    const { game, currPlayerId } = await createTwoPlayerGame();
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/left`)
+      .set("authorization", `Bearer ${createToken(currPlayerId)}`);
+    expect(resp.statusCode).toEqual(400);
+    expect(resp.body.error.fields[0].field).toEqual("colId");
+  });
+
+  test("409 for a game which hasn't started", async function () {
+    const players = await createPlayers(2);
+    const game = await Game.create(boardDimensions);
+    await Game.addPlayers(game.id, players.map(p => p.id));
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/0`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.statusCode).toEqual(409);
+    expect(resp.body.error.code).toEqual("INVALID_GAME_STATE");
+  });
+
+  test("403 for a player who is not the current player", async function () {
+    const { game, otherPlayerId } = await createTwoPlayerGame();
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/0`)
+      .set("authorization", `Bearer ${createToken(otherPlayerId)}`);
+    expect(resp.statusCode).toEqual(403);
+    expect(resp.body.error.code).toEqual("NOT_CURRENT_PLAYER");
+  });
+
+  test("422 for a column which is out of bounds", async function () {
+    const { game, currPlayerId } = await createTwoPlayerGame();
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/${boardDimensions.width}`)
+      .set("authorization", `Bearer ${createToken(currPlayerId)}`);
+    expect(resp.statusCode).toEqual(422);
+    expect(resp.body.error.code).toEqual("INVALID_PIECE_PLACEMENT");
+  });
+
+  test("422 for a column which is full", async function () {
+    const players = await createPlayers(1);
+    const game = await createNearlyTiedGame(boardDimensions, players[0].id);
+
+    // only column 0 has room in a nearly tied game
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/1`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.statusCode).toEqual(422);
+    expect(resp.body.error.code).toEqual("INVALID_PIECE_PLACEMENT");
+  });
+
+  test("401 for an invalid token", async function () {
+    const { game, currPlayerId } = await createTwoPlayerGame();
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/0`)
+      .set("authorization", `Bearer ${createToken(currPlayerId)}x`);
+    expect(resp.statusCode).toEqual(401);
+  });
+
+  test("400 for a player ID in the body", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createTwoPlayerGame();
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/0`)
+      .set("authorization", `Bearer ${createToken(otherPlayerId)}`)
+      .send({ playerId: currPlayerId });
+    expect(resp.statusCode).toEqual(400);
+  });
+
+});
+
+describe("POST /games/:gameid/cols/:colid/pop", function () {
+
+  test("pops the authenticated player's piece out of a PopOut game", async function () {
+    const { game, playerIds: [currPlayerId, otherPlayerId] } =
+      await createStartedGame({ ...boardDimensions, variant: "popOut" });
+    await Game.dropPiece(game.id, currPlayerId, 2);
+    await Game.dropPiece(game.id, otherPlayerId, 3);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/2/pop`)
+      .set("authorization", `Bearer ${createToken(currPlayerId)}`);
+    expect(resp.statusCode).toEqual(200);
+
+    const updatedGame = await Game.get(game.id);
+    expect(updatedGame.boardData[boardDimensions.height - 1][2].playerId).toBeNull();
+  });
+
+  test("422 for a classic game", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createTwoPlayerGame();
+    await Game.dropPiece(game.id, currPlayerId, 2);
+    await Game.dropPiece(game.id, otherPlayerId, 3);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/2/pop`)
+      .set("authorization", `Bearer ${createToken(currPlayerId)}`);
+    expect(resp.statusCode).toEqual(422);
+    expect(resp.body.error.code).toEqual("INVALID_PIECE_PLACEMENT");
+  });
+
+});
+
+describe("POST /games/:gameid/cols/:colid/powerup", function () {
+
+  /** Creates and starts a powerUps game w/ two new players
+   * Returns the game and the ID of the current and other player
+   */
+  async function createStartedPowerUpGame() {
+    const { game, playerIds: [currPlayerId, otherPlayerId] } =
+      await createStartedGame({ ...boardDimensions, variant: "powerUps" });
+    return { game, currPlayerId, otherPlayerId };
+  }
+
+  test("uses the authenticated player's bomb", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createStartedPowerUpGame();
+    await Game.dropPiece(game.id, currPlayerId, 2);
+    const bottomRow = boardDimensions.height - 1;
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/3/powerup`)
+      .set("authorization", `Bearer ${createToken(otherPlayerId)}`)
+      .send({ type: "bomb", target: [bottomRow, 2] });
+    expect(resp.statusCode).toEqual(200);
+
+    const updatedGame = await Game.get(game.id);
+    expect(updatedGame.boardData[bottomRow][2].playerId).toBeNull();
+    expect(updatedGame.placedPieces).toEqual([]);
+  });
+
+  test("409 once the power-up is used up", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createStartedPowerUpGame();
+    await Game.usePowerUp(game.id, currPlayerId, 0, "wall");
+    await Game.dropPiece(game.id, otherPlayerId, 0);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/1/powerup`)
+      .set("authorization", `Bearer ${createToken(currPlayerId)}`)
+      .send({ type: "wall" });
+    expect(resp.statusCode).toEqual(409);
+    expect(resp.body.error.code).toEqual("POWER_UP_UNAVAILABLE");
+  });
+
+  test("400 for an unknown power-up", async function () {
+    const { game, currPlayerId } = await createStartedPowerUpGame();
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/1/powerup`)
+      .set("authorization", `Bearer ${createToken(currPlayerId)}`)
+      .send({ type: "rocket" });
+    expect(resp.statusCode).toEqual(400);
+  });
+
+});
+
+describe("fog of war", function () {
+
+  const bottomRow = boardDimensions.height - 1;
+
+  const fogSettings = { ...boardDimensions, variant: "fogOfWar" as const };
+
+  /** Creates a started 2 player fogOfWar game where each player has
+   * dropped two pieces: the first player in column 0, the second in column 5
+   * Returns the game and its player IDs in play order
+   */
+  async function createPlayedFogGame() {
+    const { game, playerIds } = await createStartedGame(fogSettings);
+    for (let i = 0; i < 2; i++) {
+      await Game.dropPiece(game.id, playerIds[0], 0);
+      await Game.dropPiece(game.id, playerIds[1], 5);
+    }
+    return { game, playerIds };
+  }
+
+  test("creates a fogOfWar game", async function () {
+    const resp = await request(app)
+      .post("/games")
+      .send({ ...boardDimensions, variant: "fogOfWar" });
+    expect(resp.statusCode).toEqual(201);
+    expect(resp.body.game.variant).toEqual("fogOfWar");
+  });
+
+  test("players only see opponent pieces next to their own or in the bottom row", async function () {
+    const { game, playerIds } = await createPlayedFogGame();
+
+    const resp = await request(app)
+      .get(`/games/${game.id}`)
+      .set("authorization", `Bearer ${createToken(playerIds[0])}`);
+    expect(resp.statusCode).toEqual(200);
+    const boardData = resp.body.game.boardData;
+    expect(boardData[bottomRow - 1][0].playerId).toEqual(playerIds[0]);
+    expect(boardData[bottomRow][5].playerId).toEqual(playerIds[1]);
+    expect(boardData[bottomRow - 1][5].playerId).toBeNull();
+    expect(resp.body.game.placedPieces).toEqual([
+      [bottomRow, 0], [bottomRow, 5], [bottomRow - 1, 0]
+    ]);
+  });
+
+  test("anyone else only sees the bottom row", async function () {
+    const { game } = await createPlayedFogGame();
+
+    const resp = await request(app).get(`/games/${game.id}`);
+    const boardData = resp.body.game.boardData;
+    expect(boardData[bottomRow - 1][0].playerId).toBeNull();
+    expect(boardData[bottomRow - 1][5].playerId).toBeNull();
+    expect(resp.body.game.placedPieces).toEqual([[bottomRow, 0], [bottomRow, 5]]);
+  });
+
+  test("hides the locations of turns the viewer can't see", async function () {
+    const { game, playerIds } = await createPlayedFogGame();
+
+    const resp = await request(app)
+      .get(`/games/${game.id}/turns`)
+      .set("authorization", `Bearer ${createToken(playerIds[0])}`);
+    expect(resp.body.turns.map((t: { location: number[] | null }) => t.location)).toEqual([
+      [bottomRow, 0], [bottomRow, 5], [bottomRow - 1, 0], null
+    ]);
+  });
+
+  test("hides pieces in replays of games in progress", async function () {
+    const { game } = await createPlayedFogGame();
+
+    const resp = await request(app).get(`/games/${game.id}/replay?turn=3`);
+    expect(resp.body.replay.boardData[bottomRow - 1][0].playerId).toBeNull();
+    expect(resp.body.replay.lastTurn.location).toBeNull();
+  });
+
+  test("shows every piece once the game has ended", async function () {
+    const { game, playerIds } = await createPlayedFogGame();
+    await Game.resign(game.id, playerIds[0]);
+
+    const resp = await request(app).get(`/games/${game.id}`);
+    expect(resp.body.game.boardData[bottomRow - 1][5].playerId).toEqual(playerIds[1]);
+  });
+
+  test("422 dropping into a column which looks open but is full", async function () {
+    // the other players fill column 5, where the first player only sees
+    // the bottom piece
+    const { game, playerIds } = await createStartedGame(fogSettings, 3);
+    for (let i = 0; i < boardDimensions.height / 2; i++) {
+      await Game.dropPiece(game.id, playerIds[0], 0);
+      await Game.dropPiece(game.id, playerIds[1], 5);
+      await Game.dropPiece(game.id, playerIds[2], 5);
+    }
+    const token = createToken(playerIds[0]);
+
+    const gameResp = await request(app)
+      .get(`/games/${game.id}`)
+      .set("authorization", `Bearer ${token}`);
+    expect(gameResp.body.game.boardData[0][5].playerId).toBeNull();
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/cols/5`)
+      .set("authorization", `Bearer ${token}`);
+    expect(resp.statusCode).toEqual(422);
+    expect(resp.body.error.code).toEqual("INVALID_PIECE_PLACEMENT");
+  });
+
+});
+
+describe("POST /games/:id/resign", function () {
+
+  test("resigns for the authenticated player", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createTwoPlayerGame();
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/resign`)
+      .set("authorization", `Bearer ${createToken(currPlayerId)}`);
+    expect(resp.statusCode).toEqual(200);
+    expect(resp.body.game.endReason).toEqual("resignation");
+    expect(resp.body.game.currPlayerId).toEqual(otherPlayerId);
+  });
+
+  test("403 for a player not in the game", async function () {
+    const { game } = await createTwoPlayerGame();
+    const players = await createPlayers(1);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/resign`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.statusCode).toEqual(403);
+  });
+
+});
+
+describe("POST /games/:id/rematch", function () {
+
+  test("starts a rematch w/ the other player moving first", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createTwoPlayerGame();
+    await Game.resign(game.id, currPlayerId);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/rematch`)
+      .set("authorization", `Bearer ${createToken(currPlayerId)}`)
+      .send({ swapFirstMover: true });
+    expect(resp.statusCode).toEqual(201);
+    expect(resp.body.game.gameState).toEqual(1);
+    expect(resp.body.game.currPlayerId).toEqual(otherPlayerId);
+    expect(resp.body.game.rematchOf).toEqual(game.id);
+
+    const seriesResp = await request(app).get(`/games/${game.id}/series`);
+    expect(seriesResp.statusCode).toEqual(200);
+    expect(seriesResp.body.series.games.length).toEqual(2);
+    expect(seriesResp.body.series.standings[0]).toEqual({
+      playerId: otherPlayerId, wins: 1, losses: 0, ties: 0
+    });
+  });
+
+  test("403 for a player not in the game", async function () {
+    const { game, currPlayerId } = await createTwoPlayerGame();
+    await Game.resign(game.id, currPlayerId);
+    const players = await createPlayers(1);
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/rematch`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.statusCode).toEqual(403);
+  });
+
+  test("409 for an unfinished game", async function () {
+    const { game, currPlayerId } = await createTwoPlayerGame();
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/rematch`)
+      .set("authorization", `Bearer ${createToken(currPlayerId)}`);
+    expect(resp.statusCode).toEqual(409);
+    expect(resp.body.error.code).toEqual("INVALID_GAME_STATE");
+  });
+
+});
+
+describe("POST /games/:id/draw", function () {
+
+  test("offers and accepts a draw", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createTwoPlayerGame();
+
+    let resp = await request(app)
+      .post(`/games/${game.id}/draw`)
+      .set("authorization", `Bearer ${createToken(currPlayerId)}`);
+    expect(resp.body.game.drawOfferedBy).toEqual(currPlayerId);
+
+    resp = await request(app)
+      .post(`/games/${game.id}/draw/accept`)
+      .set("authorization", `Bearer ${createToken(otherPlayerId)}`);
+    expect(resp.body.game.gameState).toEqual(3);
+    expect(resp.body.game.endReason).toEqual("drawAgreed");
+  });
+
+  test("409 for declining without an offer", async function () {
+    const { game, otherPlayerId } = await createTwoPlayerGame();
+
+    const resp = await request(app)
+      .post(`/games/${game.id}/draw/decline`)
+      .set("authorization", `Bearer ${createToken(otherPlayerId)}`);
+    expect(resp.statusCode).toEqual(409);
+    expect(resp.body.error.code).toEqual("DRAW_NOT_ALLOWED");
+  });
+
+});
+
+describe("GET /games/:id/turns", function () {
+
+  test("filters turns by player", async function () {
+    const { game, currPlayerId, otherPlayerId } = await createTwoPlayerGame();
+    await Game.dropPiece(game.id, currPlayerId, 0);
+
+    let resp = await request(app).get(`/games/${game.id}/turns`);
+    expect(resp.body.turns.length).toEqual(1);
+
+    resp = await request(app).get(`/games/${game.id}/turns?playerId=${otherPlayerId}`);
+    expect(resp.body.turns).toEqual([]);
+  });
+
+});
+
+describe("GET /games/:id/replay", function () {
+
+  test("400 for a turn which isn't a number", async function () {
+    const { game } = await createTwoPlayerGame();
+
+    const resp = await request(app).get(`/games/${game.id}/replay?turn=last`);
+    expect(resp.statusCode).toEqual(400);
+    expect(resp.body.error.fields[0].field).toEqual("turn");
+  });
+
+});
@@ -3,97 +3,616 @@
 
 
 import express, { Express, Request, Response, NextFunction, Router } from "express";
-import { ExpressError, NotFoundError, BadRequestError } from "../expressError";
+import {
+  ExpressError, NotFoundError, BadRequestError, ForbiddenError, UnauthorizedError
+} from "../expressError";
+import { ensurePlayer, ensureSpectator } from "../middleware/auth";
 
-import { Game } from "../models/game";
+import { Game, GameInterface } from "../models/game";
+import { FogOfWar } from "../models/fogOfWar";
+import { Invitation } from "../models/invitation";
+import { Player } from "../models/player";
+import { Spectator } from "../models/spectator";
+import { validateSchema, coerceInteger } from "../utilities/schemaValidation";
+import { GameEvents, GameEventInterface } from "../utilities/gameEvents";
+import { createSpectatorToken } from "../utilities/tokens";
 
-interface DropPieceRequestBody {
-  playerId: string;
-}
+import gameNewSchema from "../schemas/gameNew.json";
+import gamePlayersNewSchema from "../schemas/gamePlayersNew.json";
+import pieceDropSchema from "../schemas/pieceDrop.json";
+import piecePopSchema from "../schemas/piecePop.json";
+import powerUpUseSchema from "../schemas/powerUpUse.json";
+import gameTurnsQuerySchema from "../schemas/gameTurnsQuery.json";
+import gameReplayQuerySchema from "../schemas/gameReplayQuery.json";
+import gamesQuerySchema from "../schemas/gamesQuery.json";
+import spectatorNewSchema from "../schemas/spectatorNew.json";
+import invitationNewSchema from "../schemas/invitationNew.json";
+import gameRematchSchema from "../schemas/gameRematch.json";
 
 const router: Router = express.Router();
 
-/** Retrieves a list of all games
- * Returns array of game objects like { id, ai, color, name, created_on }
+const EVENTS_HEARTBEAT_MS = 15000;
+
+// open event streams (see GET /games/:id/events), which are ended on shutdown
+const eventStreams = new Set<Response>();
+
+/** Retrieves a page of games
+ * Accepts optional query string filters like ?gameState=1&playerId=&height=
+ * &width=&createdAfter=&createdBefore= (dates are ISO 8601; createdBefore
+ * is exclusive), sorting like ?sortBy=gameState&order=desc and pagination
+ * like ?limit=25&cursor= (limit is 1 through 100 and defaults to 25)
+ * Private games are only listed for their owner and players
+ * Returns { games, nextCursor } where games are like { id, gameState,
+ * boardHeight, boardWidth, isPrivate, createdOn, totalPlayers }; pass
+ * nextCursor as ?cursor= for the next page (it's null on the last page)
  */
 router.get("/", async function (req: Request, res: Response) {
-  const games = await Game.getAll();
-  return res.json({ games });
+  const query: Record<string, unknown> = { ...req.query };
+  for (let key of ["gameState", "height", "width", "limit"]) {
+    if (typeof query[key] === "string") query[key] = coerceInteger(query[key] as string);
+  }
+  validateSchema(query, gamesQuerySchema);
+
+  const { games, nextCursor } = await Game.getAll({
+    ...query,
+    visibleTo: res.locals.player?.playerId ?? null
+  });
+  return res.json({ games, nextCursor });
+});
+
+/** Adds the authenticated player to the (private) game w/ a join code
+ * Returns { gameId, playerCount } w/ the updated count of players
+ */
+router.post("/join/:code", ensurePlayer, async function (req: Request, res: Response) {
+  const result = await Game.joinWithCode(req.params.code, res.locals.player.playerId);
+  return res.status(201).json(result);
 });
 
 /** Retrieves the list of players in a game
- * Returns an array player objects like { id, ai, color, name, created_on }
+ * Returns an array player objects like { id, ai, color, name, created_on,
+ * playOrder, finalPlace, powerUps }
  */
 router.get("/:id/players", async function (req: Request, res: Response) {
+  await _ensureVisible(req.params.id, res);
   const players = await Game.getPlayers(req.params.id);
   return res.json({ players });
 });
 
-/** Adds a player to a game.
- * Game is specified via 'id' URL param. Player is specified via body like { id }
+/** Registers a spectator for a game w/ an optional body like { name }
+ * Spectators aren't players; their token only lets them watch the game
+ * Only those who can see a private game can register its spectators
+ * Returns { spectator, token } where spectator is like { id, gameId, name,
+ * lastSeenOn, createdOn }
+ */
+router.post("/:id/spectators", async function (req: Request, res: Response) {
+  await _ensureVisible(req.params.id, res);
+  const data = req.body ?? {};
+  validateSchema(data, spectatorNewSchema);
+  const spectator = await Spectator.register(req.params.id, data.name);
+  const token = createSpectatorToken(spectator.id, spectator.gameId);
+  return res.status(201).json({ spectator, token });
+});
+
+/** Stops the authenticated spectator watching a game
+ * Returns the removed spectator's ID
+ */
+router.delete("/:id/spectators/:spectatorid", ensureSpectator, async function (req: Request, res: Response) {
+  if (req.params.spectatorid !== res.locals.spectator.spectatorId) {
+    throw new ForbiddenError("Spectators can only remove themselves.");
+  }
+  await Spectator.remove(req.params.id, req.params.spectatorid);
+  return res.json({ removed: req.params.spectatorid });
+});
+
+/** Retrieves a read-only view of a game for the authenticated spectator
+ * and records that they are still watching
+ * Returns { game, players, turns } (like GET /games/:id, /players and /turns)
+ * Spectators of fogOfWar games only see the bottom row until the game ends
+ */
+router.get("/:id/spectate", ensureSpectator, async function (req: Request, res: Response) {
+  await Spectator.touch(req.params.id, res.locals.spectator.spectatorId);
+  const game = await Game.get(req.params.id);
+  const players = await Game.getPlayers(req.params.id);
+  const turns = await Game.getTurns(req.params.id);
+  return res.json({
+    game: FogOfWar.projectGame(game, null),
+    players,
+    turns: FogOfWar.projectTurns(game, turns, null)
+  });
+});
+
+/** Adds players to a game.
+ * Game is specified via 'id' URL param. Players are specified via body like
+ * [ playerId, ... ]; defaults to just the authenticated player
+ * Other than the authenticated player, only AI players can be added
+ * Only the owner can add players to a private game; others join it by
+ * invitation or w/ its join code
  * Returns updated count of players
  */
-router.post("/:id/players", async function (req: Request, res: Response) {
-  // console.log("add players called with playerId, gameId:", req.body.id, req.params.id);
-  const result = await Game.addPlayers(req.params.id, req.body);
+router.post("/:id/players", ensurePlayer, async function (req: Request, res: Response) {
+  const playerIds = req.body ?? [res.locals.player.playerId];
+  validateSchema(playerIds, gamePlayersNewSchema);
+
+  const game = await Game.get(req.params.id);
+  if (game.isPrivate && game.ownerId !== res.locals.player.playerId) {
+    throw new ForbiddenError("Private games can only be joined by invitation or join code.");
+  }
+
+  const players = await Promise.all(playerIds.map((id: string) => Player.get(id)));
+  for (let player of players) {
+    if (!player.ai && player.id !== res.locals.player.playerId) {
+      throw new ForbiddenError("Only AI players can be added on another's behalf.");
+    }
+  }
+
+  const result = await Game.addPlayers(req.params.id, playerIds);
   return res.status(201).json({ playerCount: result });
 });
 
 /** Removes a player from a game
+ * Players can remove themselves; only the game's owner can remove other
+ * players (for games w/o an owner, players can remove AI players)
+ * Removing a player from a started game abandons it (see Game.removePlayer)
  * Returns the removed player's ID
  */
-router.delete("/:gameid/players/:playerid", async function (req: Request, res: Response) {
-  const result = await Game.removePlayer(req.params.gameid, req.params.playerid);
+router.delete("/:gameid/players/:playerid", ensurePlayer, async function (req: Request, res: Response) {
+  const actingPlayerId = res.locals.player.playerId;
+  if (req.params.playerid !== actingPlayerId) {
+    const game = await Game.get(req.params.gameid);
+    const players = await Game.getPlayers(req.params.gameid);
+    const player = players.find(p => p.id === req.params.playerid);
+    if (player === undefined) {
+      throw new NotFoundError(`No player with id: ${req.params.playerid} in game.`);
+    }
+    if (game.ownerId !== null) {
+      _ensureOwner(game, actingPlayerId, "remove other players");
+    } else if (!player.ai || !players.some(p => p.id === actingPlayerId)) {
+      throw new ForbiddenError("Only AI players can be removed on another's behalf.");
+    }
+  }
+
+  await Game.removePlayer(req.params.gameid, req.params.playerid);
   return res.json({ removed: req.params.playerid });
 });
 
+/** Invites a player to a game w/ a body like { playerId }
+ * Only the game's owner can invite players
+ * Returns the invitation like { gameId, playerId, invitedBy, status,
+ * createdOn, respondedOn }
+ */
+router.post("/:id/invitations", ensurePlayer, async function (req: Request, res: Response) {
+  validateSchema(req.body, invitationNewSchema);
+  const game = await Game.get(req.params.id);
+  _ensureOwner(game, res.locals.player.playerId, "invite players");
+
+  const invitation = await Invitation.create(
+    game.id, req.body.playerId, res.locals.player.playerId
+  );
+  return res.status(201).json({ invitation });
+});
+
+/** Retrieves the invitations to a game (for its owner)
+ * Returns an array of invitations like { gameId, playerId, status, ... }
+ */
+router.get("/:id/invitations", ensurePlayer, async function (req: Request, res: Response) {
+  const game = await Game.get(req.params.id);
+  _ensureOwner(game, res.locals.player.playerId, "view invitations");
+
+  const invitations = await Invitation.getForGame(game.id);
+  return res.json({ invitations });
+});
+
+/** Accepts the authenticated player's invitation to a game, adding them to it
+ * Returns the accepted invitation
+ */
+router.post("/:id/invitations/accept", ensurePlayer, async function (req: Request, res: Response) {
+  const invitation = await Invitation.respond(req.params.id, res.locals.player.playerId, true);
+  return res.json({ invitation });
+});
+
+/** Declines the authenticated player's invitation to a game
+ * Returns the declined invitation
+ */
+router.post("/:id/invitations/decline", ensurePlayer, async function (req: Request, res: Response) {
+  const invitation = await Invitation.respond(req.params.id, res.locals.player.playerId, false);
+  return res.json({ invitation });
+});
+
+/** Retrieves a private game's join code (for its owner)
+ * Returns { joinCode } (null for public games)
+ */
+router.get("/:id/code", ensurePlayer, async function (req: Request, res: Response) {
+  const game = await Game.get(req.params.id);
+  _ensureOwner(game, res.locals.player.playerId, "view the join code");
+
+  const joinCode = await Game.getJoinCode(game.id);
+  return res.json({ joinCode });
+});
+
 /** Attempts to place a piece in the specific column in the specified game
+ * The piece is placed by the authenticated player
  * Returns 200 OK for valid piece drop location
+ * In fogOfWar games, a column which looks open may be full of hidden pieces,
+ * in which case the drop fails w/ 422 INVALID_PIECE_PLACEMENT
  */
-router.post("/:gameid/cols/:colid", async function (
-    req: Request<{ gameid: string, colid: number}, {}, DropPieceRequestBody>,
+router.post("/:gameid/cols/:colid", ensurePlayer, async function (
+    req: Request<{ gameid: string, colid: string }>,
     res: Response
   ) {
+  const colId = coerceInteger(req.params.colid);
+  validateSchema({ ...req.body, colId }, pieceDropSchema);
   const result = await Game.dropPiece(
     req.params.gameid,
-    req.body.playerId,
-    req.params.colid);
+    res.locals.player.playerId,
+    colId as number);
   return res.sendStatus(200);
 });
 
+/** Attempts to pop the authenticated player's piece out of the bottom row of
+ * the specified column in the specified (PopOut) game
+ * Returns 200 OK for a valid pop
+ */
+router.post("/:gameid/cols/:colid/pop", ensurePlayer, async function (
+    req: Request<{ gameid: string, colid: string }>,
+    res: Response
+  ) {
+  const colId = coerceInteger(req.params.colid);
+  validateSchema({ ...req.body, colId }, piecePopSchema);
+  await Game.popPiece(
+    req.params.gameid,
+    res.locals.player.playerId,
+    colId as number);
+  return res.sendStatus(200);
+});
+
+/** Attempts to use one of the authenticated player's power-ups at the
+ * specified column in the specified (powerUps) game
+ * Accepts { type, target } where type is anvil, wall or bomb and target is
+ * the [y, x] location of the opponent piece a bomb removes
+ * Returns 200 OK for a valid use
+ */
+router.post("/:gameid/cols/:colid/powerup", ensurePlayer, async function (
+    req: Request<{ gameid: string, colid: string }>,
+    res: Response
+  ) {
+  const colId = coerceInteger(req.params.colid);
+  validateSchema({ ...req.body, colId }, powerUpUseSchema);
+  await Game.usePowerUp(
+    req.params.gameid,
+    res.locals.player.playerId,
+    colId as number,
+    req.body.type,
+    req.body.target ?? null);
+  return res.sendStatus(200);
+});
+
+/** Requests to undo the authenticated player's last move
+ * Applied right away if every other player is an AI, otherwise it waits
+ * for another player to accept or decline
+ * Returns the updated game like { id, undoRequestedBy, ... }
+ */
+router.post("/:id/undo", ensurePlayer, async function (req: Request, res: Response) {
+  const game = await Game.requestUndo(req.params.id, res.locals.player.playerId);
+  return res.json({ game: FogOfWar.projectGame(game, _getViewerId(res)) });
+});
+
+/** Accepts a pending undo request on behalf of the authenticated player
+ * Returns the updated (rolled back) game
+ */
+router.post("/:id/undo/accept", ensurePlayer, async function (req: Request, res: Response) {
+  const game = await Game.respondToUndo(req.params.id, res.locals.player.playerId, true);
+  return res.json({ game: FogOfWar.projectGame(game, _getViewerId(res)) });
+});
+
+/** Declines a pending undo request on behalf of the authenticated player
+ * Returns the updated game
+ */
+router.post("/:id/undo/decline", ensurePlayer, async function (req: Request, res: Response) {
+  const game = await Game.respondToUndo(req.params.id, res.locals.player.playerId, false);
+  return res.json({ game: FogOfWar.projectGame(game, _getViewerId(res)) });
+});
+
+/** Resigns the game on behalf of the authenticated player
+ * The player takes the last place left; once only one player is still
+ * playing, the game is won by them (see Game.resign)
+ * Returns the updated game like { id, gameState, endReason, ... }
+ */
+router.post("/:id/resign", ensurePlayer, async function (req: Request, res: Response) {
+  const game = await Game.resign(req.params.id, res.locals.player.playerId);
+  return res.json({ game: FogOfWar.projectGame(game, _getViewerId(res)) });
+});
+
+/** Offers a draw on behalf of the authenticated player
+ * Another player can accept or decline it; AI players always decline
+ * Returns the updated game like { id, drawOfferedBy, ... }
+ */
+router.post("/:id/draw", ensurePlayer, async function (req: Request, res: Response) {
+  const game = await Game.offerDraw(req.params.id, res.locals.player.playerId);
+  return res.json({ game: FogOfWar.projectGame(game, _getViewerId(res)) });
+});
+
+/** Accepts a pending draw offer on behalf of the authenticated player
+ * Returns the finished (tied) game
+ */
+router.post("/:id/draw/accept", ensurePlayer, async function (req: Request, res: Response) {
+  const game = await Game.respondToDraw(req.params.id, res.locals.player.playerId, true);
+  return res.json({ game: FogOfWar.projectGame(game, _getViewerId(res)) });
+});
+
+/** Declines a pending draw offer on behalf of the authenticated player
+ * Returns the updated game
+ */
+router.post("/:id/draw/decline", ensurePlayer, async function (req: Request, res: Response) {
+  const game = await Game.respondToDraw(req.params.id, res.locals.player.playerId, false);
+  return res.json({ game: FogOfWar.projectGame(game, _getViewerId(res)) });
+});
+
+/** Rematches a finished game on behalf of one of its players: creates and
+ * starts a new game w/ the same settings and players
+ * Accepts an optional body like { swapFirstMover: true } to rotate the play
+ * order (so the other player moves first) instead of choosing it randomly
+ * Returns 201 w/ { game } where game is the started rematch
+ */
+router.post("/:id/rematch", ensurePlayer, async function (req: Request, res: Response) {
+  const data = req.body ?? {};
+  validateSchema(data, gameRematchSchema);
+  const players = await Game.getPlayers(req.params.id);
+  if (!players.some(p => p.id === res.locals.player.playerId)) {
+    throw new ForbiddenError("Only the game's players can rematch it.");
+  }
+
+  const game = await Game.rematch(req.params.id, data.swapFirstMover ?? false);
+  return res.status(201).json({ game });
+});
+
+/** Retrieves the series (the game and its rematches) a game belongs to
+ * Returns { series } like { seriesId, games, standings } where games are
+ * like { id, gameState, endReason, winnerId, createdOn } and standings are
+ * the players' records like { playerId, wins, losses, ties }
+ */
+router.get("/:id/series", async function (req: Request, res: Response) {
+  await _ensureVisible(req.params.id, res);
+  const series = await Game.getSeries(req.params.id);
+  return res.json({ series });
+});
+
+/** Retrieves the turns taken in a game, oldest first
+ * Optionally filtered to a single player via query string like ?playerId=
+ * Returns an array of turns like { turnId, gameId, playerId, location, createdOnEpoch }
+ * where, in fogOfWar games, location is null for pieces the viewer can't see
+ */
+router.get("/:id/turns", async function (req: Request, res: Response) {
+  validateSchema(req.query, gameTurnsQuerySchema);
+  await _ensureVisible(req.params.id, res);
+  const game = await Game.get(req.params.id);
+  const turns = await Game.getTurns(req.params.id, req.query.playerId as string | undefined);
+  return res.json({ turns: FogOfWar.projectTurns(game, turns, _getViewerId(res)) });
+});
+
+/** Replays a game up to (and including) a given turn via query string like ?turn=
+ * Turn 0 is the empty board; defaults to the latest turn
+ * Returns a replay like { gameId, turnNumber, totalTurns, gameState,
+ * boardData, placedPieces, winningSet, lastTurn }
+ * Replays of fogOfWar games in progress only show what the viewer could see
+ */
+router.get("/:id/replay", async function (req: Request, res: Response) {
+  const turn = typeof req.query.turn === "string"
+    ? coerceInteger(req.query.turn)
+    : req.query.turn;
+  validateSchema({ ...req.query, turn }, gameReplayQuerySchema);
+  await _ensureVisible(req.params.id, res);
+  const game = await Game.get(req.params.id);
+  const replay = await Game.replay(req.params.id, turn as number | undefined);
+  return res.json({ replay: FogOfWar.projectReplay(game, replay, _getViewerId(res)) });
+});
+
+/** Streams live updates for a game as server-sent events
+ * Anyone (including spectators who aren't players) can subscribe; a
+ * spectator's token keeps them counted as watching while subscribed
+ * Sends the current game as a 'connected' event, then an event for each change:
+ * playerJoined, playerRemoved, playerLeft, gameStarted, pieceDropped, piecePopped, powerUpUsed,
+ * currentPlayerChanged, gameWon, playerFinished, gameTied, undoRequested,
+ * undoDeclined, moveUndone, turnTimedOut, gameWonOnTime, playerResigned,
+ * drawOffered, drawDeclined, drawAgreed, gameAbandoned and rematchCreated
+ * (plus spectatorJoined and spectatorLeft); each event's data is like { type, gameId, data, createdOn }
+ * The game and events of fogOfWar games are projected for the subscriber
+ * (see FogOfWar)
+ */
+router.get("/:id/events", async function (req: Request, res: Response) {
+  await _ensureVisible(req.params.id, res);
+  const game = await Game.get(req.params.id);
+
+  // the client may have left while the game was retrieved
+  if (req.destroyed) return;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive"
+  });
+  eventStreams.add(res);
+  const viewerId = _getViewerId(res);
+  res.write(`event: connected\ndata: ${JSON.stringify({
+    game: FogOfWar.projectGame(game, viewerId)
+  })}\n\n`);
+
+  // events of fogOfWar games are projected against the latest board, which
+  // is async, so they're chained to keep them in order
+  let sent = Promise.resolve();
+  const unsubscribe = GameEvents.subscribe(game.id, function (event: GameEventInterface) {
+    if (game.variant !== "fogOfWar") return _send(event);
+    sent = sent.then(async function () {
+      try {
+        const currGame = await Game.get(game.id);
+        _send(FogOfWar.projectEvent(currGame, event, viewerId));
+      } catch (err) {
+        /* the game was deleted */
+      }
+    });
+  });
+
+  const spectatorId: string | undefined = res.locals.spectator?.gameId === game.id
+    ? res.locals.spectator.spectatorId
+    : undefined;
+
+  // comments keep proxies from closing an otherwise quiet connection
+  const heartbeat = setInterval(function () {
+    res.write(": heartbeat\n\n");
+    if (spectatorId !== undefined) _touchSpectator();
+  }, EVENTS_HEARTBEAT_MS);
+
+  // registered before anything else is awaited, so the stream is always
+  // cleaned up once the client leaves
+  req.on("close", function () {
+    clearInterval(heartbeat);
+    unsubscribe();
+    eventStreams.delete(res);
+  });
+
+  if (spectatorId !== undefined) await _touchSpectator();
+
+  /** Writes an event to the stream */
+  function _send(event: GameEventInterface) {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+
+  /** Records that the subscribed spectator is still watching (they may
+   * have stopped watching since subscribing, which is fine) */
+  async function _touchSpectator() {
+    try {
+      await Spectator.touch(game.id, spectatorId as string);
+    } catch (err) {
+      /* no longer a spectator */
+    }
+  }
+});
+
 /** Retrieves a specific game based on id
- * Returns a game object like { id, ai, color, name, created_on }
+ * Returns a game object like { id, gameState, boardData, currPlayerId, clock,
+ * spectatorCount, ... } where spectatorCount is the number watching right now
+ * where clock is null or like { type, seconds, incrementSeconds, timeoutAction,
+ * turnStartedOn, turnDeadline, timeRemainingMs }
+ * In fogOfWar games, boardData only has the pieces the viewer can see
+ * Private games (and their players, turns, replays, series and events) can
+ * only be seen by their owner, players and invitees
  */
 router.get("/:id", async function (req: Request, res: Response) {
+  await _ensureVisible(req.params.id, res);
   const game = await Game.get(req.params.id);
-  return res.json({ game });
+  return res.json({ game: FogOfWar.projectGame(game, _getViewerId(res)) });
 });
 
-/** Creates a new game based on req object { name, color, ai }
- * Returns a game object like { id, name, color, ai, createdOn }
+/** Creates a new game based on req object { height, width, winLength,
+ * topology, layoutId, clock, isPrivate, maxPlayers, continueAfterWin, variant,
+ * powerUps }
+ * The authenticated player (if any) owns the game: only they can start it
+ * and remove other players
+ * winLength is optional: 3 through 8 (default 4) and must fit on the board
+ * topology is optional: flat (default) or cylinder, where lines can wrap
+ * around from the last column to the first
+ * layoutId is optional: the ID of a board layout (see /layouts) whose
+ * dimensions and blocked cells are used (height and width can then be left
+ * out); popOut games can't use layouts w/ blocked cells
+ * clock is optional and like { type, seconds, incrementSeconds, timeoutAction }:
+ * - type: perMove (seconds per move) or fischer (seconds per player, plus
+ *   incrementSeconds per move)
+ * - timeoutAction: forfeit (default) or randomMove
+ * isPrivate is optional (default false); private games need an owner and
+ * are only joined by invitation or w/ their join code
+ * maxPlayers is optional: 2 through 8 (default 2); the board must have room
+ * for every player to connect winLength pieces
+ * continueAfterWin is optional (default false); if true, play continues
+ * after a player wins until one player is left, giving every player a place
+ * variant is optional: classic (default), popOut, where players can also
+ * pop their own pieces out of the bottom row (see POST /:gameid/cols/:colid/pop),
+ * or powerUps, where players also get one-use power-ups (see
+ * POST /:gameid/cols/:colid/powerup)
+ * powerUps is optional (powerUps games only) and like { anvil, wall, bomb }:
+ * how many of each power-up every player gets (1 each by default)
+ * Returns { game, joinCode } where game is like { id, boardId, boardData,
+ * gameState, ownerId, isPrivate, ... } and joinCode is null for public games
  */
 router.post("/", async function (req: Request, res: Response) {
-  const game = await Game.create(req.body);
-  return res.status(201).json({ game });
+  validateSchema(req.body, gameNewSchema);
+  const ownerId: string | null = res.locals.player?.playerId ?? null;
+  if (req.body.isPrivate && ownerId === null) {
+    throw new UnauthorizedError("Private games can only be created by an authenticated player.");
+  }
+
+  const game = await Game.create(req.body, ownerId);
+  const joinCode = await Game.getJoinCode(game.id);
+  return res.status(201).json({ game, joinCode });
 });
 
 /** Deletes a game
+ * Requires an authenticated player: the owner of a game which has one, else
+ * one of its players
  * Returns the delete game's id
  */
-router.delete("/:id", async function (req: Request, res: Response) {
+router.delete("/:id", ensurePlayer, async function (req: Request, res: Response) {
+  const game = await Game.get(req.params.id);
+  await _ensureOwnerOrPlayer(game, res.locals.player.playerId, "delete the game");
+
   await Game.delete(req.params.id);
   return res.json({ deleted: req.params.id });
 });
 
 /** Starts the specified game (based on 'id' in URL param)
+ * Requires an authenticated player (spectators can't start games): the
+ * owner of a game which has one, else one of its players
  * Returns 200 OK with no body if successful
  */
-router.post("/:id/start", async function (req: Request, res: Response) {
+router.post("/:id/start", ensurePlayer, async function (req: Request, res: Response) {
   // console.log("Start game called with gameId:", req.params.id);
+  const game = await Game.get(req.params.id);
+  await _ensureOwnerOrPlayer(game, res.locals.player.playerId, "start the game");
+
   await Game.start(req.params.id);
   return res.sendStatus(200);
 });
 
-export { router as gamesRouter };
+/** Throws ForbiddenError unless the player owns the game; accepts a
+ * description of the action for the error message */
+function _ensureOwner(game: GameInterface, playerId: string, action: string) {
+  if (game.ownerId !== playerId) {
+    throw new ForbiddenError(`Only the game's owner can ${action}.`);
+  }
+}
+
+/** Throws ForbiddenError unless the player owns the game or, if it has no
+ * owner, is one of its players; accepts a description of the action for
+ * the error message */
+async function _ensureOwnerOrPlayer(game: GameInterface, playerId: string, action: string) {
+  if (game.ownerId !== null) return _ensureOwner(game, playerId, action);
+
+  const players = await Game.getPlayers(game.id);
+  if (!players.some(p => p.id === playerId)) {
+    throw new ForbiddenError(`Only the game's players can ${action}.`);
+  }
+}
+
+/** Throws ForbiddenError unless the viewer can see the game (see
+ * Game.isVisibleTo); spectators can see the game they're watching
+ * Throws NotFoundError if the game doesn't exist */
+async function _ensureVisible(gameId: string, res: Response) {
+  if (res.locals.spectator?.gameId === gameId) return;
+  if (!(await Game.isVisibleTo(gameId, _getViewerId(res)))) {
+    throw new ForbiddenError("Private games can only be seen by their owner, players and invitees.");
+  }
+}
+
+/** Returns the ID of the authenticated player viewing a game, or null for
+ * anyone else (e.g. spectators) */
+function _getViewerId(res: Response): string | null {
+  return res.locals.player?.playerId ?? null;
+}
+
+/** Ends every open event stream; the server can't close while they're open */
+function closeEventStreams() {
+  for (let stream of eventStreams) stream.end();
+  eventStreams.clear();
+}
+
+export { router as gamesRouter, closeEventStreams };
 
 // module.exports = router;
\ No newline at end of file
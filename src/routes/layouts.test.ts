@@ -0,0 +1,73 @@
+import request from "supertest";
+import app from "../app";
+
+import { createPlayers } from "../models/_factories";
+import { createToken } from "../utilities/tokens";
+import {
+  commonBeforeAll,
+  commonBeforeEach,
+  commonAfterEach,
+  commonAfterAll
+} from "../models/_testCommon";
+
+beforeAll(commonBeforeAll);
+beforeEach(commonBeforeEach);
+afterEach(commonAfterEach);
+afterAll(commonAfterAll);
+
+describe("POST /layouts", function () {
+
+  test("creates a layout for the authenticated player", async function () {
+    const [player] = await createPlayers(1);
+
+    const resp = await request(app)
+      .post("/layouts")
+      .set("authorization", `Bearer ${createToken(player.id)}`)
+      .send({ name: "Pyramid", height: 3, width: 5, shape: "pyramid", blockedCells: [[2, 2]] });
+    expect(resp.statusCode).toEqual(201);
+    expect(resp.body.layout).toEqual({
+      id: expect.any(String),
+      name: "Pyramid",
+      height: 3,
+      width: 5,
+      blockedCells: [[0, 0], [0, 1], [0, 3], [0, 4], [1, 0], [1, 4], [2, 2]],
+      createdBy: player.id,
+      createdOn: expect.any(String)
+    });
+  });
+
+  test("400 for invalid blocked cells", async function () {
+    let resp = await request(app)
+      .post("/layouts")
+      .send({ name: "Bad", height: 3, width: 3, blockedCells: [[0]] });
+    expect(resp.statusCode).toEqual(400);
+
+    resp = await request(app)
+      .post("/layouts")
+      .send({ name: "Bad", height: 3, width: 3, blockedCells: [[0, 3]] });
+    expect(resp.statusCode).toEqual(400);
+  });
+
+});
+
+describe("GET /layouts", function () {
+
+  test("retrieves layouts", async function () {
+    const created = await request(app)
+      .post("/layouts")
+      .send({ name: "Plain", height: 6, width: 7 });
+
+    let resp = await request(app).get("/layouts");
+    expect(resp.statusCode).toEqual(200);
+    expect(resp.body.layouts).toContainEqual(created.body.layout);
+
+    resp = await request(app).get(`/layouts/${created.body.layout.id}`);
+    expect(resp.body.layout).toEqual(created.body.layout);
+  });
+
+  test("404 for a missing layout", async function () {
+    const resp = await request(app).get("/layouts/00000000-0000-4000-8000-000000000000");
+    expect(resp.statusCode).toEqual(404);
+  });
+
+});
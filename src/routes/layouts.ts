@@ -0,0 +1,48 @@
+"use strict";
+/** Routes for board layouts */
+
+import express, { Request, Response, Router } from "express";
+
+import { Layout } from "../models/layout";
+import { validateSchema } from "../utilities/schemaValidation";
+
+import layoutNewSchema from "../schemas/layoutNew.json";
+
+const router: Router = express.Router();
+
+/** Retrieves every board layout, oldest first
+ * Returns { layouts } where layouts are like { id, name, height, width,
+ * blockedCells, createdBy, createdOn }
+ */
+router.get("/", async function (req: Request, res: Response) {
+  const layouts = await Layout.getAll();
+  return res.json({ layouts });
+});
+
+/** Retrieves a specific board layout based on id
+ * Returns { layout } like { id, name, height, width, blockedCells,
+ * createdBy, createdOn }
+ */
+router.get("/:id", async function (req: Request, res: Response) {
+  const layout = await Layout.get(req.params.id);
+  return res.json({ layout });
+});
+
+/** Creates a new board layout based on req object
+ * { name, height, width, shape, blockedCells }
+ * The authenticated player (if any) is recorded as its creator
+ * shape is optional: rectangle (default) or pyramid, where rows narrow by a
+ * cell on each side going up from the bottom row
+ * blockedCells is optional: [y, x] coordinates (row 0 is the top row) of
+ * cells no piece can occupy, in addition to those the shape blocks
+ * Returns { layout } like { id, name, height, width, blockedCells,
+ * createdBy, createdOn }; use its id as a game's layoutId (see POST /games)
+ */
+router.post("/", async function (req: Request, res: Response) {
+  validateSchema(req.body, layoutNewSchema);
+  const createdBy: string | null = res.locals.player?.playerId ?? null;
+  const layout = await Layout.create(req.body, createdBy);
+  return res.status(201).json({ layout });
+});
+
+export { router as layoutsRouter };
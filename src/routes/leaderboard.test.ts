@@ -0,0 +1,39 @@
+import request from "supertest";
+import app from "../app";
+
+import { Player } from "../models/player";
+import { createPlayers } from "../models/_factories";
+import {
+  commonBeforeAll,
+  commonBeforeEach,
+  commonAfterEach,
+  commonAfterAll
+} from "../models/_testCommon";
+
+beforeAll(commonBeforeAll);
+beforeEach(commonBeforeEach);
+afterEach(commonAfterEach);
+afterAll(commonAfterAll);
+
+describe("GET /leaderboard", function () {
+
+  test("excludes AI players", async function () {
+    await createPlayers(1);
+    const ai = await Player.create({ name: "Bot", color: "#ff0000", ai: true });
+
+    let resp = await request(app).get("/leaderboard?limit=100");
+    expect(resp.body.leaderboard.players.map((p: { id: string }) => p.id)).toContain(ai.id);
+
+    resp = await request(app).get("/leaderboard?limit=100&excludeAi=true");
+    expect(resp.statusCode).toEqual(200);
+    expect(resp.body.leaderboard.players.every((p: { ai: boolean }) => !p.ai)).toBe(true);
+  });
+
+  test("400 for invalid pagination", async function () {
+    const resp = await request(app).get("/leaderboard?limit=0&offset=first&excludeAi=maybe");
+    expect(resp.statusCode).toEqual(400);
+    const fields = resp.body.error.fields.map((f: { field: string }) => f.field);
+    expect(fields).toEqual(expect.arrayContaining(["limit", "offset", "excludeAi"]));
+  });
+
+});
@@ -0,0 +1,35 @@
+"use strict";
+/** Routes for the leaderboard */
+
+import express, { Request, Response, Router } from "express";
+
+import { Rating } from "../models/rating";
+import {
+  validateSchema, coerceInteger, coerceBoolean
+} from "../utilities/schemaValidation";
+
+import leaderboardQuerySchema from "../schemas/leaderboardQuery.json";
+
+const router: Router = express.Router();
+
+/** Retrieves players ranked by rating (highest first)
+ * Accepts optional query string like ?limit=25&offset=0&excludeAi=true
+ * (limit is 1 through 100 and defaults to 25)
+ * Returns { leaderboard } like { players, total, limit, offset } where
+ * players are like { rank, id, name, color, ai, rating }
+ */
+router.get("/", async function (req: Request, res: Response) {
+  const query: Record<string, unknown> = { ...req.query };
+  for (let key of ["limit", "offset"]) {
+    if (typeof query[key] === "string") query[key] = coerceInteger(query[key] as string);
+  }
+  if (typeof query.excludeAi === "string") {
+    query.excludeAi = coerceBoolean(query.excludeAi);
+  }
+  validateSchema(query, leaderboardQuerySchema);
+
+  const leaderboard = await Rating.getLeaderboard(query);
+  return res.json({ leaderboard });
+});
+
+export { router as leaderboardRouter };
@@ -0,0 +1,73 @@
+import request from "supertest";
+import app from "../app";
+
+import { createPlayers } from "../models/_factories";
+import { createToken } from "../utilities/tokens";
+import {
+  commonBeforeAll,
+  commonBeforeEach,
+  commonAfterEach,
+  commonAfterAll
+} from "../models/_testCommon";
+
+beforeAll(commonBeforeAll);
+beforeEach(commonBeforeEach);
+afterEach(commonAfterEach);
+afterAll(commonAfterAll);
+
+describe("POST /matchmaking", function () {
+
+  test("pairs the second player to enqueue", async function () {
+    const players = await createPlayers(2);
+
+    let resp = await request(app)
+      .post("/matchmaking")
+      .set("authorization", `Bearer ${createToken(players[0].id)}`)
+      .send({ height: 6, width: 7 });
+    expect(resp.statusCode).toEqual(201);
+    expect(resp.body.entry.gameId).toBeNull();
+
+    resp = await request(app)
+      .post("/matchmaking")
+      .set("authorization", `Bearer ${createToken(players[1].id)}`)
+      .send({ height: 6, width: 7 });
+    const gameId = resp.body.entry.gameId;
+    expect(gameId).toEqual(expect.any(String));
+
+    resp = await request(app)
+      .get("/matchmaking")
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.body.entry.gameId).toEqual(gameId);
+  });
+
+  test("400 for an invalid board size", async function () {
+    const players = await createPlayers(1);
+
+    const resp = await request(app)
+      .post("/matchmaking")
+      .set("authorization", `Bearer ${createToken(players[0].id)}`)
+      .send({ height: 2 });
+    expect(resp.statusCode).toEqual(400);
+    const fields = resp.body.error.fields.map((f: { field: string }) => f.field);
+    expect(fields).toEqual(expect.arrayContaining(["height", "width"]));
+  });
+
+  test("401 without a token", async function () {
+    const resp = await request(app).post("/matchmaking").send({ height: 6, width: 7 });
+    expect(resp.statusCode).toEqual(401);
+  });
+
+});
+
+describe("DELETE /matchmaking", function () {
+
+  test("404 for a player not in the queue", async function () {
+    const players = await createPlayers(1);
+
+    const resp = await request(app)
+      .delete("/matchmaking")
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.statusCode).toEqual(404);
+  });
+
+});
@@ -0,0 +1,43 @@
+"use strict";
+/** Routes for the matchmaking queue */
+
+import express, { Request, Response, Router } from "express";
+import { ensurePlayer } from "../middleware/auth";
+
+import { Matchmaking } from "../models/matchmaking";
+import { validateSchema } from "../utilities/schemaValidation";
+
+import matchmakingNewSchema from "../schemas/matchmakingNew.json";
+
+const router: Router = express.Router();
+
+/** Adds the authenticated player to the queue based on req object
+ * { height, width, ratingBand }
+ * ratingBand is optional: the most an opponent's rating may differ by
+ * The player is paired right away if a compatible player is waiting;
+ * otherwise poll GET /matchmaking until gameId is set
+ * Returns an entry like { playerId, height, width, ratingBand, gameId, createdOn }
+ */
+router.post("/", ensurePlayer, async function (req: Request, res: Response) {
+  validateSchema(req.body, matchmakingNewSchema);
+  const entry = await Matchmaking.enqueue(res.locals.player.playerId, req.body);
+  return res.status(201).json({ entry });
+});
+
+/** Retrieves the authenticated player's queue entry
+ * Returns an entry like { playerId, height, width, ratingBand, gameId, createdOn }
+ */
+router.get("/", ensurePlayer, async function (req: Request, res: Response) {
+  const entry = await Matchmaking.get(res.locals.player.playerId);
+  return res.json({ entry });
+});
+
+/** Removes the authenticated player from the queue
+ * Returns the removed player's ID
+ */
+router.delete("/", ensurePlayer, async function (req: Request, res: Response) {
+  await Matchmaking.dequeue(res.locals.player.playerId);
+  return res.json({ dequeued: res.locals.player.playerId });
+});
+
+export { router as matchmakingRouter };
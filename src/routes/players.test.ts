@@ -0,0 +1,247 @@
+import request from "supertest";
+import app from "../app";
+
+import {
+  commonBeforeAll,
+  commonBeforeEach,
+  commonAfterEach,
+  commonAfterAll
+} from "../models/_testCommon";
+import db from "../db";
+import { Game } from "../models/game";
+import { Player } from "../models/player";
+import { createNearlyWonGame, createPlayers } from "../models/_factories";
+import { createToken, verifyToken } from "../utilities/tokens";
+import { randomUUID } from "crypto";
+
+beforeAll(commonBeforeAll);
+beforeEach(commonBeforeEach);
+afterEach(commonAfterEach);
+afterAll(commonAfterAll);
+
+describe("POST /players", function () {
+
+  test("creates an AI player with a difficulty", async function () {
+    const resp = await request(app)
+      .post("/players")
+      .send({ name: "Bot", color: "#ff0000", ai: true, aiDifficulty: "hard" });
+    expect(resp.statusCode).toEqual(201);
+    expect(resp.body.player.aiDifficulty).toEqual("hard");
+  });
+
+  test("returns a token for the new player", async function () {
+    const resp = await request(app)
+      .post("/players")
+      .send({ name: "Human", color: "#00ff00", ai: false, password: "password1" });
+    expect(resp.statusCode).toEqual(201);
+    expect(resp.body.player.password).toBeUndefined();
+    expect(verifyToken(resp.body.token))
+      .toEqual(expect.objectContaining({ playerId: resp.body.player.id }));
+  });
+
+  test("400 for invalid player data", async function () {
+    const resp = await request(app)
+      .post("/players")
+      .send({ name: "Bot", color: "red", ai: "yes" });
+    expect(resp.statusCode).toEqual(400);
+    const fields = resp.body.error.fields.map((f: { field: string }) => f.field);
+    expect(fields).toEqual(expect.arrayContaining(["color", "ai"]));
+  });
+
+});
+
+describe("GET /players", function () {
+
+  test("filters and sorts players", async function () {
+    const players = await createPlayers(2);
+    await Player.update(players[0].id, { name: "Zed the Great" });
+    await db.query(`
+        UPDATE players
+        SET rating = 1600
+        WHERE id = $1`, [players[1].id]);
+
+    const byName = await request(app).get("/players?name=the%20great");
+    expect(byName.statusCode).toEqual(200);
+    expect(byName.body.players.map((p: { id: string }) => p.id))
+      .toEqual([players[0].id]);
+
+    const byRating = await request(app)
+      .get("/players?sortBy=rating&order=desc&limit=1&ai=false");
+    expect(byRating.statusCode).toEqual(200);
+    expect(byRating.body.players[0].id).toEqual(players[1].id);
+    expect(byRating.body.nextCursor).toEqual(expect.any(String));
+  });
+
+  test("pages through players with a cursor", async function () {
+    const allResp = await request(app).get("/players");
+    const allIds = allResp.body.players.map((p: { id: string }) => p.id);
+
+    const firstResp = await request(app).get("/players?limit=1");
+    const lastResp = await request(app)
+      .get(`/players?limit=100&cursor=${firstResp.body.nextCursor}`);
+    expect([...firstResp.body.players, ...lastResp.body.players]
+      .map((p: { id: string }) => p.id)).toEqual(allIds);
+    expect(lastResp.body.nextCursor).toBeNull();
+  });
+
+  test("400 for invalid filters", async function () {
+    const resp = await request(app).get("/players?ai=maybe&limit=0");
+    expect(resp.statusCode).toEqual(400);
+  });
+});
+
+describe("GET /players/:id", function () {
+
+  test("404 for a player that doesn't exist", async function () {
+    const resp = await request(app).get(`/players/${randomUUID()}`);
+    expect(resp.statusCode).toEqual(404);
+    expect(resp.body.error).toEqual({
+      message: expect.any(String),
+      status: 404,
+      code: "NOT_FOUND"
+    });
+  });
+
+});
+
+describe("PATCH /players/:id", function () {
+
+  test("updates the authenticated player", async function () {
+    const players = await createPlayers(1);
+    const resp = await request(app)
+      .patch(`/players/${players[0].id}`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`)
+      .send({ name: "Renamed" });
+    expect(resp.statusCode).toEqual(200);
+    expect(resp.body.player).toEqual({ ...players[0], name: "Renamed", createdOn: expect.any(String) });
+  });
+
+  test("400 for no or invalid data", async function () {
+    const players = await createPlayers(1);
+    const token = createToken(players[0].id);
+
+    let resp = await request(app)
+      .patch(`/players/${players[0].id}`)
+      .set("authorization", `Bearer ${token}`)
+      .send({});
+    expect(resp.statusCode).toEqual(400);
+
+    resp = await request(app)
+      .patch(`/players/${players[0].id}`)
+      .set("authorization", `Bearer ${token}`)
+      .send({ color: "red", ai: true });
+    const fields = resp.body.error.fields.map((f: { field: string }) => f.field);
+    expect(fields).toEqual(expect.arrayContaining(["color", "ai"]));
+  });
+
+  test("403 for another player", async function () {
+    const players = await createPlayers(2);
+    const resp = await request(app)
+      .patch(`/players/${players[1].id}`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`)
+      .send({ name: "Renamed" });
+    expect(resp.statusCode).toEqual(403);
+  });
+
+});
+
+describe("GET /players/:id/stats", function () {
+
+  test("computes stats from finished games", async function () {
+    const players = await createPlayers(2);
+    const playerIds = players.map(p => p.id);
+
+    // two wins for the first player, then a win for the second player
+    for (let winnerId of [playerIds[0], playerIds[0], playerIds[1]]) {
+      const game = await createNearlyWonGame(
+        { height: 6, width: 6 }, playerIds, winnerId
+      );
+      await Game.dropPiece(game.id, winnerId, 0);
+    }
+
+    const resp = await request(app).get(`/players/${playerIds[0]}/stats`);
+    expect(resp.body.stats).toEqual({
+      playerId: playerIds[0],
+      gamesPlayed: 3,
+      wins: 2,
+      losses: 1,
+      ties: 0,
+      winRate: 2 / 3,
+      currentStreak: 0,
+      longestStreak: 2,
+      averageMovesToWin: 1,
+      winsByReason: { connect: 2 },
+      lossesByReason: { connect: 1 }
+    });
+  });
+
+  test("has no rates for a player without games", async function () {
+    const players = await createPlayers(1);
+    const resp = await request(app).get(`/players/${players[0].id}/stats`);
+    expect(resp.body.stats.gamesPlayed).toEqual(0);
+    expect(resp.body.stats.winRate).toBeNull();
+    expect(resp.body.stats.averageMovesToWin).toBeNull();
+  });
+
+  test("404 for a player that doesn't exist", async function () {
+    const resp = await request(app).get(`/players/${randomUUID()}/stats`);
+    expect(resp.statusCode).toEqual(404);
+  });
+
+});
+
+describe("DELETE /players/:id", function () {
+
+  test("deletes the authenticated player", async function () {
+    const players = await createPlayers(1);
+    const resp = await request(app)
+      .delete(`/players/${players[0].id}`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.body).toEqual({ deleted: players[0].id });
+  });
+
+  test("403 for another player", async function () {
+    const players = await createPlayers(1);
+    const resp = await request(app)
+      .delete(`/players/${randomUUID()}`)
+      .set("authorization", `Bearer ${createToken(players[0].id)}`);
+    expect(resp.statusCode).toEqual(403);
+    expect(resp.body.error.code).toEqual("FORBIDDEN");
+  });
+
+  test("401 without a token", async function () {
+    const resp = await request(app).delete(`/players/${randomUUID()}`);
+    expect(resp.statusCode).toEqual(401);
+    expect(resp.body.error.code).toEqual("UNAUTHORIZED");
+  });
+
+});
+
+describe("POST /auth/token", function () {
+
+  test("returns a token for a player's password", async function () {
+    const created = await request(app)
+      .post("/players")
+      .send({ name: "Human", color: "#00ff00", ai: false, password: "password1" });
+    const playerId = created.body.player.id;
+
+    const resp = await request(app)
+      .post("/auth/token")
+      .send({ playerId, password: "password1" });
+    expect(verifyToken(resp.body.token))
+      .toEqual(expect.objectContaining({ playerId }));
+  });
+
+  test("401 for the wrong password", async function () {
+    const created = await request(app)
+      .post("/players")
+      .send({ name: "Human", color: "#00ff00", ai: false, password: "password1" });
+
+    const resp = await request(app)
+      .post("/auth/token")
+      .send({ playerId: created.body.player.id, password: "wrong" });
+    expect(resp.statusCode).toEqual(401);
+    expect(resp.body.error.code).toEqual("UNAUTHORIZED");
+  });
+
+});
@@ -4,20 +4,59 @@
 import express, { Express, Request, Response, NextFunction, Router } from "express";
 import { ExpressError, NotFoundError, BadRequestError } from "../expressError";
 
+import { ensureCorrectPlayer } from "../middleware/auth";
+
 import { Player } from "../models/player";
+import { Invitation } from "../models/invitation";
+import {
+  validateSchema, coerceInteger, coerceBoolean
+} from "../utilities/schemaValidation";
+import { createToken } from "../utilities/tokens";
+
+import playerNewSchema from "../schemas/playerNew.json";
+import playerUpdateSchema from "../schemas/playerUpdate.json";
+import playersQuerySchema from "../schemas/playersQuery.json";
 
 const router: Router = express.Router();
 
-/** TODO:
- * - add schema validators
+/** Retrieves a page of players
+ * Accepts optional query string filters like ?ai=false&name=&minRating=
+ * &maxRating= (name matches any part of a player's name), sorting like
+ * ?sortBy=rating&order=desc and pagination like ?limit=25&cursor=
+ * (limit is 1 through 100 and defaults to 25)
+ * Returns { players, nextCursor } where players are like { id, name, color,
+ * ai, aiDifficulty, rating, createdOn }; pass nextCursor as ?cursor= for
+ * the next page (it's null on the last page)
  */
+router.get("/", async function (req: Request, res: Response) {
+  const query: Record<string, unknown> = { ...req.query };
+  for (let key of ["minRating", "maxRating", "limit"]) {
+    if (typeof query[key] === "string") query[key] = coerceInteger(query[key] as string);
+  }
+  if (typeof query.ai === "string") query.ai = coerceBoolean(query.ai);
+  validateSchema(query, playersQuerySchema);
 
-/** Retrieves a list of all players
- * Returns array of player objects like { id, ai, color, name, created_on }
+  const { players, nextCursor } = await Player.getAll(query);
+  return res.json({ players, nextCursor });
+});
+
+/** Retrieves a player's stats from their finished games
+ * Returns stats like { playerId, gamesPlayed, wins, losses, ties, winRate,
+ * currentStreak, longestStreak, averageMovesToWin, winsByReason, lossesByReason }
  */
-router.get("/", async function (req: Request, res: Response) {
-  const players = await Player.getAll();
-  return res.json({ players });
+router.get("/:id/stats", async function (req: Request, res: Response) {
+  const stats = await Player.getStats(req.params.id);
+  return res.json({ stats });
+});
+
+/** Retrieves a player's pending invitations to games, oldest first
+ * Only available to the player themselves
+ * Returns an array of invitations like { gameId, playerId, invitedBy,
+ * status, createdOn, respondedOn }
+ */
+router.get("/:id/invitations", ensureCorrectPlayer, async function (req: Request, res: Response) {
+  const invitations = await Invitation.getPending(req.params.id);
+  return res.json({ invitations });
 });
 
 /** Retrieves a specific player based on id
@@ -28,18 +67,34 @@ router.get("/:id", async function (req: Request, res: Response) {
   return res.json({ player });
 });
 
-/** Creates a new player based on req object { name, color, ai }
- * Returns a player object like { id, name, color, ai, createdOn }
+/** Creates a new player based on req object
+ * { name, color, ai, aiDifficulty, password }
+ * aiDifficulty is optional: random, easy, medium (default) or hard
+ * password is optional and allows getting new tokens via POST /auth/token
+ * Returns { player, token } where player is like
+ * { id, name, color, ai, aiDifficulty, rating, createdOn }
  */
 router.post("/", async function (req: Request, res: Response) {
+  validateSchema(req.body, playerNewSchema);
   const player = await Player.create(req.body);
-  return res.status(201).json({ player });
+  const token = createToken(player.id);
+  return res.status(201).json({ player, token });
+});
+
+/** Updates a player's profile based on req object { name, color }
+ * Either field can be omitted; only the player themself can do so
+ * Returns the updated player like { id, name, color, ai, aiDifficulty, rating, createdOn }
+ */
+router.patch("/:id", ensureCorrectPlayer, async function (req: Request, res: Response) {
+  validateSchema(req.body, playerUpdateSchema);
+  const player = await Player.update(req.params.id, req.body);
+  return res.json({ player });
 });
 
-/** Deletes a player
+/** Deletes a player; only the player themself can do so
  * Returns the delete player's id
  */
-router.delete("/:id", async function (req: Request, res: Response) {
+router.delete("/:id", ensureCorrectPlayer, async function (req: Request, res: Response) {
   await Player.delete(req.params.id);
   return res.json({ deleted: req.params.id });
 });
@@ -0,0 +1,64 @@
+"use strict";
+/** Runs background jobs (e.g. applying turn timeouts) at a fixed interval */
+
+import { SCHEDULER_INTERVAL_MS, MATCHMAKING_AI_WAIT_SECONDS } from "./config";
+import { Game } from "./models/game";
+import { Clock } from "./models/clock";
+import { Matchmaking } from "./models/matchmaking";
+
+let timer: NodeJS.Timeout | null = null;
+
+// the job currently running (if any); runs never overlap
+let running: Promise<undefined> | null = null;
+
+/** Starts running the scheduled jobs; does nothing if already started */
+function startScheduler(intervalMs: number = SCHEDULER_INTERVAL_MS): undefined {
+  if (timer !== null) return;
+
+  timer = setInterval(function () {
+    if (running !== null) return;
+    running = runScheduledJobs().finally(() => { running = null; });
+  }, intervalMs);
+}
+
+/** Stops running the scheduled jobs, waiting for a running one to finish */
+async function stopScheduler(): Promise<undefined> {
+  if (timer !== null) clearInterval(timer);
+  timer = null;
+  if (running !== null) await running;
+}
+
+/** Runs each scheduled job once; errors are logged rather than thrown */
+async function runScheduledJobs(): Promise<undefined> {
+  for (let job of [_applyTurnTimeouts, _matchWaitingPlayers]) {
+    try {
+      await job();
+    } catch (err) {
+      console.error(`Error running scheduled job ${job.name}:`, err);
+    }
+  }
+}
+
+/** Applies the timeout action of every game whose current turn timed out */
+async function _applyTurnTimeouts(): Promise<undefined> {
+  const expired = await Clock.getExpired();
+  for (let { gameId } of expired) {
+    try {
+      await Game.handleTimeout(gameId);
+    } catch (err) {
+      // e.g. the player moved while the random move was being made
+      console.error(`Error handling timeout for game ${gameId}:`, err);
+    }
+  }
+}
+
+/** Pairs waiting players w/ each other, then w/ an AI once they've waited
+ * long enough (unless disabled) */
+async function _matchWaitingPlayers(): Promise<undefined> {
+  await Matchmaking.pairWaiting();
+  if (MATCHMAKING_AI_WAIT_SECONDS > 0) {
+    await Matchmaking.matchWithAi(MATCHMAKING_AI_WAIT_SECONDS);
+  }
+}
+
+export { startScheduler, stopScheduler, runScheduledJobs };
@@ -1,8 +1,41 @@
 "use strict";
 
 import app from "./app"
+import db from "./db";
+import { PORT } from "./config";
+import { startScheduler, stopScheduler } from "./scheduler";
+import { closeEventStreams } from "./routes/games";
 
-app.listen(3000, function () {
+// how long to wait for open requests to finish before exiting anyway
+const SHUTDOWN_TIMEOUT_MS = 10000;
+
+const server = app.listen(PORT, function () {
   console.log(
-      "Started http://localhost:3000/");
-});
\ No newline at end of file
+      `Started http://localhost:${PORT}/`);
+});
+
+startScheduler();
+
+/** Stops accepting new requests, ends open event streams, lets open
+ * requests finish, then stops the scheduler, closes the database pool and
+ * exits */
+function shutdown(signal: string) {
+  console.log(`${signal} received; shutting down.`);
+
+  setTimeout(function () {
+    console.error("Timed out waiting for requests to finish; exiting.");
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  server.close(async function () {
+    await stopScheduler();
+    await db.end();
+    console.log("Shutdown complete.");
+    process.exit(0);
+  });
+  closeEventStreams();
+  server.closeIdleConnections();
+}
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
@@ -1,47 +1,96 @@
-import { Game } from "../models/game";
+import { ExpressError } from "../expressError";
 
-class GameError extends Error {
-  constructor (message: string) {
-    super(message);
+/** GameError extends ExpressError so game logic errors carry an HTTP status
+ *  and a stable machine-readable code back to the client.
+ */
+class GameError extends ExpressError {
+  constructor (message: string, status: number, code: string) {
+    super(message, status, code);
   }
 }
 
+/** 409 CONFLICT: game can't be started with fewer than two players */
 class TooFewPlayers extends GameError {
   constructor (message: string) {
-    super(message);
+    super(message, 409, 'TOO_FEW_PLAYERS');
     this.name = 'TooFewPlayers'
   }
 }
 
+/** 409 CONFLICT: player has already been added to the game */
 class PlayerAlreadyExists extends GameError {
   constructor (message: string) {
-    super(message);
+    super(message, 409, 'PLAYER_ALREADY_EXISTS');
     this.name = 'PlayerAlreadyExists'
   }
 }
 
+/** 409 CONFLICT: game is not in a state which allows the action */
 class InvalidGameState extends GameError {
   constructor (message: string) {
-    super(message);
+    super(message, 409, 'INVALID_GAME_STATE');
     this.name = 'InvalidGameState'
   }
 }
 
+/** 403 FORBIDDEN: it is not the specified player's turn */
 class NotCurrentPlayer extends GameError {
   constructor (message: string = 'Specified player is not current player.') {
-    super(message);
+    super(message, 403, 'NOT_CURRENT_PLAYER');
     this.name = 'NotCurrentPlayer'
   }
 }
 
+/** 422 UNPROCESSABLE CONTENT: column is out of bounds or full */
 class InvalidPiecePlacement extends GameError {
   constructor (message: string = 'Invalid column or column is full.') {
-    super(message);
-    this.name = 'NotCurrentPlayer'
+    super(message, 422, 'INVALID_PIECE_PLACEMENT');
+    this.name = 'InvalidPiecePlacement'
+  }
+}
+
+/** 409 CONFLICT: another move for the game landed while this one waited */
+class MoveConflict extends GameError {
+  constructor (message: string = 'Game was updated by another move.') {
+    super(message, 409, 'MOVE_CONFLICT');
+    this.name = 'MoveConflict'
+  }
+}
+
+/** 409 CONFLICT: the requested undo can't be made or responded to */
+class UndoNotAllowed extends GameError {
+  constructor (message: string = 'Undo is not allowed.') {
+    super(message, 409, 'UNDO_NOT_ALLOWED');
+    this.name = 'UndoNotAllowed'
+  }
+}
+
+/** 409 CONFLICT: a draw can't be offered or there's no offer to respond to */
+class DrawNotAllowed extends GameError {
+  constructor (message: string = 'Draw is not allowed.') {
+    super(message, 409, 'DRAW_NOT_ALLOWED');
+    this.name = 'DrawNotAllowed'
+  }
+}
+
+/** 409 CONFLICT: the game already has its maximum number of players */
+class GameFull extends GameError {
+  constructor (message: string = 'Game is full.') {
+    super(message, 409, 'GAME_FULL');
+    this.name = 'GameFull'
+  }
+}
+
+/** 409 CONFLICT: the player has none of the power-up they tried to use left */
+class PowerUpUnavailable extends GameError {
+  constructor (message: string = 'No power-ups of that type left.') {
+    super(message, 409, 'POWER_UP_UNAVAILABLE');
+    this.name = 'PowerUpUnavailable'
   }
 }
 
 export {
-  TooFewPlayers, PlayerAlreadyExists,
-  InvalidGameState, InvalidPiecePlacement, NotCurrentPlayer
- };
\ No newline at end of file
+  GameError, TooFewPlayers, PlayerAlreadyExists, InvalidGameState,
+  InvalidPiecePlacement, NotCurrentPlayer, MoveConflict, UndoNotAllowed,
+  DrawNotAllowed, GameFull, PowerUpUnavailable
+ };
@@ -0,0 +1,79 @@
+import { EventEmitter } from "events";
+import db from "../db";
+
+/** Game Events
+ * Publishes changes to games (made by the model layer) to subscribers such as
+ * the server-sent events stream for a game
+ * Events published from within a transaction are only delivered once the
+ * transaction commits (and never if it rolls back)
+ * NOTE: subscribers are held in memory, so events only reach clients
+ * connected to the same app instance that made the change
+ */
+
+type GameEventType =
+  "playerJoined" |
+  "playerRemoved" |
+  "playerLeft" |
+  "gameStarted" |
+  "pieceDropped" |
+  "piecePopped" |
+  "powerUpUsed" |
+  "currentPlayerChanged" |
+  "gameWon" |
+  "playerFinished" |
+  "gameTied" |
+  "turnTimedOut" |
+  "gameWonOnTime" |
+  "playerResigned" |
+  "drawOffered" |
+  "drawDeclined" |
+  "drawAgreed" |
+  "gameAbandoned" |
+  "undoRequested" |
+  "undoDeclined" |
+  "moveUndone" |
+  "rematchCreated" |
+  "spectatorJoined" |
+  "spectatorLeft";
+
+interface GameEventInterface {
+  type: GameEventType;
+  gameId: string;
+  data: Record<string, unknown>;
+  createdOn: Date;
+}
+
+type GameEventListenerType = (event: GameEventInterface) => void;
+
+const emitter = new EventEmitter();
+// every open stream adds a listener, so don't warn about "leaks"
+emitter.setMaxListeners(0);
+
+class GameEvents {
+
+  /** Publishes an event for a game once the current transaction (if any) commits */
+  static publish(
+    gameId: string,
+    type: GameEventType,
+    data: Record<string, unknown> = {}
+  ): undefined {
+    const event: GameEventInterface = { type, gameId, data, createdOn: new Date() };
+    db.afterCommit(() => emitter.emit(gameId, event));
+    return undefined;
+  }
+
+  /** Subscribes to every event for a game
+   * Returns a function which unsubscribes the listener
+   */
+  static subscribe(gameId: string, listener: GameEventListenerType): () => void {
+    emitter.on(gameId, listener);
+    return () => { emitter.off(gameId, listener); };
+  }
+}
+
+export {
+  GameEvents,
+  GameEventType,
+  GameEventInterface,
+  GameEventListenerType
+};
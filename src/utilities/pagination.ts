@@ -0,0 +1,132 @@
+import { BadRequestError } from "../expressError";
+
+/** Cursor-based (keyset) pagination helpers
+ * A cursor marks the last row of a page by its sort column's value and its
+ * ID; the next page is the rows which sort after it. Unlike offsets, pages
+ * don't shift when rows are added or removed while paging.
+ * Cursors are opaque to clients (base64url encoded JSON).
+ */
+
+type SortOrderType = "asc" | "desc";
+
+interface CursorInterface {
+  value: string | number | boolean | null;
+  id: string;
+}
+
+// a column which results can be sorted by
+interface SortColumnInterface {
+  column: string;
+  type: string;
+}
+
+// default (and maximum) number of rows in a page
+const DEFAULT_PAGE_LIMIT = 25;
+const MAX_PAGE_LIMIT = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// like 2024-01-31 12:00:00.123456+00 (or the ISO 8601 equivalent)
+const TIMESTAMP_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(\.\d+)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+
+const MAX_INT = 2147483647;
+
+// checks whether a cursor's value (the sort column's value as text) is valid
+// for the sort column's type
+const CURSOR_VALUE_CHECKS: Record<string, (value: string) => boolean> = {
+  int: value => /^-?\d+$/.test(value) && Math.abs(Number(value)) <= MAX_INT,
+  text: () => true,
+  timestamptz: _isTimestamp
+};
+
+/** Encodes a cursor for the last row of a page */
+function encodeCursor(cursor: CursorInterface): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/** Decodes a cursor created by encodeCursor() for a sort column
+ * Throws BadRequestError if the cursor is malformed, its ID isn't a UUID or
+ * its value doesn't match the sort column's type
+ */
+function decodeCursor(cursor: string, sortColumn: SortColumnInterface): CursorInterface {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    const isValueValid = typeof decoded.value === "string" &&
+      (CURSOR_VALUE_CHECKS[sortColumn.type]?.(decoded.value) ?? false);
+    if (typeof decoded.id === "string" && UUID_PATTERN.test(decoded.id) && isValueValid) {
+      return decoded;
+    }
+  } catch (err) {
+    /* handled below */
+  }
+  throw new BadRequestError("Invalid cursor.");
+}
+
+/**
+ * Builds the SQL for paging through rows sorted by a column (and then ID)
+ * Accepts the sort column, order, table's ID column, the cursor (if any)
+ * and the number of the next free placeholder
+ * Returns { whereClause, orderBy, values } where whereClause is '' w/o a
+ * cursor; values are the cursor's values for the placeholders used
+ */
+function sqlForKeysetPage(
+  sortColumn: SortColumnInterface,
+  order: SortOrderType,
+  idColumn: string,
+  cursor: string | undefined,
+  firstIndex: number
+): { whereClause: string, orderBy: string, values: unknown[] } {
+  const direction = order === "desc" ? "DESC" : "ASC";
+  const orderBy = `${sortColumn.column} ${direction}, ${idColumn} ${direction}`;
+
+  if (cursor === undefined) return { whereClause: "", orderBy, values: [] };
+
+  const { value, id } = decodeCursor(cursor, sortColumn);
+  const comparison = order === "desc" ? "<" : ">";
+  const whereClause = `(${sortColumn.column}, ${idColumn}) ${comparison} ` +
+    `($${firstIndex}::${sortColumn.type}, $${firstIndex + 1})`;
+  return { whereClause, orderBy, values: [value, id] };
+}
+
+/**
+ * Splits off a page of rows from rows fetched w/ a limit one higher than
+ * the page's (the extra row shows whether there is a next page)
+ * Accepts the rows, the page limit and a function returning a row's cursor
+ * Returns { rows, nextCursor } where nextCursor is null on the last page
+ */
+function toPage<T>(
+  rows: T[],
+  limit: number,
+  getCursor: (row: T) => CursorInterface
+): { rows: T[], nextCursor: string | null } {
+  if (rows.length <= limit) return { rows, nextCursor: null };
+
+  const page = rows.slice(0, limit);
+  return { rows: page, nextCursor: encodeCursor(getCursor(page[page.length - 1])) };
+}
+
+/** Whether a value is a valid date and time like 2024-01-31 12:00:00+00 */
+function _isTimestamp(value: string): boolean {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (match === null) return false;
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    hour < 24 && minute < 60 && second < 60;
+}
+
+export {
+  SortOrderType,
+  CursorInterface,
+  SortColumnInterface,
+  DEFAULT_PAGE_LIMIT,
+  MAX_PAGE_LIMIT,
+  encodeCursor,
+  decodeCursor,
+  sqlForKeysetPage,
+  toPage
+};
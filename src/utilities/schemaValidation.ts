@@ -0,0 +1,49 @@
+import { validate, Schema, ValidationError } from "jsonschema";
+import { RequestValidationError, InvalidFieldInterface } from "../expressError";
+
+/** Validates request data against a JSON schema
+ * Throws a RequestValidationError listing every offending field if invalid
+ */
+export function validateSchema(data: unknown, schema: Schema): void {
+  const result = validate(data, schema, { required: true });
+  if (result.valid) return;
+
+  const fields: InvalidFieldInterface[] = result.errors.map(e => ({
+    field: _fieldName(e),
+    message: e.message
+  }));
+  throw new RequestValidationError(fields);
+}
+
+/** Coerces a string made up of only digits (e.g. a URL param) into an integer
+ * Any other value is returned unchanged so that validation can reject it
+ */
+export function coerceInteger(value: string): number | string {
+  return /^-?\d+$/.test(value) ? Number(value) : value;
+}
+
+/** Coerces 'true' or 'false' (e.g. from a query string) into a boolean
+ * Any other value is returned unchanged so that validation can reject it
+ */
+export function coerceBoolean(value: string): boolean | string {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return value;
+}
+
+/** Determines the name of the field (e.g. 'height' or '[0]') an error is for */
+function _fieldName(error: ValidationError): string {
+  // errors about missing or unexpected properties are reported on the parent
+  if (error.name === "required" || error.name === "additionalProperties") {
+    return _formatPath([...error.path, error.argument]);
+  }
+  return _formatPath(error.path);
+}
+
+function _formatPath(path: (string | number)[]): string {
+  const field = path.reduce<string>((name, segment) => {
+    if (typeof segment === "number") return `${name}[${segment}]`;
+    return name === "" ? segment : `${name}.${segment}`;
+  }, "");
+  return field === "" ? "body" : field;
+}
@@ -0,0 +1,31 @@
+import _ from "lodash";
+import { BadRequestError } from "../expressError";
+
+/** Helper for making selective update queries.
+ *
+ * Accepts the data to update like { currPlayerId: 'abc', gameState: 1 }
+ * and the number of the first placeholder to use (defaults to 1) so that
+ * earlier placeholders can be reserved (e.g. for the row's ID)
+ *
+ * Returns { setCols, values } like
+ * { setCols: 'curr_player_id=$2, game_state=$3', values: ['abc', 1] }
+ *
+ * Throws BadRequestError if there is no data to update
+ */
+function sqlForPartialUpdate(
+  dataToUpdate: object,
+  firstIndex: number = 1
+): { setCols: string, values: unknown[] } {
+  const keys = Object.keys(dataToUpdate);
+  if (keys.length === 0) throw new BadRequestError("No data");
+
+  // {firstName: 'Aliya', age: 32} => ['first_name=$1', 'age=$2']
+  const cols = keys.map((key, index) => `${_.snakeCase(key)}=$${index + firstIndex}`);
+
+  return {
+    setCols: cols.join(", "),
+    values: Object.values(dataToUpdate),
+  };
+}
+
+export { sqlForPartialUpdate };
@@ -4,6 +4,40 @@ export const SQLQueries = {
     name,
     color,
     ai,
+    ai_difficulty AS "aiDifficulty",
+    rating,
+    created_on AS "createdOn"
+  `,
+  defaultMatchmakingCols: `
+    matchmaking_queue.player_id AS "playerId",
+    matchmaking_queue.height,
+    matchmaking_queue.width,
+    matchmaking_queue.rating_band AS "ratingBand",
+    matchmaking_queue.game_id AS "gameId",
+    matchmaking_queue.created_on AS "createdOn"
+  `,
+  defaultInvitationCols: `
+    game_id AS "gameId",
+    player_id AS "playerId",
+    invited_by AS "invitedBy",
+    status,
+    created_on AS "createdOn",
+    responded_on AS "respondedOn"
+  `,
+  defaultSpectatorCols: `
+    id,
+    game_id AS "gameId",
+    name,
+    last_seen_on AS "lastSeenOn",
+    created_on AS "createdOn"
+  `,
+  defaultLayoutCols: `
+    id,
+    name,
+    height,
+    width,
+    blocked_cells AS "blockedCells",
+    created_by AS "createdBy",
     created_on AS "createdOn"
   `
 }
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { createHmac, timingSafeEqual, scrypt, randomBytes } from "crypto";
+import { promisify } from "util";
+import { SECRET_KEY, TOKEN_EXPIRATION_SECONDS } from "../config";
+import { UnauthorizedError } from "../expressError";
+
+/** Player Tokens
+ * JWT-style tokens (header.payload.signature, HMAC-SHA256 signed w/ the
+ * app's SECRET_KEY) identifying the player making a request
+ * Spectators get tokens too, but theirs identify the spectator and the
+ * game they are watching (and have no player ID)
+ * Also hashes / verifies player passwords used to obtain a token
+ */
+
+interface TokenPayloadInterface {
+  playerId: string;
+  iat: number;
+  exp: number;
+}
+
+interface SpectatorTokenPayloadInterface {
+  role: "spectator";
+  spectatorId: string;
+  gameId: string;
+  iat: number;
+  exp: number;
+}
+
+const TOKEN_HEADER = _encode({ alg: "HS256", typ: "JWT" });
+
+const PASSWORD_KEY_LENGTH = 64;
+
+const scryptAsync = promisify(scrypt) as
+  (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+/** Creates a signed token for a player
+ * Returns the token like 'header.payload.signature'
+ */
+function createToken(playerId: string): string {
+  const iat = Math.floor(Date.now() / 1000);
+  return _signPayload({ playerId, iat, exp: iat + TOKEN_EXPIRATION_SECONDS });
+}
+
+/** Creates a signed token for a spectator watching a game
+ * Returns the token like 'header.payload.signature'
+ */
+function createSpectatorToken(spectatorId: string, gameId: string): string {
+  const iat = Math.floor(Date.now() / 1000);
+  return _signPayload({
+    role: "spectator",
+    spectatorId,
+    gameId,
+    iat,
+    exp: iat + TOKEN_EXPIRATION_SECONDS
+  });
+}
+
+/** Verifies a token's signature and expiration
+ * Returns the token's payload like { playerId, iat, exp } for players or
+ * { role: 'spectator', spectatorId, gameId, iat, exp } for spectators
+ * Throws UnauthorizedError if the token is malformed, tampered w/ or expired
+ */
+function verifyToken(token: string): TokenPayloadInterface | SpectatorTokenPayloadInterface {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts[0] !== TOKEN_HEADER) {
+    throw new UnauthorizedError("Invalid token.");
+  }
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(_sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new UnauthorizedError("Invalid token.");
+  }
+
+  let decoded: TokenPayloadInterface | SpectatorTokenPayloadInterface;
+  try {
+    decoded = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch (err) {
+    throw new UnauthorizedError("Invalid token.");
+  }
+
+  const isValid = "role" in decoded
+    ? decoded.role === "spectator" &&
+      typeof decoded.spectatorId === "string" &&
+      typeof decoded.gameId === "string"
+    : typeof decoded.playerId === "string";
+  if (!isValid || !(decoded.exp > Math.floor(Date.now() / 1000))) {
+    throw new UnauthorizedError("Token has expired.");
+  }
+
+  return decoded;
+}
+
+/** Hashes a password w/ a random salt
+ * Returns the hash like 'salt:hash' for storing w/ the player
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+/** Returns whether a password matches a hash created by hashPassword() */
+async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [salt, hash] = storedHash.split(":");
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Signs a payload; returns the token like 'header.payload.signature' */
+function _signPayload(payload: TokenPayloadInterface | SpectatorTokenPayloadInterface): string {
+  const unsigned = `${TOKEN_HEADER}.${_encode(payload)}`;
+  return `${unsigned}.${_sign(unsigned)}`;
+}
+
+function _encode(data: object): string {
+  return Buffer.from(JSON.stringify(data)).toString("base64url");
+}
+
+function _sign(data: string): string {
+  return createHmac("sha256", SECRET_KEY).update(data).digest("base64url");
+}
+
+export {
+  TokenPayloadInterface,
+  SpectatorTokenPayloadInterface,
+  createToken,
+  createSpectatorToken,
+  verifyToken,
+  hashPassword,
+  verifyPassword
+};
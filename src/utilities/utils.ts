@@ -1,5 +1,7 @@
 /** Various utility functions */
 
+import { randomInt } from "crypto";
+
 export function fisherSort(arrayToSort : any[]) : any[] {
   // randomly sort the array () - Fisher Yates
   for (let i = arrayToSort.length - 1; i > 0; i--) {
@@ -33,3 +35,17 @@ export function generateRandomName(length : number = 6) : string {
   }
   return name;
 }
+
+// join codes leave out characters which are easily confused (0 / O, 1 / I)
+const JOIN_CODE_CHARACTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/** Generates a random code for sharing a private game
+ * Accepts a number for the length of the code (defaults to 6)
+ */
+export function generateJoinCode(length : number = 6) : string {
+  let code = '';
+  while (code.length < length) {
+    code += JOIN_CODE_CHARACTERS[randomInt(JOIN_CODE_CHARACTERS.length)];
+  }
+  return code;
+}